@@ -0,0 +1,16 @@
+-- Clear duplicate provider event ids (keep the earliest delivery) so the unique index can be created
+UPDATE "WebhookEvent" SET "providerEventId" = NULL
+WHERE "id" IN (
+    SELECT "id" FROM (
+        SELECT "id", ROW_NUMBER() OVER (PARTITION BY "provider", "providerEventId" ORDER BY "receivedAt", "id") AS rn
+        FROM "WebhookEvent"
+        WHERE "providerEventId" IS NOT NULL
+    ) AS duplicates
+    WHERE duplicates.rn > 1
+);
+
+-- DropIndex
+DROP INDEX "idx_webhook_provider_event";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idx_webhook_provider_event" ON "WebhookEvent"("provider", "providerEventId");
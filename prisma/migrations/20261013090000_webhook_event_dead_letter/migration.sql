@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "deadLetteredAt" TIMESTAMP(3),
+ADD COLUMN     "headers" JSONB,
+ADD COLUMN     "lastError" TEXT;
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_organizationId_receivedAt_idx" ON "WebhookEvent"("organizationId", "receivedAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RawEvent" ADD COLUMN     "deletedAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "IngestionStatus" ADD VALUE 'CANCELLED';
+
+-- CreateIndex
+CREATE INDEX "IngestionJob_organizationId_status_idx" ON "IngestionJob"("organizationId", "status");
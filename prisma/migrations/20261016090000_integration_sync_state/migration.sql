@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "IntegrationSyncState" (
+    "id" TEXT NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "cursor" TEXT,
+    "highWaterMark" TIMESTAMP(3),
+    "backfillCompletedAt" TIMESTAMP(3),
+    "lastSyncedAt" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IntegrationSyncState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IntegrationSyncState_resourceId_key" ON "IntegrationSyncState"("resourceId");
+
+-- AddForeignKey
+ALTER TABLE "IntegrationSyncState" ADD CONSTRAINT "IntegrationSyncState_resourceId_fkey" FOREIGN KEY ("resourceId") REFERENCES "IntegrationResource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "IntegrationSyncState" ADD COLUMN     "failureCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "backoffUntil" TIMESTAMP(3);
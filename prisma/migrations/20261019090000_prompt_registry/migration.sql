@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "LlmOutput" ADD COLUMN     "promptVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "PromptOverride" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "promptId" TEXT NOT NULL,
+    "version" INTEGER,
+    "tone" TEXT,
+    "instructions" TEXT,
+    "revision" INTEGER NOT NULL DEFAULT 1,
+    "updatedById" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptOverride_organizationId_promptId_key" ON "PromptOverride"("organizationId", "promptId");
+
+-- AddForeignKey
+ALTER TABLE "PromptOverride" ADD CONSTRAINT "PromptOverride_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "DetectionReviewStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "DetectionReview" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "rawEventId" TEXT NOT NULL,
+    "intent" "SemanticIntent" NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "featureName" TEXT,
+    "featureDescription" TEXT,
+    "taskTitle" TEXT,
+    "taskDescription" TEXT,
+    "status" "DetectionReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "featureId" TEXT,
+    "taskId" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DetectionReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DetectionReview_rawEventId_key" ON "DetectionReview"("rawEventId");
+
+-- CreateIndex
+CREATE INDEX "DetectionReview_projectId_status_idx" ON "DetectionReview"("projectId", "status");
+
+-- AddForeignKey
+ALTER TABLE "DetectionReview" ADD CONSTRAINT "DetectionReview_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DetectionReview" ADD CONSTRAINT "DetectionReview_rawEventId_fkey" FOREIGN KEY ("rawEventId") REFERENCES "RawEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
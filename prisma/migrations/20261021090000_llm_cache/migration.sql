@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "LlmUsage" ADD COLUMN     "cacheHit" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "LlmCacheEntry" (
+    "id" TEXT NOT NULL,
+    "cacheKey" TEXT NOT NULL,
+    "operationType" "LlmOperationType" NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "inputHash" TEXT NOT NULL,
+    "result" JSONB NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmCacheEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LlmCacheEntry_cacheKey_key" ON "LlmCacheEntry"("cacheKey");
+
+-- CreateIndex
+CREATE INDEX "LlmCacheEntry_expiresAt_idx" ON "LlmCacheEntry"("expiresAt");
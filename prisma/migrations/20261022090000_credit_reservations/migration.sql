@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "reservedCredits" DECIMAL(15,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "LlmBudgetPeriod" AS ENUM ('DAILY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "LlmUsage" ADD COLUMN     "projectId" TEXT;
+
+-- CreateTable
+CREATE TABLE "LlmBudget" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "operationType" "LlmOperationType",
+    "period" "LlmBudgetPeriod" NOT NULL DEFAULT 'MONTHLY',
+    "softLimit" DECIMAL(15,2),
+    "hardLimit" DECIMAL(15,2),
+    "requestsPerMinute" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmBudget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_projectId_createdAt_idx" ON "LlmUsage"("projectId", "created_at");
+
+-- CreateIndex
+CREATE INDEX "LlmBudget_organizationId_idx" ON "LlmBudget"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "LlmBudget" ADD CONSTRAINT "LlmBudget_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LlmBudget" ADD CONSTRAINT "LlmBudget_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- Full-text search for hybrid RAG retrieval (HybridRetrievalService)
+-- Expression indexes are not expressible in schema.prisma; queries must use the exact same expressions
+-- to hit them.
+
+-- RawEvent: original content plus the LLM-generated semantic summary
+CREATE INDEX IF NOT EXISTS rawevent_fulltext_idx
+ON "RawEvent"
+USING GIN (to_tsvector('english', coalesce(content, '') || ' ' || coalesce("semanticSummary", '')));
+
+-- ContentChunk: chunks of long event content
+CREATE INDEX IF NOT EXISTS contentchunk_fulltext_idx
+ON "ContentChunk"
+USING GIN (to_tsvector('english', content));
+
+-- CreateIndex
+CREATE INDEX "RawEvent_projectId_timestamp_idx" ON "RawEvent"("projectId", "timestamp");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "ChatMessageSource" ADD COLUMN "contentChunkId" TEXT,
+ADD COLUMN "citationIndex" INTEGER,
+ADD COLUMN "cited" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "url" TEXT,
+ADD COLUMN "quote" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ChatMessageSource_contentChunkId_idx" ON "ChatMessageSource"("contentChunkId");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageSource" ADD CONSTRAINT "ChatMessageSource_contentChunkId_fkey" FOREIGN KEY ("contentChunkId") REFERENCES "ContentChunk"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "LlmOperationType" ADD VALUE 'CONVERSATION_SUMMARY';
+ALTER TYPE "LlmOperationType" ADD VALUE 'QUERY_REWRITE';
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "summary" TEXT,
+ADD COLUMN "summaryThrough" TIMESTAMP(3),
+ADD COLUMN "summaryMessageCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "summaryUpdatedAt" TIMESTAMP(3);
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ChatFeedbackRating" AS ENUM ('UP', 'DOWN');
+
+-- CreateTable
+CREATE TABLE "ChatMessageFeedback" (
+    "id" TEXT NOT NULL,
+    "chatMessageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "rating" "ChatFeedbackRating" NOT NULL,
+    "reason" TEXT,
+    "question" TEXT,
+    "sources" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatMessageFeedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatMessageFeedback_chatMessageId_userId_key" ON "ChatMessageFeedback"("chatMessageId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ChatMessageFeedback_rating_created_at_idx" ON "ChatMessageFeedback"("rating", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageFeedback" ADD CONSTRAINT "ChatMessageFeedback_chatMessageId_fkey" FOREIGN KEY ("chatMessageId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageFeedback" ADD CONSTRAINT "ChatMessageFeedback_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "queuedAt" TIMESTAMP(3);
+
+-- Deliveries stored before this column existed were queued when received
+UPDATE "WebhookEvent" SET "queuedAt" = "receivedAt";
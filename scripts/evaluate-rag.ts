@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NestFactory } from '@nestjs/core';
+import { RagEvaluationModule } from '../src/modules/llm/evaluation/rag-evaluation.module';
+import { RagEvalCase, RagEvalReport, RagEvaluationService } from '../src/modules/llm/evaluation/rag-evaluation.service';
+
+/**
+ * Offline RAG evaluation
+ *
+ * Replays a question set through hybrid retrieval and the chat prompt, answered by the local fake LLM,
+ * and reports recall@k, MRR and citation accuracy. Reads the database (DATABASE_URL) but writes nothing
+ * and spends no credits.
+ *
+ * Usage:
+ *   npm run eval:rag -- --org <organizationId> --questions scripts/rag-eval.example.json [--k 5]
+ *   npm run eval:rag -- --org <organizationId> --from-feedback [--limit 200]
+ *
+ * Options:
+ *   --out <file>          also write the full report as JSON
+ *   --min-recall <0..1>   exit with code 1 when mean recall@k is lower (for CI)
+ *
+ * A question file is a JSON array of { question, projectIds, expectedRawEventIds?, expectedLlmOutputIds? }.
+ * --from-feedback uses thumbs-up answers instead, expecting the sources they cited.
+ */
+
+function parseArgs(argv: string[]) {
+    const args: Record<string, string | boolean> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (!argv[i].startsWith('--')) continue;
+        const key = argv[i].slice(2);
+        const next = argv[i + 1];
+        if (next !== undefined && !next.startsWith('--')) {
+            args[key] = next;
+            i++;
+        } else {
+            args[key] = true;
+        }
+    }
+    return args;
+}
+
+function loadQuestionFile(file: string): RagEvalCase[] {
+    const cases = JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+    if (!Array.isArray(cases)) {
+        throw new Error(`${file} must contain a JSON array of evaluation cases`);
+    }
+
+    return cases.map((item: any, index: number) => {
+        if (typeof item.question !== 'string' || !Array.isArray(item.projectIds)) {
+            throw new Error(`Case ${index + 1} in ${file} needs a question and projectIds`);
+        }
+        return { id: item.id ?? String(index + 1), ...item };
+    });
+}
+
+function printReport(report: RagEvalReport) {
+    const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+
+    console.log('\nRAG evaluation');
+    console.log('==============');
+    for (const result of report.results) {
+        console.log(
+            `- ${result.question.slice(0, 70).padEnd(70)} recall@${report.k} ${percent(result.recallAtK).padStart(6)}` +
+            `  rr ${result.reciprocalRank.toFixed(2)}  cited ${result.relevantCited}/${result.cited.length}` +
+            `${result.invalidCitations.length ? `  invalid [${result.invalidCitations.join(', ')}]` : ''}`
+        );
+    }
+
+    console.log('');
+    console.log(`Cases:                 ${report.cases}`);
+    console.log(`Mean recall@${report.k}:         ${percent(report.meanRecallAtK)}`);
+    console.log(`Hit rate@${report.k}:            ${percent(report.hitRateAtK)}`);
+    console.log(`MRR:                   ${report.mrr.toFixed(3)}`);
+    console.log(`Citation accuracy:     ${percent(report.citationAccuracy)}`);
+    console.log(`Invalid citation rate: ${percent(report.invalidCitationRate)}`);
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const organizationId = args.org;
+    if (typeof organizationId !== 'string' || (!args.questions && !args['from-feedback'])) {
+        console.error('Usage: npm run eval:rag -- --org <organizationId> (--questions <file> | --from-feedback) [--k 5] [--out report.json] [--min-recall 0.5]');
+        process.exit(2);
+    }
+
+    const k = parseInt(String(args.k ?? '5'), 10) || 5;
+    const app = await NestFactory.createApplicationContext(RagEvaluationModule, { logger: ['error', 'warn'] });
+
+    try {
+        const evaluation = app.get(RagEvaluationService);
+        const cases = typeof args.questions === 'string'
+            ? loadQuestionFile(args.questions)
+            : await evaluation.loadFeedbackCases(organizationId, parseInt(String(args.limit ?? '200'), 10) || 200);
+
+        if (cases.length === 0) {
+            console.error('No evaluation cases found');
+            process.exitCode = 2;
+            return;
+        }
+
+        const report = await evaluation.evaluate({ organizationId, cases, k });
+        printReport(report);
+
+        if (typeof args.out === 'string') {
+            fs.writeFileSync(path.resolve(args.out), JSON.stringify(report, null, 2));
+            console.log(`\nReport written to ${args.out}`);
+        }
+
+        const minRecall = args['min-recall'] !== undefined ? parseFloat(String(args['min-recall'])) : undefined;
+        if (minRecall !== undefined && report.meanRecallAtK < minRecall) {
+            console.error(`\nMean recall@${k} ${report.meanRecallAtK.toFixed(3)} is below --min-recall ${minRecall}`);
+            process.exitCode = 1;
+        }
+    } finally {
+        await app.close();
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -465,7 +465,7 @@ const endpoints: Endpoint[] = [
         name: 'Send Message',
         method: 'POST',
         path: '/api/v1/chat/conversations/:id/messages',
-        body: { question: 'string' },
+        body: { question: 'string', useTools: 'boolean' },
     },
     {
         folder: 'Chat',
@@ -474,6 +474,25 @@ const endpoints: Endpoint[] = [
         path: '/api/v1/chat/conversations/:id/messages',
         query: [{ key: 'limit', value: '50' }, { key: 'offset', value: '0' }],
     },
+    {
+        folder: 'Chat',
+        name: 'Cancel Generation',
+        method: 'POST',
+        path: '/api/v1/chat/jobs/:jobId/cancel',
+    },
+    {
+        folder: 'Chat',
+        name: 'Rate Answer',
+        method: 'PUT',
+        path: '/api/v1/chat/messages/:messageId/feedback',
+        body: { rating: 'UP', reason: 'string' },
+    },
+    {
+        folder: 'Chat',
+        name: 'Remove Answer Rating',
+        method: 'DELETE',
+        path: '/api/v1/chat/messages/:messageId/feedback',
+    },
 
     // Provider Integrations (sample endpoints)
     {
@@ -495,6 +514,160 @@ const endpoints: Endpoint[] = [
         method: 'POST',
         path: '/api/v1/github/sync-repos/:integrationId',
     },
+
+    // Webhooks (admin)
+    {
+        folder: 'Webhooks',
+        name: 'List Webhook Events',
+        method: 'GET',
+        path: '/api/v1/orgs/:orgId/webhooks',
+        query: [
+            { key: 'provider', value: 'GITHUB' },
+            { key: 'processed', value: 'false' },
+            { key: 'deadLettered', value: 'true' },
+            { key: 'from', value: 'string' },
+            { key: 'to', value: 'string' },
+            { key: 'page', value: '1' },
+            { key: 'limit', value: '20' },
+        ],
+    },
+    {
+        folder: 'Webhooks',
+        name: 'Get Webhook Event',
+        method: 'GET',
+        path: '/api/v1/orgs/:orgId/webhooks/:id',
+    },
+    {
+        folder: 'Webhooks',
+        name: 'Replay Webhook Event',
+        method: 'POST',
+        path: '/api/v1/orgs/:orgId/webhooks/:id/replay',
+    },
+    {
+        folder: 'Webhooks',
+        name: 'Replay Webhook Events In Range',
+        method: 'POST',
+        path: '/api/v1/orgs/:orgId/webhooks/replay',
+        body: { from: 'string', to: 'string', provider: 'GITHUB', includeProcessed: false },
+    },
+
+    // Ingestion jobs
+    {
+        folder: 'Ingestion',
+        name: 'List Ingestion Jobs',
+        method: 'GET',
+        path: '/api/v1/orgs/:orgId/ingestion-jobs',
+        query: [
+            { key: 'status', value: 'RUNNING' },
+            { key: 'integrationId', value: 'string' },
+            { key: 'page', value: '1' },
+            { key: 'limit', value: '20' },
+        ],
+    },
+    {
+        folder: 'Ingestion',
+        name: 'Get Ingestion Job',
+        method: 'GET',
+        path: '/api/v1/orgs/:orgId/ingestion-jobs/:id',
+    },
+    {
+        folder: 'Ingestion',
+        name: 'Cancel Ingestion Job',
+        method: 'POST',
+        path: '/api/v1/orgs/:orgId/ingestion-jobs/:id/cancel',
+    },
+
+    // LLM settings
+    {
+        folder: 'LLM Settings',
+        name: 'Get LLM Settings',
+        method: 'GET',
+        path: '/api/v1/orgs/:orgId/llm-settings',
+    },
+    {
+        folder: 'LLM Settings',
+        name: 'Update LLM Settings',
+        method: 'PUT',
+        path: '/api/v1/orgs/:orgId/llm-settings',
+        body: { provider: 'anthropic', model: 'claude-3-5-haiku-latest', embeddingProvider: 'azure', embeddingModel: 'string' },
+    },
+
+    // Prompts
+    {
+        folder: 'Prompts',
+        name: 'List Prompt Templates',
+        method: 'GET',
+        path: '/api/v1/orgs/:orgId/prompts',
+    },
+    {
+        folder: 'Prompts',
+        name: 'Override Prompt',
+        method: 'PUT',
+        path: '/api/v1/orgs/:orgId/prompts/:promptId',
+        body: { version: 1, tone: 'string', instructions: 'string' },
+    },
+    {
+        folder: 'Prompts',
+        name: 'Delete Prompt Override',
+        method: 'DELETE',
+        path: '/api/v1/orgs/:orgId/prompts/:promptId',
+    },
+
+    // Detection reviews
+    {
+        folder: 'Detection Reviews',
+        name: 'List Detection Reviews',
+        method: 'GET',
+        path: '/api/v1/orgs/:orgId/projects/:projectId/detection-reviews',
+        query: [{ key: 'status', value: 'PENDING' }, { key: 'page', value: '1' }, { key: 'limit', value: '20' }],
+    },
+    {
+        folder: 'Detection Reviews',
+        name: 'Approve Detection',
+        method: 'POST',
+        path: '/api/v1/orgs/:orgId/projects/:projectId/detection-reviews/:id/approve',
+    },
+    {
+        folder: 'Detection Reviews',
+        name: 'Reject Detection',
+        method: 'POST',
+        path: '/api/v1/orgs/:orgId/projects/:projectId/detection-reviews/:id/reject',
+    },
+
+    // LLM budgets
+    {
+        folder: 'LLM Budgets',
+        name: 'List LLM Budgets',
+        method: 'GET',
+        path: '/api/v1/orgs/:orgId/llm-budgets',
+    },
+    {
+        folder: 'LLM Budgets',
+        name: 'Create LLM Budget',
+        method: 'POST',
+        path: '/api/v1/orgs/:orgId/llm-budgets',
+        body: { projectId: 'string', operationType: 'CHAT_ANSWER', period: 'MONTHLY', softLimit: 800, hardLimit: 1000, requestsPerMinute: 30 },
+    },
+    {
+        folder: 'LLM Budgets',
+        name: 'Update LLM Budget',
+        method: 'PUT',
+        path: '/api/v1/orgs/:orgId/llm-budgets/:budgetId',
+        body: { softLimit: 900, hardLimit: 1200, requestsPerMinute: null },
+    },
+    {
+        folder: 'LLM Budgets',
+        name: 'Delete LLM Budget',
+        method: 'DELETE',
+        path: '/api/v1/orgs/:orgId/llm-budgets/:budgetId',
+    },
+    {
+        folder: 'LLM Budgets',
+        name: 'Get Budget Status',
+        method: 'GET',
+        path: '/api/v1/orgs/:orgId/analytics/credits/budgets',
+        query: [{ key: 'projectId', value: '' }],
+    },
 ];
 
 interface Endpoint {
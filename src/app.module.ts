@@ -29,6 +29,8 @@ import { RolesModule } from './modules/roles/roles.module';
 import { StorageModule } from './modules/storage/storage.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
 import { ChatModule } from './modules/chat/chat.module';
+import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { IngestionModule } from './modules/ingestion/ingestion.module';
 
 @Module({
 	imports: [
@@ -61,6 +63,8 @@ import { ChatModule } from './modules/chat/chat.module';
 		StorageModule,
 		AnalyticsModule,
 		ChatModule,
+		WebhooksModule,
+		IngestionModule,
 	],
 	controllers: [AppController],
 	providers: [AppService, AppGateway],
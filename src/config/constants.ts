@@ -7,4 +7,5 @@ export const LLM_QUEUE = "LLM_QUEUE";
 export const EMAIL_QUEUE = "EMAIL_QUEUE";
 
 // Redis Key
-export const REDIS_ORG_APP_INTEGRATION_STATUS_KEY_PREFIX = "REDIS_ORG_APP_INTEGRATION_STATUS_KEY_PREFIX";
\ No newline at end of file
+export const REDIS_ORG_APP_INTEGRATION_STATUS_KEY_PREFIX = "REDIS_ORG_APP_INTEGRATION_STATUS_KEY_PREFIX";
+export const REDIS_DISCORD_GATEWAY_HEALTH_KEY = "REDIS_DISCORD_GATEWAY_HEALTH_KEY";
@@ -27,7 +27,7 @@ async function bootstrap() {
 	ConfigModule.forRoot();
 	const app = await NestFactory.create(
 		AppModule,
-		{ logger: ['debug', 'error', 'log', 'warn'] },
+		{ logger: ['debug', 'error', 'log', 'warn'], rawBody: true }, // rawBody: webhook signature checks
 	);
 
 	const configService = app.get(ConfigService);
@@ -1,11 +1,12 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { CreditAnalyticsService } from './credit-analytics.service';
 import { CreditAnalyticsController } from './credit-analytics.controller';
 import { DatabaseModule } from 'src/services/database/database.module';
 import { AuthModule } from '../auth/auth.module';
+import { LlmModule } from '../llm/llm.module';
 
 @Module({
-    imports: [DatabaseModule, AuthModule],
+    imports: [DatabaseModule, AuthModule, forwardRef(() => LlmModule)],
     providers: [CreditAnalyticsService],
     controllers: [CreditAnalyticsController],
     exports: [CreditAnalyticsService],
@@ -4,11 +4,15 @@ import { AuthGuard } from '../auth/guards/auth.guard';
 import { PermissionGuard } from '../auth/guards/permission.guard';
 import { RequirePermission } from '../auth/decorator/permission.decorator';
 import { PermissionName } from 'generated/prisma/enums';
+import { LlmBudgetService } from '../llm/budgets/llm-budget.service';
 
 @Controller('orgs/:orgId/analytics/credits')
 @UseGuards(AuthGuard, PermissionGuard)
 export class CreditAnalyticsController {
-    constructor(private readonly creditAnalyticsService: CreditAnalyticsService) { }
+    constructor(
+        private readonly creditAnalyticsService: CreditAnalyticsService,
+        private readonly llmBudgetService: LlmBudgetService,
+    ) { }
 
     @Get('expenditure')
     @RequirePermission(PermissionName.VIEW_REPORTS)
@@ -40,4 +44,14 @@ export class CreditAnalyticsController {
             limit: limit ? parseInt(limit) : 50,
         });
     }
+
+    /**
+     * Spend against each LLM budget in its current period and what is left before the hard limit
+     */
+    @Get('budgets')
+    @RequirePermission(PermissionName.VIEW_REPORTS)
+    async getBudgetStatus(@Param('orgId') orgId: string, @Query('projectId') projectId?: string) {
+        const data = await this.llmBudgetService.getBudgetStatus(orgId, projectId);
+        return { success: true, count: data.length, data };
+    }
 }
@@ -11,6 +11,10 @@ export interface CreditExpenditureSummary {
         totalCredits: number;
         breakdown: Record<LlmOperationType, number>;
     }>;
+    cache: {
+        hits: number; // LLM calls served from the response cache (zero credits)
+        savedTokens: number;
+    };
     periodStart?: Date;
     periodEnd?: Date;
 }
@@ -55,6 +59,7 @@ export class CreditAnalyticsService {
         const where: any = {
             organizationId: orgId,
             type: 'USAGE', // Only usage transactions
+            status: 'COMPLETED', // Settled charges, not credit holds still in flight
             amount: { lt: 0 }, // Negative amounts (credits spent)
         };
 
@@ -65,10 +70,7 @@ export class CreditAnalyticsService {
         }
 
         if (projectId) {
-            where.llmUsage = {
-                referenceType: 'project',
-                referenceId: projectId,
-            };
+            where.llmUsage = { projectId };
         }
 
         const transactions = await this.databaseService.creditTransaction.findMany({
@@ -101,11 +103,11 @@ export class CreditAnalyticsService {
             breakdown: Record<string, number>;
         }>();
 
-        // Get all unique project IDs from llmUsage references
+        // Get all unique project IDs the usage ran for
         const projectIds = new Set<string>();
         transactions.forEach((txn) => {
-            if (txn.llmUsage?.referenceType === 'project' && txn.llmUsage.referenceId) {
-                projectIds.add(txn.llmUsage.referenceId);
+            if (txn.llmUsage?.projectId) {
+                projectIds.add(txn.llmUsage.projectId);
             }
         });
 
@@ -123,8 +125,8 @@ export class CreditAnalyticsService {
         const projectNameMap = new Map(projects.map(p => [p.id, p.name]));
 
         transactions.forEach((txn) => {
-            if (txn.llmUsage?.referenceType === 'project' && txn.llmUsage.referenceId) {
-                const projId = txn.llmUsage.referenceId;
+            if (txn.llmUsage?.projectId) {
+                const projId = txn.llmUsage.projectId;
                 const projName = projectNameMap.get(projId) || 'Unknown Project';
 
                 if (!projectMap.has(projId)) {
@@ -145,10 +147,25 @@ export class CreditAnalyticsService {
             }
         });
 
+        // Cache hits have no credit transaction; count them from LlmUsage
+        const cacheHits = await this.databaseService.llmUsage.findMany({
+            where: {
+                organizationId: orgId,
+                cacheHit: true,
+                ...(where.createdAt && { createdAt: where.createdAt }),
+                ...(projectId && { projectId }),
+            },
+            select: { metadata: true },
+        });
+
         return {
             totalCredits,
             byOperationType: byOperationType as Record<LlmOperationType, number>,
             byProject: Array.from(projectMap.values()),
+            cache: {
+                hits: cacheHits.length,
+                savedTokens: cacheHits.reduce((sum, usage) => sum + (Number((usage.metadata as any)?.savedTokens) || 0), 0),
+            },
             periodStart: startDate,
             periodEnd: endDate,
         };
@@ -182,11 +199,9 @@ export class CreditAnalyticsService {
         const where: any = {
             organizationId: orgId,
             type: 'USAGE',
+            status: 'COMPLETED',
             amount: { lt: 0 },
-            llmUsage: {
-                referenceType: 'project',
-                referenceId: projectId,
-            },
+            llmUsage: { projectId },
         };
 
         if (startDate || endDate) {
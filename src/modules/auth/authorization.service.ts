@@ -62,4 +62,23 @@ export class AuthorizationService {
 
         throw new ForbiddenException(`Missing permission: ${permission}`);
     }
+
+    /**
+     * Projects of an organization the user can view. Project access is granted org-wide by VIEW_PROJECTS,
+     * so this is every project of the org or none.
+     */
+    async getViewableProjects(userId: string, orgId: string): Promise<Array<{ id: string; name: string }>> {
+        try {
+            await this.assertOrgPermission(userId, orgId, PermissionName.VIEW_PROJECTS);
+        } catch (error) {
+            if (error instanceof ForbiddenException) return [];
+            throw error;
+        }
+
+        return this.databaseService.project.findMany({
+            where: { organizationId: orgId },
+            select: { id: true, name: true },
+            orderBy: { name: 'asc' },
+        });
+    }
 }
\ No newline at end of file
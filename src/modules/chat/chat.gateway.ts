@@ -15,6 +15,11 @@ import { ConversationType, ChatRole } from 'generated/prisma/enums';
 import { allowedOrigins } from 'src/config/origin';
 import { AuthorizationService } from '../auth/authorization.service';
 import { PermissionName } from 'generated/prisma/enums';
+import { RedisService } from 'src/services/redis/redis.service';
+
+const CANCEL_KEY_PREFIX = 'chat:cancel:';
+const CANCEL_KEY_TTL_SECONDS = 10 * 60;
+const CANCEL_POLL_MS = 500;
 
 @WebSocketGateway({
     namespace: '/chat',
@@ -36,9 +41,13 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     // Track typing users per conversation
     private typingUsers: Map<string, Map<string, NodeJS.Timeout>> = new Map();
 
+    // Assistant answers being generated on this instance, by Job id
+    private generations: Map<string, { controller: AbortController; poll: NodeJS.Timeout }> = new Map();
+
     constructor(
         private readonly databaseService: DatabaseService,
         private readonly authorizationService: AuthorizationService,
+        private readonly redisService: RedisService,
     ) { }
 
     async handleConnection(client: Socket) {
@@ -89,7 +98,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         for (const participant of participants) {
             const conversation = participant.conversation;
             const roomName = this.getRoomName(conversation);
-            client.join(roomName);
+            client.join([roomName, this.getConversationRoom(conversation.id)]);
             console.log(`[ChatGateway] User ${userId} auto-joined conversation ${conversation.id} (room: ${roomName})`);
         }
     }
@@ -161,8 +170,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         const conversation = participant.conversation;
         const roomName = this.getRoomName(conversation);
 
-        // Join the room
-        client.join(roomName);
+        // Join the room, and the conversation's own room for assistant answers
+        client.join([roomName, this.getConversationRoom(conversationId)]);
 
         // Emit confirmation
         client.emit('conversationJoined', {
@@ -195,6 +204,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
         const roomName = this.getRoomName(conversation);
         client.leave(roomName);
+        client.leave(this.getConversationRoom(conversationId));
 
         // Clean up typing indicator
         if (this.typingUsers.has(conversationId)) {
@@ -562,7 +572,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
         for (const conversation of conversations) {
             if (conversation.participants.length > 0) {
-                client.join(this.getRoomName(conversation));
+                client.join([this.getRoomName(conversation), this.getConversationRoom(conversation.id)]);
             }
         }
 
@@ -571,12 +581,99 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
 
     /**
-     * Helper method to emit to a conversation room
+     * Cancel the assistant answer being generated for a chat job
+     */
+    @SubscribeMessage('cancelGeneration')
+    async handleCancelGeneration(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() data: { conversationId: string; jobId: string }
+    ) {
+        const user = client.data.user;
+        if (!user) {
+            throw new BadRequestException('User not authenticated');
+        }
+
+        const { conversationId, jobId } = data;
+        if (!conversationId || !jobId) {
+            throw new BadRequestException('conversationId and jobId are required');
+        }
+
+        // Verify user is a participant
+        const participant = await this.databaseService.conversationParticipant.findUnique({
+            where: {
+                conversationId_userId: {
+                    conversationId,
+                    userId: user.id,
+                },
+            },
+        });
+
+        if (!participant || participant.leftAt) {
+            throw new ForbiddenException('Not a participant in this conversation');
+        }
+
+        const job = await this.databaseService.job.findUnique({ where: { id: jobId } });
+        if (!job || (job.payload as any)?.conversationId !== conversationId) {
+            throw new BadRequestException('Job not found in this conversation');
+        }
+
+        await this.cancelGeneration(jobId);
+
+        console.log(`[ChatGateway] User ${user.id} cancelled generation ${jobId} in conversation ${conversationId}`);
+
+        return { success: true, jobId };
+    }
+
+    /**
+     * Register an assistant answer being generated for a chat job. The returned signal aborts when the job
+     * is cancelled, from this instance or any other (cancels are also left in Redis).
+     */
+    startGeneration(jobId: string): AbortSignal {
+        const controller = new AbortController();
+        const poll = setInterval(async () => {
+            if (await this.redisService.exists(`${CANCEL_KEY_PREFIX}${jobId}`)) {
+                controller.abort();
+            }
+        }, CANCEL_POLL_MS);
+
+        this.generations.set(jobId, { controller, poll });
+        return controller.signal;
+    }
+
+    finishGeneration(jobId: string) {
+        const generation = this.generations.get(jobId);
+        if (generation) {
+            clearInterval(generation.poll);
+            this.generations.delete(jobId);
+        }
+    }
+
+    async cancelGeneration(jobId: string) {
+        await this.redisService.set(`${CANCEL_KEY_PREFIX}${jobId}`, '1', CANCEL_KEY_TTL_SECONDS);
+        this.generations.get(jobId)?.controller.abort();
+    }
+
+    /**
+     * Room only a conversation's participants join (see joinUserConversations, handleJoinConversation and
+     * handleJoinOrgChat). Assistant answers go here rather than to the type's room: an ORG or PROJECT room holds
+     * every member, and an answer may draw on data only the asker is allowed to see.
+     */
+    getConversationRoom(conversationId: string): string {
+        return `conversation:${conversationId}`;
+    }
+
+    /**
+     * Helper method to emit to a conversation's participants
      */
     emitToConversation(conversationId: string, event: string, data: any) {
         // This method can be called from services to emit events
-        // We need to get the conversation to determine the room name
-        // For now, we'll use a generic room name pattern
-        this.server.to(`conversation:${conversationId}`).emit(event, data);
+        this.emitToRoom(this.getConversationRoom(conversationId), event, data);
+    }
+
+    /**
+     * Emit to a room resolved with getConversationRoom; keeps high-frequency events (assistantDelta) in order
+     */
+    emitToRoom(roomName: string, event: string, data: any) {
+        this.server.to(roomName).emit(event, data);
     }
 }
@@ -137,6 +137,7 @@ export class ContributorsService {
             },
             include: {
                 rawEvents: {
+                    where: { deletedAt: null },
                     take: 5,
                     orderBy: { timestamp: 'desc' },
                 },
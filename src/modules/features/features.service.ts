@@ -53,6 +53,7 @@ export class FeaturesService {
             },
             include: {
                 events: {
+                    where: { rawEvent: { deletedAt: null } },
                     include: { rawEvent: true },
                 },
             },
@@ -117,6 +118,7 @@ export class FeaturesService {
             },
             include: {
                 events: {
+                    where: { rawEvent: { deletedAt: null } },
                     include: { rawEvent: true },
                     orderBy: { createdAt: 'desc' },
                 },
@@ -174,6 +176,7 @@ export class FeaturesService {
             },
             include: {
                 events: {
+                    where: { rawEvent: { deletedAt: null } },
                     include: { rawEvent: true },
                     orderBy: { createdAt: 'desc' },
                 },
@@ -196,7 +199,7 @@ export class FeaturesService {
         }
 
         const rawEvent = await this.databaseService.rawEvent.findUnique({
-            where: { id: rawEventId },
+            where: { id: rawEventId, deletedAt: null },
         });
 
         if (!rawEvent) {
@@ -257,6 +260,7 @@ export class FeaturesService {
             skip: filters.offset || 0,
             include: {
                 events: {
+                    where: { rawEvent: { deletedAt: null } },
                     include: { rawEvent: true },
                     take: 5,
                     orderBy: { createdAt: 'desc' },
@@ -275,6 +279,7 @@ export class FeaturesService {
             where: { id: featureId },
             include: {
                 events: {
+                    where: { rawEvent: { deletedAt: null } },
                     include: { rawEvent: true },
                     orderBy: { createdAt: 'desc' },
                 },
@@ -10,6 +10,11 @@ export class RedisHealthController {
         return await this.redisHealthService.checkAllConnections();
     }
 
+    @Get('discord-gateway')
+    async discordGateway() {
+        return await this.redisHealthService.checkDiscordGateway();
+    }
+
     @Get('queue-stats')
     async queueStats() {
         return await this.redisHealthService.getQueueStats();
@@ -2,7 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { Inject } from '@nestjs/common';
-import { EMAIL_QUEUE, INJESTION_QUEUE, LLM_QUEUE, REDIS_CLIENT, WEBHOOK_QUEUE } from 'src/config/constants';
+import { EMAIL_QUEUE, INJESTION_QUEUE, LLM_QUEUE, REDIS_CLIENT, REDIS_DISCORD_GATEWAY_HEALTH_KEY, WEBHOOK_QUEUE } from 'src/config/constants';
 import Redis from 'ioredis';
 // import { Cron, CronExpression } from '@nestjs/schedule';
 import { LoggerService } from 'src/services/logger/logger.service';
@@ -79,6 +79,26 @@ export class RedisHealthService {
         }
     }
 
+    /**
+     * Discord gateway status as last reported by DiscordGatewayWorker (missing key = no live worker)
+     */
+    async checkDiscordGateway() {
+        try {
+            const raw = await this.redisClient.get(REDIS_DISCORD_GATEWAY_HEALTH_KEY);
+            if (!raw) {
+                return { status: 'unhealthy', error: 'No heartbeat from Discord gateway worker', name: 'Discord Gateway' };
+            }
+
+            return { ...JSON.parse(raw), name: 'Discord Gateway' };
+        } catch (error) {
+            return {
+                status: 'unhealthy',
+                error: error.message,
+                name: 'Discord Gateway'
+            };
+        }
+    }
+
     async getQueueStats() {
         try {
             const injestionStats = {
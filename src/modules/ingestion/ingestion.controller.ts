@@ -0,0 +1,41 @@
+import { Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { RequirePermission } from '../auth/decorator/permission.decorator';
+import { IngestionStatus, PermissionName } from 'generated/prisma/enums';
+import { IngestionService } from './ingestion.service';
+
+@Controller('orgs/:orgId/ingestion-jobs')
+@UseGuards(AuthGuard, PermissionGuard)
+export class IngestionController {
+    constructor(private readonly ingestionService: IngestionService) { }
+
+    @Get()
+    @RequirePermission(PermissionName.VIEW_PROJECTS)
+    async listJobs(
+        @Param('orgId') orgId: string,
+        @Query('status') status?: IngestionStatus,
+        @Query('integrationId') integrationId?: string,
+        @Query('page') page?: string,
+        @Query('limit') limit?: string,
+    ) {
+        return this.ingestionService.listJobs(orgId, {
+            status,
+            integrationId,
+            page: page ? parseInt(page) : undefined,
+            limit: limit ? parseInt(limit) : undefined,
+        });
+    }
+
+    @Get(':id')
+    @RequirePermission(PermissionName.VIEW_PROJECTS)
+    async getJob(@Param('orgId') orgId: string, @Param('id') id: string) {
+        return this.ingestionService.getJob(orgId, id);
+    }
+
+    @Post(':id/cancel')
+    @RequirePermission(PermissionName.RUN_IMPORTS)
+    async cancelJob(@Param('orgId') orgId: string, @Param('id') id: string) {
+        return this.ingestionService.cancelJob(orgId, id);
+    }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from 'src/services/database/database.module';
+import { LoggerModule } from 'src/services/logger/logger.module';
+import { AuthModule } from 'src/modules/auth/auth.module';
+import { IngestionService } from './ingestion.service';
+import { IngestionController } from './ingestion.controller';
+import { SyncStateService } from './sync-state.service';
+import { SyncScheduler } from './sync.scheduler';
+
+@Module({
+    imports: [DatabaseModule, LoggerModule, AuthModule],
+    providers: [IngestionService, SyncStateService, SyncScheduler],
+    controllers: [IngestionController],
+    exports: [IngestionService, SyncStateService],
+})
+export class IngestionModule { }
@@ -0,0 +1,107 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { IngestionStatus } from 'generated/prisma/enums';
+import { Prisma } from 'generated/prisma/client';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { IngestionJobPayload, IngestionQueue } from 'src/services/queue/ingestion.queue';
+
+@Injectable()
+export class IngestionService {
+    private readonly logger = new LoggerService(IngestionService.name);
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly ingestionQueue: IngestionQueue,
+    ) { }
+
+    /**
+     * Record an IngestionJob and queue it for IngestionProcessor
+     */
+    async createJob(params: Omit<IngestionJobPayload, 'ingestionJobId'>) {
+        const integration = await this.databaseService.integration.findUnique({
+            where: { id: params.integrationId },
+            select: { id: true, organizationId: true },
+        });
+
+        if (!integration) {
+            throw new NotFoundException(`Integration ${params.integrationId} not found`);
+        }
+
+        const ingestionJob = await this.databaseService.ingestionJob.create({
+            data: {
+                organizationId: integration.organizationId,
+                integrationId: integration.id,
+                projectId: params.projectId,
+                resourceId: params.resourceId,
+                type: params.type,
+                status: IngestionStatus.PENDING,
+                progress: { options: params.options || {} },
+            },
+        });
+
+        await this.ingestionQueue.enqueue({ ...params, ingestionJobId: ingestionJob.id });
+
+        this.logger.log(`Queued ingestion job ${ingestionJob.id} (${params.type})`, IngestionService.name);
+
+        return { ingestionJobId: ingestionJob.id, status: ingestionJob.status };
+    }
+
+    async listJobs(organizationId: string, filters: { status?: IngestionStatus; integrationId?: string; page?: number; limit?: number }) {
+        const limit = Math.min(filters.limit || 20, 100);
+        const page = filters.page || 1;
+
+        const where: Prisma.IngestionJobWhereInput = {
+            organizationId,
+            ...(filters.status && { status: filters.status }),
+            ...(filters.integrationId && { integrationId: filters.integrationId }),
+        };
+
+        const [jobs, totalCount] = await Promise.all([
+            this.databaseService.ingestionJob.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                take: limit,
+                skip: (page - 1) * limit,
+            }),
+            this.databaseService.ingestionJob.count({ where }),
+        ]);
+
+        return {
+            success: true,
+            count: jobs.length,
+            totalCount,
+            totalPages: Math.ceil(totalCount / limit),
+            data: jobs,
+        };
+    }
+
+    async getJob(organizationId: string, ingestionJobId: string) {
+        const ingestionJob = await this.databaseService.ingestionJob.findFirst({
+            where: { id: ingestionJobId, organizationId },
+        });
+
+        if (!ingestionJob) {
+            throw new NotFoundException(`Ingestion job ${ingestionJobId} not found`);
+        }
+
+        return ingestionJob;
+    }
+
+    /**
+     * Cancel a pending or running job. Running jobs stop at their next progress checkpoint.
+     */
+    async cancelJob(organizationId: string, ingestionJobId: string) {
+        const ingestionJob = await this.getJob(organizationId, ingestionJobId);
+
+        if (ingestionJob.status !== IngestionStatus.PENDING && ingestionJob.status !== IngestionStatus.RUNNING) {
+            throw new BadRequestException(`Ingestion job is already ${ingestionJob.status.toLowerCase()}`);
+        }
+
+        await this.ingestionQueue.remove(ingestionJob.id);
+
+        return this.databaseService.ingestionJob.update({
+            where: { id: ingestionJob.id },
+            data: { status: IngestionStatus.CANCELLED, finishedAt: new Date() },
+        });
+    }
+}
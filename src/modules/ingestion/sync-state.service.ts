@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { ExternalProvider } from 'generated/prisma/enums';
+import { IntegrationSyncState } from 'generated/prisma/client';
+import { DatabaseService } from 'src/services/database/database.service';
+
+/**
+ * 'backfill' pages through the whole history (resuming from a saved cursor),
+ * 'incremental' only fetches items newer than the high-water mark
+ */
+export type SyncMode = 'backfill' | 'incremental';
+
+const SYNC_BACKOFF_BASE_MS = 5 * 60 * 1000;
+const SYNC_BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+
+export type ResourceSyncState = IntegrationSyncState & { mode: SyncMode };
+
+@Injectable()
+export class SyncStateService {
+    constructor(private readonly databaseService: DatabaseService) { }
+
+    /**
+     * Load (or create) the sync state of a provider resource. The IntegrationResource is created
+     * on the fly when the resource was never listed through the provider's sync endpoint.
+     */
+    async start(integrationId: string, provider: ExternalProvider, providerId: string, name?: string): Promise<ResourceSyncState> {
+        const resource = await this.databaseService.integrationResource.upsert({
+            where: {
+                uq_integration_resource_provider: { integrationId, provider, providerId },
+            },
+            update: {},
+            create: { integrationId, provider, providerId, name: name || providerId },
+        });
+
+        const syncState = await this.databaseService.integrationSyncState.upsert({
+            where: { resourceId: resource.id },
+            update: {},
+            create: { resourceId: resource.id },
+        });
+
+        return { ...syncState, mode: syncState.backfillCompletedAt ? 'incremental' : 'backfill' };
+    }
+
+    /**
+     * Persist the cursor of the next page. The high-water mark only moves forward during a backfill:
+     * an incremental run filters on it, so moving it mid-run would shift a resumed run's pages.
+     */
+    async checkpoint(state: ResourceSyncState, cursor: string | null, highWaterMark?: Date | null): Promise<ResourceSyncState> {
+        const updated = await this.databaseService.integrationSyncState.update({
+            where: { id: state.id },
+            data: {
+                cursor,
+                ...(state.mode === 'backfill' && { highWaterMark: this.latest(state.highWaterMark, highWaterMark) }),
+            },
+        });
+
+        return { ...updated, mode: state.mode };
+    }
+
+    /**
+     * Close a run that reached the end of the provider's pages. Completing a backfill marks the resource imported.
+     */
+    async finish(state: ResourceSyncState, highWaterMark?: Date | null) {
+        const now = new Date();
+
+        await this.databaseService.integrationSyncState.update({
+            where: { id: state.id },
+            data: {
+                cursor: null,
+                highWaterMark: this.latest(state.highWaterMark, highWaterMark),
+                lastSyncedAt: now,
+                failureCount: 0,
+                backoffUntil: null,
+                ...(state.mode === 'backfill' && { backfillCompletedAt: now }),
+            },
+        });
+
+        if (state.mode === 'backfill') {
+            await this.databaseService.integrationResource.update({
+                where: { id: state.resourceId },
+                data: { imported: true },
+            });
+        }
+    }
+
+    /**
+     * Push the next scheduled sync of a rate-limited resource back. Honours the provider's Retry-After
+     * and otherwise doubles the delay for each consecutive rate-limited run.
+     */
+    async backoff(integrationId: string, providerId: string, retryAfterSeconds?: number) {
+        const resource = await this.databaseService.integrationResource.findFirst({
+            where: { integrationId, providerId },
+            include: { syncState: true },
+        });
+        if (!resource?.syncState) return;
+
+        const failureCount = resource.syncState.failureCount + 1;
+        const delayMs = Math.max(
+            (retryAfterSeconds || 0) * 1000,
+            Math.min(SYNC_BACKOFF_BASE_MS * 2 ** (failureCount - 1), SYNC_BACKOFF_MAX_MS),
+        );
+
+        await this.databaseService.integrationSyncState.update({
+            where: { id: resource.syncState.id },
+            data: { failureCount, backoffUntil: new Date(Date.now() + delayMs) },
+        });
+    }
+
+    private latest(current?: Date | null, candidate?: Date | null) {
+        if (!candidate) return current ?? null;
+        if (!current) return candidate;
+        return candidate > current ? candidate : current;
+    }
+}
@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ExternalProvider, IngestionStatus, IntegrationStatus } from 'generated/prisma/enums';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { IngestionJobType } from 'src/services/queue/ingestion.queue';
+import { IngestionService } from './ingestion.service';
+
+// Providers whose ingest methods support incremental sync, with the IntegrationConnection.items key listing their resources
+const SYNCABLE_PROVIDERS: Partial<Record<ExternalProvider, { type: IngestionJobType; itemsKey: string }>> = {
+    [ExternalProvider.SLACK]: { type: 'slack_history', itemsKey: 'channels' },
+    [ExternalProvider.DISCORD]: { type: 'discord_history', itemsKey: 'channels' },
+    [ExternalProvider.JIRA]: { type: 'jira_history', itemsKey: 'projects' },
+    [ExternalProvider.NOTION]: { type: 'notion_history', itemsKey: 'databases' },
+};
+
+const DEFAULT_SYNC_INTERVAL_MINUTES = 60;
+const MIN_SYNC_INTERVAL_MINUTES = 5;
+
+/**
+ * Periodically queues incremental syncs for every resource linked to a project, so events
+ * missed by webhooks are picked up. Projects control the interval with settings.syncIntervalMinutes
+ * (0 disables scheduled sync); a resource shared by several projects uses the shortest interval.
+ */
+@Injectable()
+export class SyncScheduler {
+    private readonly logger = new LoggerService(SyncScheduler.name);
+    private running = false;
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly ingestionService: IngestionService,
+    ) { }
+
+    @Cron(CronExpression.EVERY_5_MINUTES)
+    async scheduleSyncs() {
+        if (this.running) return;
+        this.running = true;
+
+        try {
+            const due = await this.findDueResources();
+            let queued = 0;
+
+            for (const resource of due) {
+                try {
+                    await this.ingestionService.createJob({
+                        integrationId: resource.integrationId,
+                        type: resource.type,
+                        resourceId: resource.providerId,
+                    });
+                    queued++;
+                } catch (error) {
+                    this.logger.error(`Failed to schedule sync for ${resource.providerId} on integration ${resource.integrationId}: ${error.message}`, SyncScheduler.name);
+                }
+            }
+
+            if (queued > 0) {
+                this.logger.log(`Queued ${queued} scheduled syncs`, SyncScheduler.name);
+            }
+        } catch (error) {
+            this.logger.error(`Scheduled sync failed: ${error.message}`, SyncScheduler.name);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async findDueResources() {
+        const connections = await this.databaseService.integrationConnection.findMany({
+            where: {
+                integration: {
+                    status: { not: IntegrationStatus.NOT_CONNECTED },
+                    type: { in: Object.keys(SYNCABLE_PROVIDERS) as ExternalProvider[] },
+                },
+            },
+            include: {
+                integration: { select: { id: true, type: true } },
+                project: { select: { settings: true } },
+            },
+        });
+
+        // Collapse connections onto resources, keeping the shortest interval of the linking projects
+        const candidates = new Map<string, { integrationId: string; provider: ExternalProvider; providerId: string; type: IngestionJobType; intervalMinutes: number }>();
+
+        for (const connection of connections) {
+            const syncable = SYNCABLE_PROVIDERS[connection.integration.type];
+            const intervalMinutes = this.getIntervalMinutes(connection.project.settings);
+            if (!syncable || intervalMinutes === null) continue;
+
+            const providerIds = (connection.items as Record<string, any>)?.[syncable.itemsKey];
+            if (!Array.isArray(providerIds)) continue;
+
+            for (const providerId of providerIds) {
+                if (typeof providerId !== 'string') continue;
+
+                const key = `${connection.integrationId}:${providerId}`;
+                const existing = candidates.get(key);
+                if (!existing || intervalMinutes < existing.intervalMinutes) {
+                    candidates.set(key, {
+                        integrationId: connection.integrationId,
+                        provider: connection.integration.type,
+                        providerId,
+                        type: syncable.type,
+                        intervalMinutes,
+                    });
+                }
+            }
+        }
+
+        const now = Date.now();
+        const due: Array<{ integrationId: string; providerId: string; type: IngestionJobType }> = [];
+
+        for (const candidate of candidates.values()) {
+            const resource = await this.databaseService.integrationResource.findUnique({
+                where: {
+                    uq_integration_resource_provider: {
+                        integrationId: candidate.integrationId,
+                        provider: candidate.provider,
+                        providerId: candidate.providerId,
+                    },
+                },
+                include: { syncState: true },
+            });
+
+            // Full history imports are started by users; the scheduler keeps imported resources
+            // up to date and resumes imports that stopped part-way
+            const syncState = resource?.syncState;
+            if (!syncState || (!syncState.backfillCompletedAt && !syncState.cursor)) continue;
+            if (syncState.backoffUntil && syncState.backoffUntil.getTime() > now) continue;
+            if (syncState.lastSyncedAt && syncState.lastSyncedAt.getTime() + candidate.intervalMinutes * 60 * 1000 > now) continue;
+
+            const inFlight = await this.databaseService.ingestionJob.count({
+                where: {
+                    integrationId: candidate.integrationId,
+                    resourceId: candidate.providerId,
+                    status: { in: [IngestionStatus.PENDING, IngestionStatus.RUNNING] },
+                },
+            });
+            if (inFlight > 0) continue;
+
+            due.push(candidate);
+        }
+
+        return due;
+    }
+
+    /**
+     * Sync interval from Project.settings.syncIntervalMinutes; null when the project disabled scheduled sync
+     */
+    private getIntervalMinutes(settings: unknown): number | null {
+        const value = (settings as Record<string, any>)?.syncIntervalMinutes;
+        if (value === undefined || value === null) return DEFAULT_SYNC_INTERVAL_MINUTES;
+
+        const minutes = Number(value);
+        if (!Number.isFinite(minutes) || minutes <= 0) return null;
+
+        return Math.max(minutes, MIN_SYNC_INTERVAL_MINUTES);
+    }
+}
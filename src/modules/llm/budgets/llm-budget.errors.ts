@@ -0,0 +1,52 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { LlmBudgetPeriod, LlmOperationType } from 'generated/prisma/enums';
+
+/**
+ * An LLM call was blocked because it could take spend past a budget's hard limit
+ */
+export class LlmBudgetExceededError extends HttpException {
+    constructor(
+        readonly budgetId: string,
+        readonly period: LlmBudgetPeriod,
+        readonly hardLimit: string,
+        readonly spent: string,
+        readonly scope: { projectId: string | null; operationType: LlmOperationType | null },
+    ) {
+        super(
+            {
+                statusCode: HttpStatus.PAYMENT_REQUIRED,
+                error: 'LlmBudgetExceeded',
+                message: `${period.toLowerCase()} LLM budget exhausted: ${spent} of ${hardLimit} credits used`,
+                budgetId,
+                period,
+                hardLimit,
+                spent,
+                ...scope,
+            },
+            HttpStatus.PAYMENT_REQUIRED,
+        );
+    }
+}
+
+/**
+ * An LLM call was blocked by a budget's requests-per-minute throttle
+ */
+export class LlmRateLimitedError extends HttpException {
+    constructor(
+        readonly budgetId: string,
+        readonly requestsPerMinute: number,
+        readonly retryAfterSeconds: number,
+    ) {
+        super(
+            {
+                statusCode: HttpStatus.TOO_MANY_REQUESTS,
+                error: 'LlmRateLimited',
+                message: `LLM request limit of ${requestsPerMinute}/min reached; retry in ${retryAfterSeconds}s`,
+                budgetId,
+                requestsPerMinute,
+                retryAfterSeconds,
+            },
+            HttpStatus.TOO_MANY_REQUESTS,
+        );
+    }
+}
@@ -0,0 +1,60 @@
+import Decimal from 'decimal.js';
+import { LlmOperationType } from 'generated/prisma/enums';
+import { LlmBudgetService } from './llm-budget.service';
+import { LlmBudgetExceededError } from './llm-budget.errors';
+
+describe('LlmBudgetService', () => {
+    const budget = {
+        id: 'budget-1',
+        organizationId: 'org-1',
+        projectId: null,
+        operationType: null,
+        period: 'MONTHLY',
+        softLimit: null,
+        hardLimit: new Decimal(10),
+        requestsPerMinute: null,
+    };
+
+    // 6 credits consumed, 3 held by a call still in flight
+    function createClient(budgets = [budget]) {
+        return {
+            llmBudget: { findMany: jest.fn().mockResolvedValue(budgets) },
+            llmUsage: { aggregate: jest.fn().mockResolvedValue({ _sum: { creditsConsumed: new Decimal(6) } }) },
+            creditTransaction: { aggregate: jest.fn().mockResolvedValue({ _sum: { amount: new Decimal(-3) } }) },
+        };
+    }
+
+    const redisService = { incr: jest.fn().mockResolvedValue(1) };
+    const params = { organizationId: 'org-1', projectId: 'project-1', operationType: LlmOperationType.EVENT_SUMMARY };
+
+    it('counts credits held by in-flight calls towards hard limits', async () => {
+        const service = new LlmBudgetService(createClient() as any, redisService as any);
+
+        await expect(service.enforce({ ...params, estimate: new Decimal(1) })).resolves.toBeUndefined();
+        await expect(service.enforce({ ...params, estimate: new Decimal(2) })).rejects.toBeInstanceOf(LlmBudgetExceededError);
+    });
+
+    it('checks hard limits inside the hold transaction with budgets read fresh', async () => {
+        const databaseService = createClient([]);
+        const service = new LlmBudgetService(databaseService as any, redisService as any);
+        await service.enforce({ ...params, estimate: new Decimal(5) });
+
+        // The budget was created after the org's budgets were cached
+        const tx = createClient();
+        await expect(service.assertHardLimits(tx as any, { ...params, estimate: new Decimal(2) })).rejects.toBeInstanceOf(
+            LlmBudgetExceededError
+        );
+        expect(tx.creditTransaction.aggregate).toHaveBeenCalledWith({
+            where: expect.objectContaining({ status: 'PENDING', llmUsage: expect.objectContaining({ status: 'PENDING' }) }),
+            _sum: { amount: true },
+        });
+    });
+
+    it('reports held credits apart from spend', async () => {
+        const service = new LlmBudgetService(createClient() as any, redisService as any);
+
+        const [status] = await service.getBudgetStatus('org-1');
+
+        expect(status).toMatchObject({ spent: '6', reserved: '3', remaining: '1', hardLimitReached: false });
+    });
+});
@@ -0,0 +1,305 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import Decimal from 'decimal.js';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { RedisService } from 'src/services/redis/redis.service';
+import { LlmBudgetPeriod, LlmOperationType } from 'generated/prisma/enums';
+import { LlmBudget, Prisma } from 'generated/prisma/client';
+import { CreateLlmBudgetDto, UpdateLlmBudgetDto } from '../dto/llm-budget.dto';
+import { LlmBudgetExceededError, LlmRateLimitedError } from './llm-budget.errors';
+
+const BUDGET_CACHE_TTL_MS = 60_000;
+
+/**
+ * Per-org, per-project and per-operation LLM credit budgets and request throttles.
+ * `enforce` runs before every LLM operation: hard limits and throttles throw typed errors,
+ * soft limits log a warning once per budget period. Spend counts the credits held by in-flight calls, and
+ * `assertHardLimits` repeats the hard-limit check inside the transaction that places the call's credit hold,
+ * so concurrent calls cannot all pass a limit on the same stale total.
+ */
+@Injectable()
+export class LlmBudgetService {
+    private readonly logger = new LoggerService(LlmBudgetService.name);
+    private readonly budgetCache = new Map<string, { budgets: LlmBudget[]; expiresAt: number }>();
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly redisService: RedisService,
+    ) { }
+
+    async enforce(params: {
+        organizationId: string;
+        projectId?: string | null;
+        operationType: LlmOperationType;
+        estimate: Decimal;
+    }): Promise<void> {
+        const budgets = this.applicable(await this.getBudgets(params.organizationId), params.projectId, params.operationType);
+
+        for (const budget of budgets) {
+            if (!budget.softLimit && !budget.hardLimit) continue;
+
+            const { consumed, held } = await this.getSpending(budget);
+            const spent = consumed.plus(held);
+            this.assertUnderHardLimit(budget, spent, params.estimate);
+
+            if (budget.softLimit && spent.plus(params.estimate).gte(budget.softLimit.toString())) {
+                await this.warnOnce(budget, spent);
+            }
+        }
+
+        // Throttles last, so calls blocked by a budget do not use up the minute's allowance
+        for (const budget of budgets) {
+            if (!budget.requestsPerMinute) continue;
+
+            const now = Date.now();
+            const minute = Math.floor(now / 60_000);
+            const count = await this.redisService.incr(`llm:rpm:${budget.id}:${minute}`, 60);
+            if (count !== null && count > budget.requestsPerMinute) {
+                const retryAfterSeconds = Math.max(1, Math.ceil(((minute + 1) * 60_000 - now) / 1000));
+                throw new LlmRateLimitedError(budget.id, budget.requestsPerMinute, retryAfterSeconds);
+            }
+        }
+    }
+
+    /**
+     * Hard-limit check for CreditReservationService.reserve to run inside the transaction that places the hold.
+     * Reserves serialize on the organization row, so the holds of concurrent calls are visible here, and a reserve
+     * that raced another one is retried with it counted. Budgets are read fresh rather than from the cache.
+     */
+    async assertHardLimits(
+        tx: Prisma.TransactionClient,
+        params: {
+            organizationId: string;
+            projectId?: string | null;
+            operationType: LlmOperationType;
+            estimate: Decimal;
+        }
+    ): Promise<void> {
+        const budgets = this.applicable(
+            await tx.llmBudget.findMany({ where: { organizationId: params.organizationId, hardLimit: { not: null } } }),
+            params.projectId,
+            params.operationType
+        );
+
+        for (const budget of budgets) {
+            const { consumed, held } = await this.getSpending(budget, tx);
+            this.assertUnderHardLimit(budget, consumed.plus(held), params.estimate);
+        }
+    }
+
+    /**
+     * Spend and remaining credits for each budget in the current period. With a projectId, only the budgets
+     * that apply to that project (org-wide ones included).
+     */
+    async getBudgetStatus(organizationId: string, projectId?: string) {
+        const budgets = (await this.getBudgets(organizationId)).filter(
+            (budget) => !projectId || !budget.projectId || budget.projectId === projectId
+        );
+
+        return Promise.all(
+            budgets.map(async (budget) => {
+                const { consumed: spent, held } = await this.getSpending(budget);
+                const committed = spent.plus(held);
+                const { start, end } = this.currentPeriod(budget.period);
+
+                return {
+                    budgetId: budget.id,
+                    projectId: budget.projectId,
+                    operationType: budget.operationType,
+                    period: budget.period,
+                    periodStart: start,
+                    periodEnd: end,
+                    spent: spent.toString(),
+                    reserved: held.toString(),
+                    softLimit: budget.softLimit?.toString() ?? null,
+                    hardLimit: budget.hardLimit?.toString() ?? null,
+                    remaining: budget.hardLimit ? Decimal.max(new Decimal(budget.hardLimit.toString()).minus(committed), 0).toString() : null,
+                    softLimitReached: budget.softLimit ? spent.gte(budget.softLimit.toString()) : false,
+                    hardLimitReached: budget.hardLimit ? committed.gte(budget.hardLimit.toString()) : false,
+                    requestsPerMinute: budget.requestsPerMinute,
+                };
+            })
+        );
+    }
+
+    async listBudgets(organizationId: string) {
+        return this.databaseService.llmBudget.findMany({
+            where: { organizationId },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    async createBudget(organizationId: string, dto: CreateLlmBudgetDto) {
+        const period = dto.period ?? LlmBudgetPeriod.MONTHLY;
+        this.assertLimits(dto.softLimit, dto.hardLimit);
+
+        if (dto.projectId) {
+            const project = await this.databaseService.project.findFirst({
+                where: { id: dto.projectId, organizationId },
+                select: { id: true },
+            });
+            if (!project) {
+                throw new NotFoundException(`Project ${dto.projectId} not found in organization`);
+            }
+        }
+
+        const duplicate = await this.databaseService.llmBudget.findFirst({
+            where: { organizationId, projectId: dto.projectId ?? null, operationType: dto.operationType ?? null, period },
+        });
+        if (duplicate) {
+            throw new BadRequestException(`A ${period.toLowerCase()} budget already exists for this scope (${duplicate.id})`);
+        }
+
+        const budget = await this.databaseService.llmBudget.create({
+            data: {
+                organizationId,
+                projectId: dto.projectId ?? null,
+                operationType: dto.operationType ?? null,
+                period,
+                softLimit: dto.softLimit ?? null,
+                hardLimit: dto.hardLimit ?? null,
+                requestsPerMinute: dto.requestsPerMinute ?? null,
+            },
+        });
+
+        this.budgetCache.delete(organizationId);
+        return budget;
+    }
+
+    async updateBudget(organizationId: string, budgetId: string, dto: UpdateLlmBudgetDto) {
+        const existing = await this.getBudget(organizationId, budgetId);
+        this.assertLimits(
+            dto.softLimit !== undefined ? dto.softLimit : existing.softLimit?.toNumber(),
+            dto.hardLimit !== undefined ? dto.hardLimit : existing.hardLimit?.toNumber()
+        );
+
+        const budget = await this.databaseService.llmBudget.update({
+            where: { id: existing.id },
+            data: {
+                ...(dto.period !== undefined && { period: dto.period }),
+                ...(dto.softLimit !== undefined && { softLimit: dto.softLimit }),
+                ...(dto.hardLimit !== undefined && { hardLimit: dto.hardLimit }),
+                ...(dto.requestsPerMinute !== undefined && { requestsPerMinute: dto.requestsPerMinute }),
+            },
+        });
+
+        this.budgetCache.delete(organizationId);
+        return budget;
+    }
+
+    async deleteBudget(organizationId: string, budgetId: string) {
+        const existing = await this.getBudget(organizationId, budgetId);
+        await this.databaseService.llmBudget.delete({ where: { id: existing.id } });
+
+        this.budgetCache.delete(organizationId);
+        return { success: true };
+    }
+
+    private async getBudget(organizationId: string, budgetId: string) {
+        const budget = await this.databaseService.llmBudget.findFirst({
+            where: { id: budgetId, organizationId },
+        });
+        if (!budget) {
+            throw new NotFoundException(`LLM budget ${budgetId} not found`);
+        }
+        return budget;
+    }
+
+    private async getBudgets(organizationId: string): Promise<LlmBudget[]> {
+        const cached = this.budgetCache.get(organizationId);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.budgets;
+        }
+
+        const budgets = await this.databaseService.llmBudget.findMany({ where: { organizationId } });
+        this.budgetCache.set(organizationId, { budgets, expiresAt: Date.now() + BUDGET_CACHE_TTL_MS });
+        return budgets;
+    }
+
+    private applicable(budgets: LlmBudget[], projectId: string | null | undefined, operationType: LlmOperationType) {
+        return budgets.filter(
+            (budget) =>
+                (!budget.projectId || budget.projectId === projectId) &&
+                (!budget.operationType || budget.operationType === operationType)
+        );
+    }
+
+    /**
+     * Credits consumed in the budget's scope since the start of its current period, and credits held by calls
+     * still in flight. Any status counts as consumed: failed operations carry the credits of responses the provider
+     * billed but validation rejected, and zero otherwise. Holds count while their LlmUsage is PENDING; operations
+     * record their cost before settling the hold, so no call is counted twice.
+     */
+    private async getSpending(
+        budget: LlmBudget,
+        client: Prisma.TransactionClient = this.databaseService
+    ): Promise<{ consumed: Decimal; held: Decimal }> {
+        const scope: Prisma.LlmUsageWhereInput = {
+            organizationId: budget.organizationId,
+            createdAt: { gte: this.currentPeriod(budget.period).start },
+            ...(budget.projectId && { projectId: budget.projectId }),
+            ...(budget.operationType && { operationType: budget.operationType }),
+        };
+
+        const usage = await client.llmUsage.aggregate({
+            where: scope,
+            _sum: { creditsConsumed: true },
+        });
+        // Hold amounts are negative
+        const holds = await client.creditTransaction.aggregate({
+            where: { type: 'USAGE', status: 'PENDING', llmUsage: { ...scope, status: 'PENDING' } },
+            _sum: { amount: true },
+        });
+
+        return {
+            consumed: new Decimal(usage._sum.creditsConsumed?.toString() ?? 0),
+            held: new Decimal(holds._sum.amount?.toString() ?? 0).negated(),
+        };
+    }
+
+    private assertUnderHardLimit(budget: LlmBudget, spent: Decimal, estimate: Decimal) {
+        if (budget.hardLimit && spent.plus(estimate).gt(budget.hardLimit.toString())) {
+            throw new LlmBudgetExceededError(budget.id, budget.period, budget.hardLimit.toString(), spent.toString(), {
+                projectId: budget.projectId,
+                operationType: budget.operationType,
+            });
+        }
+    }
+
+    private async warnOnce(budget: LlmBudget, spent: Decimal) {
+        const { start, end } = this.currentPeriod(budget.period);
+        const ttl = Math.max(1, Math.ceil((end.getTime() - Date.now()) / 1000));
+        const count = await this.redisService.incr(`llm:budget:warned:${budget.id}:${start.getTime()}`, ttl);
+
+        if (count === null || count === 1) {
+            this.logger.warn(
+                `Org ${budget.organizationId} reached the soft limit of ${budget.period.toLowerCase()} LLM budget ${budget.id}` +
+                    ` (${spent.toString()} of ${budget.softLimit!.toString()} credits` +
+                    `${budget.projectId ? `, project ${budget.projectId}` : ''}${budget.operationType ? `, ${budget.operationType}` : ''})`,
+                LlmBudgetService.name
+            );
+        }
+    }
+
+    /**
+     * Current UTC day or calendar month
+     */
+    private currentPeriod(period: LlmBudgetPeriod): { start: Date; end: Date } {
+        const now = new Date();
+        if (period === LlmBudgetPeriod.DAILY) {
+            const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+            return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+        }
+
+        return {
+            start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+            end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+        };
+    }
+
+    private assertLimits(softLimit?: number | null, hardLimit?: number | null) {
+        if (softLimit != null && hardLimit != null && softLimit > hardLimit) {
+            throw new BadRequestException('softLimit cannot be greater than hardLimit');
+        }
+    }
+}
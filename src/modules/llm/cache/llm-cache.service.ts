@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHash } from 'crypto';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { RedisService } from 'src/services/redis/redis.service';
+import { LlmOperationType } from 'generated/prisma/enums';
+import { Prisma } from 'generated/prisma/client';
+import { RenderedPrompt } from '../prompts/prompt.types';
+
+const REDIS_PREFIX = 'llm:cache:';
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const REDIS_MAX_TTL_SECONDS = 24 * 60 * 60;
+
+export interface LlmCacheKey {
+    key: string;
+    operationType: LlmOperationType;
+    model: string;
+    promptVersion: string;
+    inputHash: string;
+}
+
+export interface LlmCacheHit<T> {
+    result: T;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * Content-addressed cache for LLM responses. The same rendered prompt sent to the same model for the same
+ * operation gets the same answer, whichever project or organization asks. Postgres is the source of truth;
+ * Redis keeps a hot copy for up to a day. Disable with LLM_CACHE_ENABLED=false, tune with LLM_CACHE_TTL_SECONDS.
+ */
+@Injectable()
+export class LlmCacheService {
+    private readonly logger = new LoggerService(LlmCacheService.name);
+    private readonly enabled = process.env.LLM_CACHE_ENABLED !== 'false';
+    private readonly ttlSeconds = parseInt(process.env.LLM_CACHE_TTL_SECONDS || '', 10) || DEFAULT_TTL_SECONDS;
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly redisService: RedisService,
+    ) { }
+
+    /**
+     * Cache key for a call, or null when caching is disabled
+     */
+    keyFor(params: {
+        operationType: LlmOperationType;
+        model: string;
+        prompt: RenderedPrompt;
+        returnType: 'text' | 'json';
+        maxTokens: number;
+    }): LlmCacheKey | null {
+        if (!this.enabled) {
+            return null;
+        }
+
+        const { operationType, model, prompt } = params;
+        const inputHash = this.sha256(
+            JSON.stringify([prompt.systemPrompt, prompt.userPrompt, params.returnType, params.maxTokens])
+        );
+
+        return {
+            key: this.sha256(JSON.stringify([operationType, model, prompt.version, inputHash])),
+            operationType,
+            model,
+            promptVersion: prompt.version,
+            inputHash,
+        };
+    }
+
+    async get<T>(cacheKey: LlmCacheKey): Promise<LlmCacheHit<T> | null> {
+        let hit: LlmCacheHit<T> | null = null;
+
+        const cached = await this.redisService.get(REDIS_PREFIX + cacheKey.key);
+        if (cached) {
+            try {
+                hit = JSON.parse(cached) as LlmCacheHit<T>;
+            } catch {
+                await this.redisService.del(REDIS_PREFIX + cacheKey.key);
+            }
+        }
+
+        if (!hit) {
+            const entry = await this.databaseService.llmCacheEntry.findUnique({
+                where: { cacheKey: cacheKey.key },
+            });
+            if (!entry || entry.expiresAt <= new Date()) {
+                return null;
+            }
+
+            hit = { result: entry.result as T, inputTokens: entry.inputTokens, outputTokens: entry.outputTokens };
+            await this.redisService.set(REDIS_PREFIX + cacheKey.key, JSON.stringify(hit), this.redisTtl(entry.expiresAt));
+        }
+
+        await this.databaseService.llmCacheEntry.updateMany({
+            where: { cacheKey: cacheKey.key },
+            data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+        });
+
+        return hit;
+    }
+
+    async set<T>(cacheKey: LlmCacheKey, hit: LlmCacheHit<T>): Promise<void> {
+        const expiresAt = new Date(Date.now() + this.ttlSeconds * 1000);
+        const data = {
+            result: hit.result as Prisma.InputJsonValue,
+            inputTokens: hit.inputTokens,
+            outputTokens: hit.outputTokens,
+            expiresAt,
+        };
+
+        try {
+            await this.databaseService.llmCacheEntry.upsert({
+                where: { cacheKey: cacheKey.key },
+                create: {
+                    cacheKey: cacheKey.key,
+                    operationType: cacheKey.operationType,
+                    model: cacheKey.model,
+                    promptVersion: cacheKey.promptVersion,
+                    inputHash: cacheKey.inputHash,
+                    ...data,
+                },
+                update: data,
+            });
+            await this.redisService.set(REDIS_PREFIX + cacheKey.key, JSON.stringify(hit), this.redisTtl(expiresAt));
+        } catch (error) {
+            // A cache write failure must not fail the LLM call that produced the result
+            this.logger.warn(`Failed to cache LLM result ${cacheKey.key}: ${error.message}`, LlmCacheService.name);
+        }
+    }
+
+    @Cron(CronExpression.EVERY_HOUR)
+    async purgeExpired() {
+        const { count } = await this.databaseService.llmCacheEntry.deleteMany({
+            where: { expiresAt: { lte: new Date() } },
+        });
+        if (count > 0) {
+            this.logger.log(`Purged ${count} expired LLM cache entries`, LlmCacheService.name);
+        }
+    }
+
+    private redisTtl(expiresAt: Date) {
+        const remaining = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
+        return Math.max(1, Math.min(remaining, REDIS_MAX_TTL_SECONDS));
+    }
+
+    private sha256(value: string) {
+        return createHash('sha256').update(value).digest('hex');
+    }
+}
@@ -0,0 +1,245 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import Decimal from 'decimal.js';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { shouldSkipCreditChecks } from 'src/utils/environment.util';
+import { Prisma } from 'generated/prisma/client';
+
+const MAX_LOCK_ATTEMPTS = 3;
+const STALE_HOLD_MINUTES = 30;
+
+/**
+ * A PENDING USAGE CreditTransaction holding credits for one in-flight LLM operation
+ */
+export interface CreditHold {
+    transactionId: string;
+    organizationId: string;
+    amount: Decimal;
+}
+
+/**
+ * Two-phase credit charging for LLM calls. `reserve` places a hold for the estimated maximum cost before the
+ * call (Organization.reservedCredits), `settle` charges the actual cost and `release` drops the hold on failure.
+ * Holds count against the spendable balance, so concurrent jobs cannot overdraw an organization.
+ * All methods are no-ops when credit checks are skipped (development).
+ */
+@Injectable()
+export class CreditReservationService {
+    private readonly logger = new LoggerService(CreditReservationService.name);
+
+    constructor(private readonly databaseService: DatabaseService) { }
+
+    /**
+     * Place a hold for `estimate`. `guard` runs inside the same transaction before the hold is placed and may throw
+     * to refuse it; concurrent reserves for the org serialize on its row, so what the guard reads includes their holds.
+     * When credit checks are skipped no hold is placed, but the guard still runs.
+     */
+    async reserve(
+        organizationId: string,
+        estimate: Decimal,
+        llmUsageId: string,
+        guard?: (tx: Prisma.TransactionClient) => Promise<void>
+    ): Promise<CreditHold | null> {
+        if (shouldSkipCreditChecks()) {
+            await guard?.(this.databaseService);
+            return null;
+        }
+
+        // CreditTransaction amounts have 2 decimals; round up so the hold covers the estimate
+        const amount = Decimal.max(estimate, 0).toDecimalPlaces(2, Decimal.ROUND_UP);
+
+        return this.withOrgLock(() =>
+            this.databaseService.$transaction(async (tx) => {
+                const org = await tx.organization.findUnique({
+                    where: { id: organizationId },
+                    select: { creditBalance: true, creditLimit: true, reservedCredits: true, version: true },
+                });
+
+                if (!org) {
+                    throw new BadRequestException(`Organization ${organizationId} not found`);
+                }
+
+                const spendable = (org.creditLimit ? Decimal.min(org.creditBalance, org.creditLimit) : org.creditBalance).minus(
+                    org.reservedCredits
+                );
+                if (spendable.lt(amount)) {
+                    throw new BadRequestException('Insufficient credits for this operation');
+                }
+
+                await guard?.(tx);
+
+                await tx.organization.update({
+                    where: { id: organizationId, version: org.version },
+                    data: {
+                        reservedCredits: { increment: amount },
+                        version: { increment: 1 },
+                    },
+                });
+
+                const hold = await tx.creditTransaction.create({
+                    data: {
+                        organizationId,
+                        type: 'USAGE',
+                        status: 'PENDING',
+                        amount: amount.negated(),
+                        balanceBefore: org.creditBalance,
+                        balanceAfter: org.creditBalance,
+                        llmUsageId,
+                        referenceType: 'llm_usage',
+                        referenceId: llmUsageId,
+                        description: 'Credit hold for LLM operation',
+                        metadata: { reserved: amount.toString() },
+                    },
+                });
+
+                return { transactionId: hold.id, organizationId, amount };
+            })
+        );
+    }
+
+    /**
+     * Charge the actual cost and release the rest of the hold. The charge never takes the balance below zero;
+     * any shortfall (actual cost above what the org had) is recorded on the transaction.
+     */
+    async settle(hold: CreditHold | null, actual: Decimal): Promise<void> {
+        if (!hold) {
+            return;
+        }
+
+        const charge = actual.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+
+        await this.withOrgLock(() =>
+            this.databaseService.$transaction(async (tx) => {
+                const org = await tx.organization.findUnique({
+                    where: { id: hold.organizationId },
+                    select: { creditBalance: true, version: true },
+                });
+
+                if (!org) {
+                    throw new BadRequestException(`Organization ${hold.organizationId} not found`);
+                }
+
+                const charged = Decimal.min(charge, Decimal.max(org.creditBalance, 0));
+                const balanceAfter = org.creditBalance.minus(charged);
+
+                // The stale-hold sweep may already have released this hold
+                const txn = await tx.creditTransaction.findUnique({
+                    where: { id: hold.transactionId },
+                    select: { status: true },
+                });
+                const stillHeld = txn?.status === 'PENDING';
+
+                await tx.organization.update({
+                    where: { id: hold.organizationId, version: org.version },
+                    data: {
+                        creditBalance: balanceAfter,
+                        ...(stillHeld && { reservedCredits: { decrement: hold.amount } }),
+                        version: { increment: 1 },
+                    },
+                });
+
+                await tx.creditTransaction.update({
+                    where: { id: hold.transactionId },
+                    data: {
+                        status: 'COMPLETED',
+                        amount: charged.negated(),
+                        balanceBefore: org.creditBalance,
+                        balanceAfter,
+                        description: null,
+                        processedAt: new Date(),
+                        metadata: {
+                            reserved: hold.amount.toString(),
+                            ...(charged.lt(charge) && { uncollected: charge.minus(charged).toString() }),
+                        },
+                    },
+                });
+
+                this.logger.log(
+                    `Credits deducted: ${charged.toString()} from org ${hold.organizationId} (held ${hold.amount.toString()}). New balance: ${balanceAfter.toString()}`,
+                    CreditReservationService.name
+                );
+            })
+        );
+    }
+
+    async release(hold: CreditHold | null, reason: string): Promise<void> {
+        if (!hold) {
+            return;
+        }
+
+        await this.withOrgLock(() =>
+            this.databaseService.$transaction(async (tx) => {
+                const { count } = await tx.creditTransaction.updateMany({
+                    where: { id: hold.transactionId, status: 'PENDING' },
+                    data: {
+                        status: 'CANCELLED',
+                        processedAt: new Date(),
+                        metadata: { reserved: hold.amount.toString(), releasedBecause: reason },
+                    },
+                });
+                // Already settled or released (e.g. by the stale-hold sweep)
+                if (count === 0) return;
+
+                const org = await tx.organization.findUnique({
+                    where: { id: hold.organizationId },
+                    select: { version: true },
+                });
+                await tx.organization.update({
+                    where: { id: hold.organizationId, version: org!.version },
+                    data: {
+                        reservedCredits: { decrement: hold.amount },
+                        version: { increment: 1 },
+                    },
+                });
+            })
+        );
+    }
+
+    /**
+     * Release holds left behind by workers that died mid-call
+     */
+    @Cron(CronExpression.EVERY_10_MINUTES)
+    async releaseStaleHolds() {
+        const stale = await this.databaseService.creditTransaction.findMany({
+            where: {
+                type: 'USAGE',
+                status: 'PENDING',
+                createdAt: { lt: new Date(Date.now() - STALE_HOLD_MINUTES * 60_000) },
+            },
+            select: { id: true, organizationId: true, amount: true },
+            take: 100,
+        });
+
+        for (const txn of stale) {
+            try {
+                await this.release(
+                    { transactionId: txn.id, organizationId: txn.organizationId, amount: new Decimal(txn.amount.toString()).negated() },
+                    'stale'
+                );
+            } catch (error) {
+                this.logger.error(`Failed to release stale credit hold ${txn.id}: ${error.message}`, CreditReservationService.name);
+            }
+        }
+
+        if (stale.length > 0) {
+            this.logger.warn(`Released ${stale.length} stale credit holds`, CreditReservationService.name);
+        }
+    }
+
+    /**
+     * Retry on optimistic-lock conflicts (another transaction bumped Organization.version first)
+     */
+    private async withOrgLock<T>(fn: () => Promise<T>): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await fn();
+            } catch (error) {
+                const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+                if (!conflict || attempt >= MAX_LOCK_ATTEMPTS) {
+                    throw error;
+                }
+            }
+        }
+    }
+}
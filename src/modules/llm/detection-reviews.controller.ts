@@ -0,0 +1,39 @@
+import { Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { AuthGuard, getUser } from '../auth/guards/auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { RequirePermission } from '../auth/decorator/permission.decorator';
+import { DetectionReviewStatus, PermissionName } from 'generated/prisma/enums';
+import { WorkDetectionService } from './detection/work-detection.service';
+
+@Controller('orgs/:orgId/projects/:projectId/detection-reviews')
+@UseGuards(AuthGuard, PermissionGuard)
+export class DetectionReviewsController {
+    constructor(private readonly workDetection: WorkDetectionService) { }
+
+    @Get()
+    @RequirePermission(PermissionName.VIEW_PROJECTS)
+    async listReviews(
+        @Param('projectId') projectId: string,
+        @Query('status') status?: DetectionReviewStatus,
+        @Query('page') page?: string,
+        @Query('limit') limit?: string,
+    ) {
+        return this.workDetection.listReviews(projectId, {
+            status,
+            page: page ? parseInt(page) : undefined,
+            limit: limit ? parseInt(limit) : undefined,
+        });
+    }
+
+    @Post(':id/approve')
+    @RequirePermission(PermissionName.EDIT_PROJECTS)
+    async approveReview(@Param('projectId') projectId: string, @Param('id') id: string, @getUser('id') userId: string) {
+        return this.workDetection.approveReview(projectId, id, userId);
+    }
+
+    @Post(':id/reject')
+    @RequirePermission(PermissionName.EDIT_PROJECTS)
+    async rejectReview(@Param('projectId') projectId: string, @Param('id') id: string, @getUser('id') userId: string) {
+        return this.workDetection.rejectReview(projectId, id, userId);
+    }
+}
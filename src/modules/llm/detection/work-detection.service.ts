@@ -0,0 +1,381 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { DetectionReviewStatus, FeatureStatus, SemanticIntent, TaskSource, TaskStatus } from 'generated/prisma/enums';
+
+const DEFAULT_AUTO_APPLY_THRESHOLD = 0.8;
+const DEFAULT_REVIEW_THRESHOLD = 0.5;
+
+/**
+ * Output of the detect_feature prompt
+ */
+export interface WorkDetection {
+    featureName: string | null;
+    description?: string | null;
+    task?: { title: string; description?: string | null } | null;
+    confidence: number;
+}
+
+/**
+ * The RawEvent fields detection needs
+ */
+interface DetectionSource {
+    id: string;
+    projectId: string;
+    authorMemberId?: string | null;
+}
+
+/**
+ * Intents that say something about a feature or task, and what each one does to them.
+ * Feature status only moves when the current status is in `from`; `createTask` is false when the
+ * intent only ever updates existing tasks.
+ */
+const INTENT_RULES: Partial<
+    Record<
+        SemanticIntent,
+        {
+            feature?: { status: FeatureStatus; from: FeatureStatus[] };
+            newFeatureStatus: FeatureStatus;
+            taskStatus: TaskStatus;
+            relationship: string;
+            createTask: boolean;
+        }
+    >
+> = {
+    [SemanticIntent.FEATURE_IN_PROGRESS]: {
+        feature: { status: FeatureStatus.IN_PROGRESS, from: [FeatureStatus.DISCOVERED, FeatureStatus.BLOCKED] },
+        newFeatureStatus: FeatureStatus.IN_PROGRESS,
+        taskStatus: TaskStatus.IN_PROGRESS,
+        relationship: 'PROGRESS',
+        createTask: true,
+    },
+    [SemanticIntent.FEATURE_COMPLETE]: {
+        feature: {
+            status: FeatureStatus.COMPLETED,
+            from: [FeatureStatus.DISCOVERED, FeatureStatus.IN_PROGRESS, FeatureStatus.REVIEW, FeatureStatus.BLOCKED],
+        },
+        newFeatureStatus: FeatureStatus.COMPLETED,
+        taskStatus: TaskStatus.DONE,
+        relationship: 'COMPLETED',
+        createTask: false,
+    },
+    [SemanticIntent.BLOCKER]: {
+        feature: { status: FeatureStatus.BLOCKED, from: [FeatureStatus.DISCOVERED, FeatureStatus.IN_PROGRESS, FeatureStatus.REVIEW] },
+        newFeatureStatus: FeatureStatus.BLOCKED,
+        taskStatus: TaskStatus.BLOCKED,
+        relationship: 'BLOCKED',
+        createTask: true,
+    },
+    [SemanticIntent.FIX_ISSUE]: {
+        newFeatureStatus: FeatureStatus.DISCOVERED,
+        taskStatus: TaskStatus.IN_PROGRESS,
+        relationship: 'PROGRESS',
+        createTask: true,
+    },
+};
+
+export const DETECTION_INTENTS = Object.keys(INTENT_RULES) as SemanticIntent[];
+
+/**
+ * Turns feature/task detections from RawEvents into Feature and Task changes.
+ * Confident detections are applied directly; borderline ones wait in the DetectionReview queue and
+ * anything below the review threshold is dropped. Thresholds come from Project.settings
+ * (detectionAutoApplyThreshold, detectionReviewThreshold).
+ */
+@Injectable()
+export class WorkDetectionService {
+    private readonly logger = new LoggerService(WorkDetectionService.name);
+
+    constructor(private readonly databaseService: DatabaseService) { }
+
+    async handle(rawEvent: DetectionSource, intent: SemanticIntent, detection: WorkDetection) {
+        if (!INTENT_RULES[intent] || (!detection.featureName && !detection.task)) {
+            return null;
+        }
+
+        const project = await this.databaseService.project.findUnique({
+            where: { id: rawEvent.projectId },
+            select: { settings: true },
+        });
+        const { autoApply, review } = this.getThresholds(project?.settings);
+
+        if (detection.confidence >= autoApply) {
+            return this.apply(rawEvent, intent, detection);
+        }
+
+        if (detection.confidence >= review) {
+            await this.databaseService.detectionReview.upsert({
+                where: { rawEventId: rawEvent.id },
+                update: {},
+                create: {
+                    projectId: rawEvent.projectId,
+                    rawEventId: rawEvent.id,
+                    intent,
+                    confidence: detection.confidence,
+                    featureName: detection.featureName,
+                    featureDescription: detection.description ?? null,
+                    taskTitle: detection.task?.title ?? null,
+                    taskDescription: detection.task?.description ?? null,
+                },
+            });
+            this.logger.log(`Queued detection from RawEvent ${rawEvent.id} for review (confidence ${detection.confidence})`, WorkDetectionService.name);
+        }
+
+        return null;
+    }
+
+    async listReviews(projectId: string, params: { status?: DetectionReviewStatus; page?: number; limit?: number }) {
+        const page = Math.max(params.page || 1, 1);
+        const limit = Math.min(Math.max(params.limit || 20, 1), 100);
+        const where = { projectId, status: params.status ?? DetectionReviewStatus.PENDING };
+
+        const [totalCount, data] = await Promise.all([
+            this.databaseService.detectionReview.count({ where }),
+            this.databaseService.detectionReview.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+                include: {
+                    rawEvent: {
+                        select: { id: true, source: true, eventType: true, content: true, authorName: true, timestamp: true },
+                    },
+                },
+            }),
+        ]);
+
+        return {
+            success: true,
+            count: data.length,
+            totalCount,
+            totalPages: Math.ceil(totalCount / limit),
+            data,
+        };
+    }
+
+    async approveReview(projectId: string, reviewId: string, userId: string) {
+        const review = await this.getPendingReview(projectId, reviewId);
+        const rawEvent = await this.databaseService.rawEvent.findUnique({
+            where: { id: review.rawEventId },
+            select: { id: true, authorMemberId: true },
+        });
+
+        const applied = await this.apply(
+            { id: review.rawEventId, projectId, authorMemberId: rawEvent?.authorMemberId },
+            review.intent,
+            {
+                featureName: review.featureName,
+                description: review.featureDescription,
+                task: review.taskTitle ? { title: review.taskTitle, description: review.taskDescription } : null,
+                confidence: review.confidence,
+            }
+        );
+
+        return this.databaseService.detectionReview.update({
+            where: { id: review.id },
+            data: {
+                status: DetectionReviewStatus.APPROVED,
+                reviewedById: userId,
+                reviewedAt: new Date(),
+                featureId: applied.featureId,
+                taskId: applied.taskId,
+            },
+        });
+    }
+
+    async rejectReview(projectId: string, reviewId: string, userId: string) {
+        const review = await this.getPendingReview(projectId, reviewId);
+
+        return this.databaseService.detectionReview.update({
+            where: { id: review.id },
+            data: {
+                status: DetectionReviewStatus.REJECTED,
+                reviewedById: userId,
+                reviewedAt: new Date(),
+            },
+        });
+    }
+
+    /**
+     * Create or advance the feature, then create or update the task, linking both to the RawEvent
+     */
+    private async apply(
+        rawEvent: DetectionSource,
+        intent: SemanticIntent,
+        detection: WorkDetection
+    ): Promise<{ featureId: string | null; taskId: string | null }> {
+        const rules = INTENT_RULES[intent];
+        if (!rules) {
+            return { featureId: null, taskId: null };
+        }
+
+        let featureId: string | null = null;
+        if (detection.featureName) {
+            featureId = await this.applyFeature(rawEvent, intent, detection);
+        }
+
+        const taskId = await this.applyTask(rawEvent, intent, detection, featureId);
+
+        this.logger.log(
+            `Applied ${intent} detection from RawEvent ${rawEvent.id} (feature ${featureId ?? '-'}, task ${taskId ?? '-'})`,
+            WorkDetectionService.name
+        );
+        return { featureId, taskId };
+    }
+
+    private async applyFeature(rawEvent: DetectionSource, intent: SemanticIntent, detection: WorkDetection): Promise<string> {
+        const rules = INTENT_RULES[intent]!;
+        const name = detection.featureName!;
+        const completed = (status: FeatureStatus) =>
+            status === FeatureStatus.COMPLETED
+                ? { completionDate: new Date(), completedByMemberId: rawEvent.authorMemberId || undefined }
+                : {};
+
+        const existing = await this.databaseService.feature.findUnique({
+            where: { projectId_name: { projectId: rawEvent.projectId, name } },
+        });
+
+        let featureId: string;
+        if (existing) {
+            featureId = existing.id;
+            if (rules.feature && rules.feature.from.includes(existing.status)) {
+                await this.databaseService.feature.update({
+                    where: { id: existing.id },
+                    data: { status: rules.feature.status, ...completed(rules.feature.status) },
+                });
+            }
+        } else {
+            const created = await this.databaseService.feature.create({
+                data: {
+                    projectId: rawEvent.projectId,
+                    name,
+                    description: detection.description || null,
+                    autoDetected: true,
+                    autoDetectedByMemberId: rawEvent.authorMemberId || undefined,
+                    status: rules.newFeatureStatus,
+                    ...completed(rules.newFeatureStatus),
+                },
+            });
+            featureId = created.id;
+            this.logger.log(`Auto-detected new feature: ${name} for project ${rawEvent.projectId}`, WorkDetectionService.name);
+        }
+
+        await this.databaseService.featureEvent.upsert({
+            where: { featureId_rawEventId: { featureId, rawEventId: rawEvent.id } },
+            update: { relevance: detection.confidence },
+            create: { featureId, rawEventId: rawEvent.id, relevance: detection.confidence },
+        });
+
+        return featureId;
+    }
+
+    /**
+     * Update the open auto-detected tasks that match (same title, or same feature), or create one when the intent allows
+     */
+    private async applyTask(
+        rawEvent: DetectionSource,
+        intent: SemanticIntent,
+        detection: WorkDetection,
+        featureId: string | null
+    ): Promise<string | null> {
+        const rules = INTENT_RULES[intent]!;
+        const title = detection.task?.title?.trim();
+
+        const matchers = [
+            ...(title ? [{ title: { equals: title, mode: 'insensitive' as const } }] : []),
+            ...(featureId ? [{ metadata: { path: ['featureId'], equals: featureId } }] : []),
+        ];
+        if (matchers.length === 0) {
+            return null;
+        }
+
+        const openTasks = await this.databaseService.task.findMany({
+            where: {
+                projectId: rawEvent.projectId,
+                source: TaskSource.AUTO_DETECTED,
+                status: { not: TaskStatus.DONE },
+                OR: matchers,
+            },
+            orderBy: { createdAt: 'desc' },
+            // Completion closes every open task of the feature; other intents update the most recent one
+            take: intent === SemanticIntent.FEATURE_COMPLETE ? undefined : 1,
+        });
+
+        for (const task of openTasks) {
+            await this.databaseService.task.update({
+                where: { id: task.id },
+                data: {
+                    status: rules.taskStatus,
+                    ...(rules.taskStatus === TaskStatus.DONE && {
+                        completedAt: new Date(),
+                        completedByMemberId: rawEvent.authorMemberId || undefined,
+                    }),
+                },
+            });
+            await this.databaseService.taskRawEvent.upsert({
+                where: { taskId_rawEventId: { taskId: task.id, rawEventId: rawEvent.id } },
+                update: { relationship: rules.relationship, relevance: detection.confidence },
+                create: { taskId: task.id, rawEventId: rawEvent.id, relationship: rules.relationship, relevance: detection.confidence },
+            });
+        }
+
+        if (openTasks.length > 0) {
+            return openTasks[0].id;
+        }
+
+        if (!rules.createTask || !title) {
+            return null;
+        }
+
+        // A RawEvent auto-detects at most one task (Task.autoDetectedFromId is unique)
+        const alreadyDetected = await this.databaseService.task.findUnique({
+            where: { autoDetectedFromId: rawEvent.id },
+        });
+        if (alreadyDetected) {
+            return alreadyDetected.id;
+        }
+
+        const task = await this.databaseService.task.create({
+            data: {
+                projectId: rawEvent.projectId,
+                source: TaskSource.AUTO_DETECTED,
+                autoDetectedFromId: rawEvent.id,
+                autoDetectedByMemberId: rawEvent.authorMemberId || undefined,
+                title,
+                description: detection.task?.description || null,
+                status: rules.taskStatus,
+                metadata: { featureId, intent, confidence: detection.confidence },
+                rawEvents: {
+                    create: { rawEventId: rawEvent.id, relationship: rules.relationship, relevance: detection.confidence },
+                },
+            },
+        });
+        this.logger.log(`Auto-detected task "${title}" for project ${rawEvent.projectId}`, WorkDetectionService.name);
+
+        return task.id;
+    }
+
+    private async getPendingReview(projectId: string, reviewId: string) {
+        const review = await this.databaseService.detectionReview.findFirst({
+            where: { id: reviewId, projectId },
+        });
+        if (!review) {
+            throw new NotFoundException(`Detection review ${reviewId} not found`);
+        }
+        if (review.status !== DetectionReviewStatus.PENDING) {
+            throw new BadRequestException(`Detection review ${reviewId} is already ${review.status.toLowerCase()}`);
+        }
+        return review;
+    }
+
+    private getThresholds(settings: unknown): { autoApply: number; review: number } {
+        const values = (settings as Record<string, any>) || {};
+        const read = (value: unknown, fallback: number) => {
+            const n = Number(value);
+            return value === undefined || value === null || !Number.isFinite(n) ? fallback : Math.min(Math.max(n, 0), 1);
+        };
+
+        const autoApply = read(values.detectionAutoApplyThreshold, DEFAULT_AUTO_APPLY_THRESHOLD);
+        return { autoApply, review: Math.min(read(values.detectionReviewThreshold, DEFAULT_REVIEW_THRESHOLD), autoApply) };
+    }
+}
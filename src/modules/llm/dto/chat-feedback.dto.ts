@@ -0,0 +1,12 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ChatFeedbackRating } from 'generated/prisma/enums';
+
+export class ChatFeedbackDto {
+    @IsEnum(ChatFeedbackRating)
+    rating: ChatFeedbackRating;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(2000)
+    reason?: string;
+}
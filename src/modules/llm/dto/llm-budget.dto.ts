@@ -0,0 +1,58 @@
+import { IsEnum, IsInt, IsNumber, IsOptional, IsString, Min, ValidateIf } from 'class-validator';
+import { LlmBudgetPeriod, LlmOperationType } from 'generated/prisma/enums';
+
+export class CreateLlmBudgetDto {
+    @IsOptional()
+    @IsString()
+    projectId?: string;
+
+    @IsOptional()
+    @IsEnum(LlmOperationType)
+    operationType?: LlmOperationType;
+
+    @IsOptional()
+    @IsEnum(LlmBudgetPeriod)
+    period?: LlmBudgetPeriod;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    softLimit?: number;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    hardLimit?: number;
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    requestsPerMinute?: number;
+}
+
+/**
+ * Limits can be changed or cleared (null); the scope (project, operation type) is fixed once created
+ */
+export class UpdateLlmBudgetDto {
+    @IsOptional()
+    @IsEnum(LlmBudgetPeriod)
+    period?: LlmBudgetPeriod;
+
+    @ValidateIf((_, value) => value !== null)
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    softLimit?: number | null;
+
+    @ValidateIf((_, value) => value !== null)
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    hardLimit?: number | null;
+
+    @ValidateIf((_, value) => value !== null)
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    requestsPerMinute?: number | null;
+}
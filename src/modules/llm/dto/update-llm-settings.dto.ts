@@ -0,0 +1,20 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { LLM_PROVIDER_NAMES, LlmProviderName } from '../providers/llm-provider.interface';
+
+export class UpdateLlmSettingsDto {
+    @IsOptional()
+    @IsIn(LLM_PROVIDER_NAMES)
+    provider?: LlmProviderName;
+
+    @IsOptional()
+    @IsString()
+    model?: string;
+
+    @IsOptional()
+    @IsIn(LLM_PROVIDER_NAMES)
+    embeddingProvider?: LlmProviderName;
+
+    @IsOptional()
+    @IsString()
+    embeddingModel?: string;
+}
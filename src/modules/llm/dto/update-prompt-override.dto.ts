@@ -0,0 +1,18 @@
+import { IsInt, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+
+export class UpdatePromptOverrideDto {
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    version?: number;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    tone?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(4000)
+    instructions?: string;
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from 'src/services/database/database.module';
+import { LoggerModule } from 'src/services/logger/logger.module';
+import { PromptRegistry } from '../prompts/prompt-registry.service';
+import { HybridRetrievalService } from '../retrieval/hybrid-retrieval.service';
+import { RagEvaluationService } from './rag-evaluation.service';
+
+/**
+ * Standalone module for the offline RAG evaluation command (scripts/evaluate-rag.ts): only the database,
+ * retrieval and prompts, without the queues, sockets and schedulers of the app
+ */
+@Module({
+    imports: [ConfigModule.forRoot({ isGlobal: true }), DatabaseModule, LoggerModule],
+    providers: [PromptRegistry, HybridRetrievalService, RagEvaluationService],
+})
+export class RagEvaluationModule { }
@@ -0,0 +1,193 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { ChatFeedbackRating } from 'generated/prisma/enums';
+import { FakeLlmProvider } from '../providers/fake.provider';
+import { EMBEDDING_DIMENSIONS } from '../providers/llm-provider.interface';
+import { PromptRegistry } from '../prompts/prompt-registry.service';
+import { HybridRetrievalService, RetrievedSource } from '../retrieval/hybrid-retrieval.service';
+import { validateCitationMarkers } from '../retrieval/citations';
+
+/**
+ * A stored question and the sources a good answer is based on
+ */
+export interface RagEvalCase {
+    id?: string;
+    question: string;
+    projectIds: string[];
+    expectedRawEventIds?: string[];
+    expectedLlmOutputIds?: string[];
+}
+
+export interface RagEvalCaseResult {
+    id?: string;
+    question: string;
+    expected: number;
+    retrieved: number;
+    recallAtK: number;
+    reciprocalRank: number;
+    cited: number[];
+    relevantCited: number;
+    invalidCitations: number[];
+}
+
+export interface RagEvalReport {
+    k: number;
+    cases: number;
+    meanRecallAtK: number;
+    hitRateAtK: number; // share of cases with at least one expected source in the top k
+    mrr: number;
+    citationAccuracy: number | null; // share of valid [n] markers that point at an expected source
+    invalidCitationRate: number | null; // share of [n] markers that match no retrieved source
+    results: RagEvalCaseResult[];
+}
+
+/**
+ * Offline RAG quality check: replays questions through hybrid retrieval and the chat prompt, answered by
+ * the deterministic fake provider (no network, no credits, nothing written), and scores recall@k, MRR and
+ * citation accuracy against the expected sources. Vector scores are only meaningful when the corpus was
+ * embedded by the fake provider too (LLM_DEFAULT_PROVIDER=fake); the full-text channels work either way.
+ */
+@Injectable()
+export class RagEvaluationService {
+    private readonly logger = new LoggerService(RagEvaluationService.name);
+    // Used directly rather than through the registry so org LLM settings cannot route evaluation to a paid provider
+    private readonly llm = new FakeLlmProvider({}, EMBEDDING_DIMENSIONS);
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly retrieval: HybridRetrievalService,
+        private readonly prompts: PromptRegistry,
+    ) { }
+
+    async evaluate(params: { organizationId: string; cases: RagEvalCase[]; k?: number }): Promise<RagEvalReport> {
+        const { organizationId, cases, k = 5 } = params;
+        const results: RagEvalCaseResult[] = [];
+
+        for (const evalCase of cases) {
+            results.push(await this.evaluateCase(organizationId, evalCase, k));
+        }
+
+        const scored = results.filter((result) => result.expected > 0);
+        const citedTotal = results.reduce((sum, result) => sum + result.cited.length, 0);
+        const markerTotal = citedTotal + results.reduce((sum, result) => sum + result.invalidCitations.length, 0);
+
+        return {
+            k,
+            cases: results.length,
+            meanRecallAtK: this.mean(scored.map((result) => result.recallAtK)),
+            hitRateAtK: this.mean(scored.map((result) => (result.recallAtK > 0 ? 1 : 0))),
+            mrr: this.mean(scored.map((result) => result.reciprocalRank)),
+            citationAccuracy: citedTotal > 0 ? results.reduce((sum, result) => sum + result.relevantCited, 0) / citedTotal : null,
+            invalidCitationRate: markerTotal > 0 ? (markerTotal - citedTotal) / markerTotal : null,
+            results,
+        };
+    }
+
+    /**
+     * Evaluation cases from thumbs-up answers: the rated question, expecting the sources the answer cited
+     * (or all of its sources when it cited none)
+     */
+    async loadFeedbackCases(organizationId: string, limit = 200): Promise<RagEvalCase[]> {
+        const [feedback, orgProjects] = await Promise.all([
+            this.databaseService.chatMessageFeedback.findMany({
+                where: {
+                    rating: ChatFeedbackRating.UP,
+                    question: { not: null },
+                    chatMessage: {
+                        conversation: {
+                            OR: [{ organizationId }, { project: { organizationId } }, { task: { project: { organizationId } } }],
+                        },
+                    },
+                },
+                orderBy: { createdAt: 'desc' },
+                take: limit,
+                include: {
+                    chatMessage: {
+                        select: { conversation: { select: { projectId: true, task: { select: { projectId: true } } } } },
+                    },
+                },
+            }),
+            this.databaseService.project.findMany({ where: { organizationId }, select: { id: true } }),
+        ]);
+
+        return feedback.flatMap((item) => {
+            const sources = (item.sources as Array<{ rawEventId?: string | null; llmOutputId?: string | null; cited?: boolean }>) || [];
+            const expected = sources.some((source) => source.cited) ? sources.filter((source) => source.cited) : sources;
+            if (expected.length === 0) return [];
+
+            const conversation = item.chatMessage.conversation;
+            const projectId = conversation.projectId ?? conversation.task?.projectId;
+
+            return [{
+                id: item.id,
+                question: item.question!,
+                projectIds: projectId ? [projectId] : orgProjects.map((project) => project.id),
+                expectedRawEventIds: expected.map((source) => source.rawEventId).filter((id): id is string => Boolean(id)),
+                expectedLlmOutputIds: expected.filter((source) => !source.rawEventId && source.llmOutputId).map((source) => source.llmOutputId!),
+            }];
+        });
+    }
+
+    private async evaluateCase(organizationId: string, evalCase: RagEvalCase, k: number): Promise<RagEvalCaseResult> {
+        const expectedEvents = new Set(evalCase.expectedRawEventIds ?? []);
+        const expectedOutputs = new Set(evalCase.expectedLlmOutputIds ?? []);
+        const isRelevant = (source: RetrievedSource) =>
+            Boolean((source.rawEventId && expectedEvents.has(source.rawEventId)) || (source.llmOutputId && expectedOutputs.has(source.llmOutputId)));
+
+        const { embedding } = await this.llm.embed(evalCase.question, this.llm.defaultEmbeddingModel);
+        const { sources } = await this.retrieval.retrieve({
+            organizationId,
+            projectIds: evalCase.projectIds,
+            question: evalCase.question,
+            queryEmbedding: embedding,
+            limit: Math.max(k, 10), // what chat() retrieves, so citations are scored on the same context
+        });
+
+        // Expected items found in the top k (an event can come back as several chunks)
+        const topK = sources.slice(0, k);
+        const foundEvents = new Set(topK.map((source) => source.rawEventId).filter((id) => id && expectedEvents.has(id)));
+        const foundOutputs = new Set(topK.map((source) => source.llmOutputId).filter((id) => id && expectedOutputs.has(id)));
+        const expected = expectedEvents.size + expectedOutputs.size;
+        const firstRelevant = sources.findIndex(isRelevant);
+
+        // Answer the way chat() does and check which sources the [n] markers point at
+        const context = sources.map((source, index) => `[Source ${index + 1}] ${source.content}`).join('\n\n---\n\n');
+        const prompt = await this.prompts.render(organizationId, 'rag_chat', {
+            projectInfo: 'PROJECT: Evaluation',
+            conversationHistory: '',
+            context: context.slice(0, 4000),
+            question: evalCase.question,
+        });
+        const completion = await this.llm.complete({
+            model: this.llm.defaultModel,
+            messages: [
+                { role: 'system', content: prompt.systemPrompt },
+                { role: 'user', content: prompt.userPrompt },
+            ],
+        });
+        const { cited, invalid } = validateCitationMarkers(completion.content, sources.length);
+
+        const result: RagEvalCaseResult = {
+            id: evalCase.id,
+            question: evalCase.question,
+            expected,
+            retrieved: sources.length,
+            recallAtK: expected > 0 ? (foundEvents.size + foundOutputs.size) / expected : 0,
+            reciprocalRank: firstRelevant >= 0 ? 1 / (firstRelevant + 1) : 0,
+            cited,
+            relevantCited: cited.filter((n) => isRelevant(sources[n - 1])).length,
+            invalidCitations: invalid,
+        };
+
+        this.logger.log(
+            `Evaluated "${evalCase.question.slice(0, 60)}": recall@${k}=${result.recallAtK.toFixed(2)}, cited ${cited.length} (${result.relevantCited} relevant)`,
+            RagEvaluationService.name
+        );
+        return result;
+    }
+
+    private mean(values: number[]) {
+        return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    }
+}
@@ -0,0 +1,86 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from 'src/services/database/database.service';
+import { ChatRole } from 'generated/prisma/enums';
+import { ChatFeedbackDto } from '../dto/chat-feedback.dto';
+
+/**
+ * Thumbs up/down on assistant answers. Each rating stores the question and a snapshot of the answer's
+ * retrieved sources, so rated answers can later serve as evaluation cases (see RagEvaluationService).
+ */
+@Injectable()
+export class ChatFeedbackService {
+    constructor(private readonly databaseService: DatabaseService) { }
+
+    async setFeedback(messageId: string, userId: string, dto: ChatFeedbackDto) {
+        const message = await this.getRateableMessage(messageId, userId);
+
+        const question = await this.databaseService.chatMessage.findFirst({
+            where: { conversationId: message.conversationId, role: ChatRole.USER, createdAt: { lte: message.createdAt } },
+            orderBy: { createdAt: 'desc' },
+            select: { content: true },
+        });
+
+        const sources = message.sources.map((source) => ({
+            citationIndex: source.citationIndex,
+            rawEventId: source.rawEventId,
+            llmOutputId: source.llmOutputId,
+            contentChunkId: source.contentChunkId,
+            relevanceScore: source.relevanceScore,
+            cited: source.cited,
+        }));
+
+        const data = {
+            rating: dto.rating,
+            reason: dto.reason?.trim() || null,
+            question: question?.content ?? null,
+            sources,
+        };
+
+        return this.databaseService.chatMessageFeedback.upsert({
+            where: { chatMessageId_userId: { chatMessageId: message.id, userId } },
+            create: { chatMessageId: message.id, userId, ...data },
+            update: data,
+        });
+    }
+
+    async removeFeedback(messageId: string, userId: string) {
+        const message = await this.getRateableMessage(messageId, userId);
+
+        await this.databaseService.chatMessageFeedback.deleteMany({
+            where: { chatMessageId: message.id, userId },
+        });
+        return { success: true };
+    }
+
+    /**
+     * An assistant message in a conversation the user takes part in
+     */
+    private async getRateableMessage(messageId: string, userId: string) {
+        const message = await this.databaseService.chatMessage.findUnique({
+            where: { id: messageId },
+            select: {
+                id: true,
+                role: true,
+                conversationId: true,
+                createdAt: true,
+                sources: { orderBy: { citationIndex: 'asc' } },
+            },
+        });
+        if (!message) {
+            throw new NotFoundException(`Message ${messageId} not found`);
+        }
+
+        const participant = await this.databaseService.conversationParticipant.findUnique({
+            where: { conversationId_userId: { conversationId: message.conversationId, userId } },
+        });
+        if (!participant || participant.leftAt) {
+            throw new BadRequestException('Conversation not found or access denied');
+        }
+
+        if (message.role !== ChatRole.ASSISTANT) {
+            throw new BadRequestException('Only assistant answers can be rated');
+        }
+
+        return message;
+    }
+}
@@ -0,0 +1,42 @@
+import { Body, Controller, Delete, Get, Param, Post, Put, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { RequirePermission } from '../auth/decorator/permission.decorator';
+import { PermissionName } from 'generated/prisma/enums';
+import { LlmBudgetService } from './budgets/llm-budget.service';
+import { CreateLlmBudgetDto, UpdateLlmBudgetDto } from './dto/llm-budget.dto';
+
+@Controller('orgs/:orgId/llm-budgets')
+@UseGuards(AuthGuard, PermissionGuard)
+export class LlmBudgetsController {
+    constructor(private readonly budgets: LlmBudgetService) { }
+
+    @Get()
+    @RequirePermission(PermissionName.MANAGE_ORG)
+    async listBudgets(@Param('orgId') orgId: string) {
+        const data = await this.budgets.listBudgets(orgId);
+        return { success: true, count: data.length, data };
+    }
+
+    @Post()
+    @RequirePermission(PermissionName.MANAGE_ORG)
+    async createBudget(@Param('orgId') orgId: string, @Body() dto: CreateLlmBudgetDto) {
+        return this.budgets.createBudget(orgId, dto);
+    }
+
+    @Put(':budgetId')
+    @RequirePermission(PermissionName.MANAGE_ORG)
+    async updateBudget(
+        @Param('orgId') orgId: string,
+        @Param('budgetId') budgetId: string,
+        @Body() dto: UpdateLlmBudgetDto,
+    ) {
+        return this.budgets.updateBudget(orgId, budgetId, dto);
+    }
+
+    @Delete(':budgetId')
+    @RequirePermission(PermissionName.MANAGE_ORG)
+    async deleteBudget(@Param('orgId') orgId: string, @Param('budgetId') budgetId: string) {
+        return this.budgets.deleteBudget(orgId, budgetId);
+    }
+}
@@ -0,0 +1,28 @@
+import { Body, Controller, Get, Param, Put, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { RequirePermission } from '../auth/decorator/permission.decorator';
+import { PermissionName } from 'generated/prisma/enums';
+import { LlmProviderRegistry } from './providers/llm-provider.registry';
+import { UpdateLlmSettingsDto } from './dto/update-llm-settings.dto';
+
+@Controller('orgs/:orgId/llm-settings')
+@UseGuards(AuthGuard, PermissionGuard)
+export class LlmSettingsController {
+    constructor(private readonly llmProviders: LlmProviderRegistry) { }
+
+    @Get()
+    @RequirePermission(PermissionName.MANAGE_ORG)
+    async getSettings(@Param('orgId') orgId: string) {
+        return {
+            settings: await this.llmProviders.getSettings(orgId),
+            availableProviders: this.llmProviders.listProviders(),
+        };
+    }
+
+    @Put()
+    @RequirePermission(PermissionName.MANAGE_ORG)
+    async updateSettings(@Param('orgId') orgId: string, @Body() dto: UpdateLlmSettingsDto) {
+        return this.llmProviders.updateSettings(orgId, dto);
+    }
+}
@@ -1,4 +1,4 @@
-import { Controller, Post, Get, Put, Body, Param, Query, UseGuards, BadRequestException, HttpCode, HttpStatus, Sse, Header } from '@nestjs/common';
+import { Controller, Post, Get, Put, Delete, Body, Param, Query, UseGuards, BadRequestException, HttpCode, HttpStatus, Sse, Header } from '@nestjs/common';
 import { LlmService } from './llm.service';
 import { AuthGuard, getUser } from '../auth/guards/auth.guard';
 import { PermissionGuard } from '../auth/guards/permission.guard';
@@ -8,6 +8,8 @@ import { DatabaseService } from 'src/services/database/database.service';
 import { ConversationType } from 'generated/prisma/enums';
 import { ChatGateway } from '../chat/chat.gateway';
 import { LLMQueue } from 'src/services/queue/llm.queue';
+import { ChatFeedbackService } from './feedback/chat-feedback.service';
+import { ChatFeedbackDto } from './dto/chat-feedback.dto';
 import { interval, Observable } from 'rxjs';
 import { switchMap } from 'rxjs/operators';
 
@@ -19,6 +21,7 @@ export class LlmController {
         private readonly databaseService: DatabaseService,
         private readonly chatGateway: ChatGateway,
         private readonly llmQueue: LLMQueue,
+        private readonly chatFeedback: ChatFeedbackService,
     ) { }
 
     @Post('conversations')
@@ -32,10 +35,6 @@ export class LlmController {
             throw new BadRequestException('Either projectId or organizationId is required');
         }
 
-        if (type === 'RAG_CHAT' && !projectId) {
-            throw new BadRequestException('RAG_CHAT requires a projectId');
-        }
-
         const conversation = await this.databaseService.conversation.create({
             data: {
                 type,
@@ -202,10 +201,16 @@ export class LlmController {
                     },
                 },
                 sources: {
+                    where: { OR: [{ rawEventId: null }, { rawEvent: { deletedAt: null } }] },
                     include: {
                         rawEvent: true,
                         llmOutput: true,
                     },
+                    orderBy: { citationIndex: 'asc' },
+                },
+                feedback: {
+                    where: { userId },
+                    select: { rating: true, reason: true, updatedAt: true },
                 },
             },
         });
@@ -213,14 +218,32 @@ export class LlmController {
         return messages.reverse(); // Return in chronological order
     }
 
+    /**
+     * Rate an assistant answer (thumbs up/down plus an optional reason); rating again replaces the previous rating
+     */
+    @Put('messages/:messageId/feedback')
+    async setMessageFeedback(
+        @Param('messageId') messageId: string,
+        @getUser('id') userId: string,
+        @Body() dto: ChatFeedbackDto
+    ) {
+        return this.chatFeedback.setFeedback(messageId, userId, dto);
+    }
+
+    @Delete('messages/:messageId/feedback')
+    async removeMessageFeedback(@Param('messageId') messageId: string, @getUser('id') userId: string) {
+        return this.chatFeedback.removeFeedback(messageId, userId);
+    }
+
     @Post('conversations/:id/messages')
     @HttpCode(HttpStatus.ACCEPTED)
     async sendMessage(
         @Param('id') conversationId: string,
         @getUser('id') userId: string,
-        @Body() body: { question: string }
+        @Body() body: { question: string; useTools?: boolean }
     ) {
         const { question } = body;
+        const useTools = body.useTools === true;
 
         if (!question || question.trim().length === 0) {
             throw new BadRequestException('Question is required');
@@ -325,6 +348,7 @@ export class LlmController {
                     projectId: conversation.projectId || undefined,
                     organizationId: conversation.project?.organizationId || conversation.organizationId || undefined,
                     userMessageId: userMessage.id,
+                    useTools,
                 },
                 status: JobStatus.PENDING,
             },
@@ -340,6 +364,7 @@ export class LlmController {
             organizationId: conversation.project?.organizationId || conversation.organizationId || undefined,
             jobId: job.id, // Link BullMQ job to DB job
             userMessageId: userMessage.id,
+            useTools,
         });
 
         // Emit processing status
@@ -420,6 +445,36 @@ export class LlmController {
         };
     }
 
+    /**
+     * Stop an assistant answer mid-generation; the partial answer is saved and sent as the final message
+     */
+    @Post('jobs/:jobId/cancel')
+    async cancelJob(@Param('jobId') jobId: string, @getUser('id') userId: string) {
+        const job = await this.databaseService.job.findUnique({
+            where: { id: jobId },
+        });
+
+        if (!job) {
+            throw new BadRequestException('Job not found');
+        }
+
+        const payload = job.payload as any;
+        if (payload.userId && payload.userId !== userId) {
+            throw new BadRequestException('Access denied');
+        }
+
+        if (job.status === JobStatus.COMPLETED || job.status === JobStatus.FAILED) {
+            throw new BadRequestException('Job has already finished');
+        }
+
+        await this.chatGateway.cancelGeneration(jobId);
+
+        return {
+            status: 'cancelling',
+            jobId,
+        };
+    }
+
     @Sse('jobs/:jobId/stream')
     @Header('Cache-Control', 'no-cache')
     @Header('Content-Type', 'text/event-stream')
@@ -1,11 +1,28 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { LlmService } from './llm.service';
+import { LlmProviderRegistry } from './providers/llm-provider.registry';
+import { LlmSettingsController } from './llm-settings.controller';
+import { PromptRegistry } from './prompts/prompt-registry.service';
+import { PromptsController } from './prompts.controller';
+import { WorkDetectionService } from './detection/work-detection.service';
+import { DetectionReviewsController } from './detection-reviews.controller';
+import { LlmCacheService } from './cache/llm-cache.service';
+import { CreditReservationService } from './credits/credit-reservation.service';
+import { LlmBudgetService } from './budgets/llm-budget.service';
+import { LlmBudgetsController } from './llm-budgets.controller';
+import { HybridRetrievalService } from './retrieval/hybrid-retrieval.service';
+import { CitationService } from './retrieval/citation.service';
+import { ChatFeedbackService } from './feedback/chat-feedback.service';
+import { ChatToolsService } from './tools/chat-tools.service';
 import { LlmController, ReportsController } from './llm.controller';
 import { ConfigModule } from '@nestjs/config';
 import { DatabaseModule } from 'src/services/database/database.module';
 import { LoggerModule } from 'src/services/logger/logger.module';
 import { AuthModule } from '../auth/auth.module';
 import { ChatModule } from '../chat/chat.module';
+import { TasksModule } from '../tasks/tasks.module';
+import { FeaturesModule } from '../features/features.module';
+import { AnalyticsModule } from '../analytics/analytics.module';
 import { QueueModule } from 'src/services/queue/queue.module';
 
 @Module({
@@ -15,10 +32,32 @@ import { QueueModule } from 'src/services/queue/queue.module';
         LoggerModule,
         AuthModule,
         ChatModule,
+        TasksModule,
+        FeaturesModule,
+        forwardRef(() => AnalyticsModule),
         forwardRef(() => QueueModule),
     ],
-    providers: [LlmService],
-    controllers: [LlmController, ReportsController],
-    exports: [LlmService],
+    providers: [
+        LlmService,
+        LlmProviderRegistry,
+        PromptRegistry,
+        WorkDetectionService,
+        LlmCacheService,
+        CreditReservationService,
+        LlmBudgetService,
+        HybridRetrievalService,
+        CitationService,
+        ChatFeedbackService,
+        ChatToolsService,
+    ],
+    controllers: [
+        LlmController,
+        ReportsController,
+        LlmSettingsController,
+        PromptsController,
+        DetectionReviewsController,
+        LlmBudgetsController,
+    ],
+    exports: [LlmService, LlmProviderRegistry, PromptRegistry, LlmBudgetService],
 })
 export class LlmModule { }
\ No newline at end of file
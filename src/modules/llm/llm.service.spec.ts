@@ -0,0 +1,210 @@
+import { LlmService } from './llm.service';
+
+describe('LlmService', () => {
+    describe('chat', () => {
+        const rawEvents = [
+            {
+                id: 'event-kept',
+                projectId: 'project-1',
+                eventType: 'MESSAGE',
+                content: 'Deploy moved to Thursday',
+                authorName: 'Ana',
+                timestamp: new Date('2026-10-01T10:00:00Z'),
+                metadata: {},
+                deletedAt: null,
+            },
+            {
+                id: 'event-deleted',
+                projectId: 'project-1',
+                eventType: 'MESSAGE',
+                content: 'The staging password is hunter2',
+                authorName: 'Ben',
+                timestamp: new Date('2026-10-02T10:00:00Z'),
+                metadata: {},
+                deletedAt: new Date('2026-10-02T10:05:00Z'),
+            },
+        ];
+
+        function createService() {
+            const databaseService = {
+                conversation: {
+                    findUnique: jest.fn().mockResolvedValue({
+                        id: 'conversation-1',
+                        project: { id: 'project-1', organizationId: 'org-1' },
+                        organization: null,
+                        task: null,
+                        summary: null,
+                        summaryThrough: null,
+                    }),
+                    update: jest.fn().mockResolvedValue({}),
+                },
+                project: {
+                    findUnique: jest.fn().mockResolvedValue({ id: 'project-1', name: 'Apollo', integrations: [] }),
+                },
+                chatMessage: {
+                    findMany: jest.fn().mockResolvedValue([]),
+                    create: jest.fn().mockResolvedValue({ id: 'message-1' }),
+                },
+                // Applies the soft-delete part of the filter the way Postgres would
+                rawEvent: {
+                    findMany: jest.fn(async ({ where }) =>
+                        rawEvents.filter((event) => where.deletedAt !== null || event.deletedAt === null)
+                    ),
+                },
+                llmOutput: { findMany: jest.fn().mockResolvedValue([]) },
+            };
+            const llmProviders = { resolveEmbedding: jest.fn().mockRejectedValue(new Error('no embeddings')) };
+            const prompts = {
+                render: jest.fn(async (_organizationId: string, id: string, variables: Record<string, string>) => ({
+                    version: `${id}@2`,
+                    systemPrompt: 'system',
+                    userPrompt: variables.context,
+                })),
+            };
+            const retrieval = { retrieve: jest.fn().mockResolvedValue({ sources: [], filters: {} }) };
+            const citations = { resolve: jest.fn().mockResolvedValue([]), persist: jest.fn() };
+
+            const service = new LlmService(
+                databaseService as any,
+                llmProviders as any,
+                prompts as any,
+                {} as any,
+                {} as any,
+                {} as any,
+                {} as any,
+                retrieval as any,
+                citations as any,
+                {} as any,
+                {} as any,
+            );
+            jest.spyOn(service as any, 'executeLlmOperation').mockResolvedValue({ result: 'Thursday.', model: 'fake-chat' });
+
+            return { service, databaseService, prompts };
+        }
+
+        it('leaves messages deleted at the source out of the fallback context', async () => {
+            const { service, databaseService, prompts } = createService();
+
+            await service.chat({ conversationId: 'conversation-1', question: 'When is the deploy?', userId: 'user-1' });
+
+            expect(databaseService.rawEvent.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: expect.objectContaining({ deletedAt: null }) })
+            );
+            const context = prompts.render.mock.calls[0][2].context;
+            expect(context).toContain('Deploy moved to Thursday');
+            expect(context).not.toContain('hunter2');
+        });
+    });
+
+    describe('executeLlmOperation', () => {
+        function createService(provider: Record<string, any>) {
+            const databaseService = {
+                llmUsage: {
+                    create: jest.fn().mockResolvedValue({ id: 'usage-1' }),
+                    update: jest.fn().mockResolvedValue({}),
+                },
+            };
+            const llmProviders = {
+                resolve: jest.fn().mockResolvedValue({ provider, model: 'test-model' }),
+                getCreditCost: jest.fn().mockReturnValue({ base: 0, inputPer1K: 1, outputPer1K: 2 }),
+            };
+            const hold = { transactionId: 'txn-1', organizationId: 'org-1' };
+            const credits = {
+                reserve: jest.fn().mockResolvedValue(hold),
+                settle: jest.fn().mockResolvedValue(undefined),
+                release: jest.fn().mockResolvedValue(undefined),
+            };
+            const budgets = { enforce: jest.fn().mockResolvedValue(undefined) };
+
+            const service = new LlmService(
+                databaseService as any,
+                llmProviders as any,
+                {} as any,
+                {} as any,
+                {} as any,
+                credits as any,
+                budgets as any,
+                {} as any,
+                {} as any,
+                {} as any,
+                {} as any,
+            );
+
+            return { service, databaseService, credits, budgets, hold };
+        }
+
+        const prompt = {
+            id: 'summarize_message',
+            version: 'summarize_message@2',
+            systemPrompt: 'Return JSON with a summary.',
+            userPrompt: 'Résumé: déploiement jeudi',
+            outputSchema: { type: 'object', required: ['summary'], properties: { summary: { type: 'string' } } },
+        };
+
+        it("holds credits for the provider's token count", async () => {
+            const provider = {
+                name: 'fake',
+                countTokens: jest.fn().mockResolvedValue(1000),
+                complete: jest.fn().mockResolvedValue({ content: 'Thursday', model: 'test-model', usage: { inputTokens: 1000, outputTokens: 2 } }),
+            };
+            const { service, budgets, credits } = createService(provider);
+
+            await (service as any).executeLlmOperation({ organizationId: 'org-1', operationType: 'EVENT_SUMMARY', prompt, maxTokens: 100, cache: false });
+
+            // 1000 input tokens at 1 credit per 1K plus 100 output tokens at 2 per 1K
+            expect(budgets.enforce.mock.calls[0][0].estimate.toNumber()).toBe(1.2);
+            expect(credits.reserve.mock.calls[0][1].toNumber()).toBe(1.2);
+        });
+
+        it('holds by UTF-8 byte length when the provider cannot count tokens', async () => {
+            const provider = {
+                name: 'openai-compatible',
+                complete: jest.fn().mockResolvedValue({ content: 'Thursday', model: 'test-model' }),
+            };
+            const { service, credits } = createService(provider);
+
+            await (service as any).executeLlmOperation({ organizationId: 'org-1', operationType: 'EVENT_SUMMARY', prompt, maxTokens: 100, cache: false });
+
+            const inputTokens = Buffer.byteLength(prompt.systemPrompt) + Buffer.byteLength(prompt.userPrompt) + 2 * 8;
+            expect(credits.reserve.mock.calls[0][1].toNumber()).toBeCloseTo(inputTokens / 1000 + 0.2);
+        });
+
+        it("passes the caller's temperature to JSON operations, defaulting to 0", async () => {
+            const provider = {
+                name: 'fake',
+                countTokens: jest.fn().mockResolvedValue(1000),
+                complete: jest.fn().mockResolvedValue({ content: '{"summary": "Thursday"}', model: 'test-model' }),
+            };
+            const { service } = createService(provider);
+            const operation = { organizationId: 'org-1', operationType: 'EVENT_SUMMARY', prompt, returnType: 'json', cache: false };
+
+            await (service as any).executeLlmOperation({ ...operation, temperature: 0.5 });
+            await (service as any).executeLlmOperation(operation);
+
+            expect(provider.complete.mock.calls.map(([request]) => request.temperature)).toEqual([0.5, 0]);
+        });
+
+        it('charges the tokens of responses that fail schema validation', async () => {
+            const provider = {
+                name: 'fake',
+                countTokens: jest.fn().mockResolvedValue(1000),
+                complete: jest.fn().mockResolvedValue({ content: '{"title": "Deploy"}', model: 'test-model', usage: { inputTokens: 1000, outputTokens: 50 } }),
+            };
+            const { service, databaseService, credits, hold } = createService(provider);
+
+            await expect(
+                (service as any).executeLlmOperation({ organizationId: 'org-1', operationType: 'EVENT_SUMMARY', prompt, maxTokens: 100, cache: false, returnType: 'json' })
+            ).rejects.toThrow(/summary/);
+
+            // Three attempts (one plus two repairs) of 1000 input and 50 output tokens each
+            expect(provider.complete).toHaveBeenCalledTimes(3);
+            expect(credits.release).not.toHaveBeenCalled();
+            expect(credits.settle).toHaveBeenCalledWith(hold, expect.anything());
+            expect(credits.settle.mock.calls[0][1].toNumber()).toBe(3.3);
+            expect(databaseService.llmUsage.update).toHaveBeenCalledWith({
+                where: { id: 'usage-1' },
+                data: expect.objectContaining({ status: 'FAILED', inputTokens: 3000, outputTokens: 150, creditsConsumed: expect.anything() }),
+            });
+        });
+    });
+});
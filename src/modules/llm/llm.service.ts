@@ -1,10 +1,7 @@
-import { Injectable, BadRequestException, OnModuleInit } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Injectable, BadRequestException, ForbiddenException, OnModuleInit } from '@nestjs/common';
 import { DatabaseService } from 'src/services/database/database.service';
 import { LoggerService } from 'src/services/logger/logger.service';
-import OpenAI from 'openai';
 import Decimal from 'decimal.js';
-import { shouldSkipCreditChecks } from 'src/utils/environment.util';
 import {
     LlmOperationType,
     LlmOutputType,
@@ -14,6 +11,38 @@ import {
     RawEventType,
 } from '../../../generated/prisma/enums';
 import { Prisma } from '../../../generated/prisma/client';
+import { LlmProviderRegistry } from './providers/llm-provider.registry';
+import {
+    EMBEDDING_DIMENSIONS,
+    LlmCompletion,
+    LlmCompletionRequest,
+    LlmDeltaHandler,
+    LlmMessage,
+    LlmToolDefinition,
+    ResolvedLlm,
+} from './providers/llm-provider.interface';
+import { LlmGenerationCancelledError } from './providers/llm-generation-cancelled.error';
+import { PromptRegistry } from './prompts/prompt-registry.service';
+import { RenderedPrompt } from './prompts/prompt.types';
+import { LlmOutputValidationError, validateJsonSchema } from './prompts/json-schema.validator';
+import { DETECTION_INTENTS, WorkDetection, WorkDetectionService } from './detection/work-detection.service';
+import { LlmCacheService } from './cache/llm-cache.service';
+import { CreditHold, CreditReservationService } from './credits/credit-reservation.service';
+import { LlmBudgetService } from './budgets/llm-budget.service';
+import { HybridRetrievalService } from './retrieval/hybrid-retrieval.service';
+import { CitationService } from './retrieval/citation.service';
+import { Citation, validateCitationMarkers } from './retrieval/citations';
+import { hasRetrievalFilters } from './retrieval/retrieval-filters';
+import { ChatToolCallRecord, ChatToolContext, ChatToolsService } from './tools/chat-tools.service';
+import { AuthorizationService } from '../auth/authorization.service';
+
+// LlmOutputs generated from a RawEvent that was deleted at the source are hidden along with it
+const NOT_FROM_DELETED_EVENT: Prisma.LlmOutputWhereInput = { OR: [{ rawEventId: null }, { rawEvent: { deletedAt: null } }] };
+
+// Allowance for the problem list a JSON repair attempt sends back, on top of the response it resends
+const REPAIR_PROMPT_TOKENS = 500;
+// Role markers and separators chat templates wrap each message in, for token estimates without a tokenizer
+const TEMPLATE_TOKENS_PER_MESSAGE = 8;
 
 /**
  * LLM Service - Single source of truth for all LLM operations
@@ -25,32 +54,30 @@ import { Prisma } from '../../../generated/prisma/client';
 @Injectable()
 export class LlmService implements OnModuleInit {
     private readonly logger = new LoggerService(LlmService.name);
-    private readonly openai: OpenAI;
-    private readonly defaultModel = 'gpt-4o-mini';
-    private readonly embeddingModel = 'text-embedding-3-small';
     private readonly timeoutMs = 45_000;
-
-    // Credit costs configuration (hybrid: base + per-token)
-    private readonly CREDIT_COSTS: Record<
-        string,
-        { base: number; inputPer1K?: number; outputPer1K?: number }
-    > = {
-        'gpt-4o-mini': { base: 0.001, inputPer1K: 0.00015, outputPer1K: 0.0006 },
-        'gpt-4': { base: 0.03, inputPer1K: 0.03, outputPer1K: 0.06 },
-        'gpt-3.5-turbo': { base: 0.002, inputPer1K: 0.0015, outputPer1K: 0.002 },
-        'text-embedding-3-small': { base: 0.0001, inputPer1K: 0.02 }, // embeddings only have input
-    };
+    private readonly jsonRepairAttempts = Math.max(0, parseInt(process.env.LLM_JSON_REPAIR_ATTEMPTS || '2', 10));
+    // Chat memory: fold older messages into the conversation summary every chatSummaryInterval messages,
+    // keeping the newest chatRecentMessages verbatim
+    private readonly chatSummaryInterval = Math.max(2, parseInt(process.env.CHAT_SUMMARY_INTERVAL || '10', 10));
+    private readonly chatRecentMessages = 4;
+    private readonly chatHistoryMaxChars = 3000;
+    // Tool mode: completions in which the model may call tools before it has to answer
+    private readonly chatToolRounds = 3;
+    private readonly chatToolCallsPerRound = 5;
 
     constructor(
         private readonly databaseService: DatabaseService,
-        private readonly configService: ConfigService
-    ) {
-        const openaiKey = this.configService.get<string>('OPENAI_API_KEY') || '';
-        if (!openaiKey) {
-            this.logger.warn('OPENAI_API_KEY not found; LLM calls will fail until configured.', LlmService.name);
-        }
-        this.openai = new OpenAI({ apiKey: openaiKey || 'missing' });
-    }
+        private readonly llmProviders: LlmProviderRegistry,
+        private readonly prompts: PromptRegistry,
+        private readonly workDetection: WorkDetectionService,
+        private readonly llmCache: LlmCacheService,
+        private readonly credits: CreditReservationService,
+        private readonly budgets: LlmBudgetService,
+        private readonly retrieval: HybridRetrievalService,
+        private readonly citations: CitationService,
+        private readonly authorizationService: AuthorizationService,
+        private readonly chatTools: ChatToolsService,
+    ) { }
 
     async onModuleInit() {
         try {
@@ -118,10 +145,10 @@ export class LlmService implements OnModuleInit {
     }
 
     /**
-     * Calculate credits consumed based on model and token usage (hybrid: base + per-token)
+     * Calculate credits consumed based on the provider's model costs and token usage (hybrid: base + per-token)
      */
-    private calculateCredits(model: string, inputTokens: number, outputTokens: number): Decimal {
-        const costs = this.CREDIT_COSTS[model] || this.CREDIT_COSTS[this.defaultModel];
+    private calculateCredits(llm: ResolvedLlm, inputTokens: number, outputTokens: number): Decimal {
+        const costs = this.llmProviders.getCreditCost(llm.provider, llm.model);
         const baseCredits = new Decimal(costs.base);
         const inputCredits = costs.inputPer1K
             ? new Decimal(inputTokens).div(1000).times(costs.inputPer1K)
@@ -133,79 +160,56 @@ export class LlmService implements OnModuleInit {
     }
 
     /**
-     * Check if organization has sufficient credits
+     * Credits to hold for embedding the given chunks (input tokens only)
      */
-    private async checkCreditBalance(organizationId: string, requiredCredits: Decimal): Promise<boolean> {
-        const org = await this.databaseService.organization.findUnique({
-            where: { id: organizationId },
-            select: { creditBalance: true, creditLimit: true },
-        });
-        if (!org) return false;
-
-        const availableCredits = org.creditLimit
-            ? Decimal.min(org.creditBalance, org.creditLimit)
-            : org.creditBalance;
-
-        return availableCredits.gte(requiredCredits);
+    private async estimateEmbeddingCredits(llm: ResolvedLlm, chunks: string[]): Promise<Decimal> {
+        let credits = new Decimal(0);
+        for (const chunk of chunks) {
+            const tokens = await this.countInputTokens(llm, { model: llm.model, messages: [{ role: 'user', content: chunk }] });
+            credits = credits.plus(this.calculateCredits(llm, tokens, 0));
+        }
+        return credits;
     }
 
     /**
-     * Atomically deduct credits with optimistic locking
+     * Upper bound on the credits an operation can cost: the request's input tokens plus maxTokens of output, for
+     * every attempt a JSON operation may make. Repair attempts resend the earlier responses (up to maxTokens each)
+     * along with a list of the problems found, so each one's input grows by up to maxTokens + REPAIR_PROMPT_TOKENS.
      */
-    private async deductCreditsAtomically(
-        organizationId: string,
-        credits: Decimal,
-        llmUsageId: string
-    ): Promise<Prisma.CreditTransactionGetPayload<{}>> {
-        return this.databaseService.$transaction(async (tx) => {
-            const org = await tx.organization.findUnique({
-                where: { id: organizationId },
-                select: { id: true, creditBalance: true, version: true },
-            });
-
-            if (!org) {
-                throw new BadRequestException(`Organization ${organizationId} not found`);
-            }
-
-            if (org.creditBalance.lt(credits)) {
-                throw new BadRequestException('Insufficient credits');
-            }
-
-            const newBalance = org.creditBalance.minus(credits);
-            const balanceBefore = org.creditBalance;
-            const balanceAfter = newBalance;
-
-            const [updatedOrg, creditTxn] = await Promise.all([
-                tx.organization.update({
-                    where: { id: organizationId, version: org.version },
-                    data: {
-                        creditBalance: newBalance,
-                        version: { increment: 1 },
-                    },
-                }),
-                tx.creditTransaction.create({
-                    data: {
-                        organizationId,
-                        type: 'USAGE',
-                        status: 'COMPLETED',
-                        amount: credits.negated(), // Negative for usage
-                        balanceBefore,
-                        balanceAfter,
-                        llmUsageId,
-                        referenceType: 'llm_usage',
-                        referenceId: llmUsageId,
-                        processedAt: new Date(),
-                    },
-                }),
-            ]);
+    private async estimateMaxCredits(
+        llm: ResolvedLlm,
+        request: LlmCompletionRequest,
+        maxTokens: number,
+        returnType: 'text' | 'json'
+    ): Promise<Decimal> {
+        const promptTokens = await this.countInputTokens(llm, request);
+        const attempts = returnType === 'json' ? 1 + this.jsonRepairAttempts : 1;
+
+        let credits = new Decimal(0);
+        for (let attempt = 0; attempt < attempts; attempt++) {
+            credits = credits.plus(this.calculateCredits(llm, promptTokens + attempt * (maxTokens + REPAIR_PROMPT_TOKENS), maxTokens));
+        }
+        return credits;
+    }
 
-            this.logger.log(
-                `Credits deducted: ${credits.toString()} from org ${organizationId}. New balance: ${newBalance.toString()}`,
-                LlmService.name
-            );
+    /**
+     * Input tokens of a request, counted by the provider's tokenizer or token-counting API. Providers without one
+     * (or whose count fails) fall back to the UTF-8 byte length plus the chat template's per-message tokens: the
+     * byte-level BPE tokenizers these APIs use never produce more tokens than bytes, so the hold can only be too high.
+     */
+    private async countInputTokens(llm: ResolvedLlm, request: LlmCompletionRequest): Promise<number> {
+        try {
+            const tokens = await llm.provider.countTokens?.(request);
+            if (tokens !== undefined) return tokens;
+        } catch (error) {
+            this.logger.warn(`Token count from ${llm.provider.name} failed, holding by byte length: ${error.message}`, LlmService.name);
+        }
 
-            return creditTxn;
-        });
+        const bytes = request.messages.reduce(
+            (sum, message) => sum + Buffer.byteLength(message.content) + (message.toolCalls ? Buffer.byteLength(JSON.stringify(message.toolCalls)) : 0),
+            request.tools?.length ? Buffer.byteLength(JSON.stringify(request.tools)) : 0
+        );
+        return bytes + request.messages.length * TEMPLATE_TOKENS_PER_MESSAGE;
     }
 
     /**
@@ -231,108 +235,280 @@ export class LlmService implements OnModuleInit {
     }
 
     /**
-     * Generate text using OpenAI (low-level method)
+     * Generate text with the resolved provider (low-level method).
+     * With onDelta the completion is streamed; aborting `signal` then throws LlmGenerationCancelledError with the text so far.
      */
     private async generateText(
+        llm: ResolvedLlm,
         systemPrompt: string,
         userPrompt: string,
-        options: { model?: string; temperature?: number; maxTokens?: number } = {}
-    ): Promise<string> {
-        const { model = this.defaultModel, temperature = 0.3, maxTokens = 600 } = options;
+        options: {
+            temperature?: number;
+            maxTokens?: number;
+            json?: boolean;
+            followUp?: LlmMessage[];
+            tools?: LlmToolDefinition[];
+            toolChoice?: 'auto' | 'none';
+            onDelta?: LlmDeltaHandler;
+            signal?: AbortSignal;
+        } = {}
+    ): Promise<LlmCompletion> {
+        const { temperature = 0.3, maxTokens = 600, json = false, followUp = [], tools, toolChoice, onDelta, signal } = options;
 
         const controller = new AbortController();
         const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+        const cancel = () => controller.abort();
+        signal?.addEventListener('abort', cancel);
+        if (signal?.aborted) cancel();
+
+        let streamed = '';
 
         try {
-            const res = await this.openai.chat.completions.create(
-                {
-                    model,
-                    temperature,
-                    max_tokens: maxTokens,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt },
-                    ],
-                },
-                { signal: controller.signal }
-            );
+            const request = {
+                model: llm.model,
+                temperature,
+                maxTokens,
+                json,
+                messages: [
+                    { role: 'system' as const, content: systemPrompt },
+                    { role: 'user' as const, content: userPrompt },
+                    ...followUp,
+                ],
+                ...(tools?.length && { tools, toolChoice }),
+                signal: controller.signal,
+            };
 
-            return res.choices[0]?.message?.content?.trim() ?? '';
+            if (!onDelta) {
+                return await llm.provider.complete(request);
+            }
+
+            return await llm.provider.stream(request, (delta) => {
+                streamed += delta;
+                onDelta(delta);
+            });
         } catch (error) {
-            if (error.name === 'AbortError') {
+            if (signal?.aborted) {
+                throw new LlmGenerationCancelledError({ content: streamed.trim(), model: llm.model });
+            }
+            if (error.name === 'AbortError' || error.name === 'CanceledError') {
                 throw new Error('LLM request timed out');
             }
             throw error;
         } finally {
             clearTimeout(timeout);
+            signal?.removeEventListener('abort', cancel);
         }
     }
 
     /**
-     * Generate JSON response using OpenAI (low-level method)
+     * Generate JSON with the resolved provider and validate it against the prompt's output schema (low-level method).
+     * Malformed or off-schema responses are sent back to the model with the problems listed, up to jsonRepairAttempts times.
+     * Returns every completion so the caller can account for the tokens spent on repairs. Temperature defaults to 0.
      */
     private async generateJson<T>(
-        systemPrompt: string,
-        userPrompt: string,
-        options: { model?: string; maxTokens?: number } = {}
-    ): Promise<T> {
-        const raw = await this.generateText(systemPrompt, userPrompt, {
-            temperature: 0,
-            maxTokens: options.maxTokens ?? 800,
-        });
+        llm: ResolvedLlm,
+        prompt: RenderedPrompt,
+        options: { maxTokens?: number; temperature?: number } = {}
+    ): Promise<{ result: T; completions: LlmCompletion[] }> {
+        if (!prompt.outputSchema) {
+            throw new Error(`Prompt ${prompt.version} has no output schema for a JSON operation`);
+        }
 
-        try {
-            return this.extractJson<T>(raw);
-        } catch (err) {
-            this.logger.error(`Invalid JSON from LLM: ${raw}`, LlmService.name);
-            throw new Error('LLM returned invalid JSON');
+        const completions: LlmCompletion[] = [];
+        const followUp: LlmMessage[] = [];
+        let problems: string[] = [];
+
+        for (let attempt = 0; attempt <= this.jsonRepairAttempts; attempt++) {
+            const completion = await this.generateText(llm, prompt.systemPrompt, prompt.userPrompt, {
+                temperature: options.temperature ?? 0,
+                maxTokens: options.maxTokens ?? 800,
+                json: true,
+                followUp,
+            });
+            completions.push(completion);
+
+            let parsed: unknown;
+            try {
+                parsed = this.extractJson<unknown>(completion.content);
+                problems = validateJsonSchema(parsed, prompt.outputSchema);
+            } catch (err) {
+                problems = [`response is not valid JSON (${err.message})`];
+            }
+
+            if (problems.length === 0) {
+                return { result: parsed as T, completions };
+            }
+
+            this.logger.warn(
+                `Invalid JSON from LLM for ${prompt.version} (attempt ${attempt + 1}): ${problems.join('; ')}`,
+                LlmService.name
+            );
+            followUp.push(
+                { role: 'assistant', content: completion.content },
+                {
+                    role: 'user',
+                    content: `Your previous response did not match the required JSON format:\n${problems.map((p) => `- ${p}`).join('\n')}\n\nReturn the corrected JSON object only, with no markdown or commentary.`,
+                },
+            );
         }
+
+        throw new LlmOutputValidationError(prompt.version, problems, completions);
+    }
+
+    /**
+     * Sum token usage over a prompt's completions (one per attempt), estimating when the provider did not report it.
+     * Each repair attempt resends the earlier responses, so their length counts towards later inputs; so do
+     * `extraInputChars` sent with every attempt (follow-up turns, tool definitions).
+     */
+    private countTokens(
+        prompt: RenderedPrompt,
+        completions: LlmCompletion[],
+        extraInputChars = 0
+    ): { inputTokens: number; outputTokens: number } {
+        let inputTokens = 0;
+        let outputTokens = 0;
+        let resentChars = extraInputChars;
+
+        for (const completion of completions) {
+            inputTokens +=
+                completion.usage?.inputTokens ??
+                Math.ceil((prompt.systemPrompt.length + prompt.userPrompt.length + resentChars) / 4);
+            outputTokens += completion.usage?.outputTokens ?? Math.ceil(completion.content.length / 4);
+            resentChars += completion.content.length;
+        }
+
+        return { inputTokens, outputTokens };
+    }
+
+    /**
+     * Hold credits for an operation's estimated cost, re-checking the hard limits of its budgets in the same
+     * transaction (throws when the org cannot cover it or a limit would be passed)
+     */
+    private reserveCredits(
+        params: { organizationId: string; projectId?: string | null; operationType: LlmOperationType; estimate: Decimal },
+        llmUsageId: string
+    ): Promise<CreditHold | null> {
+        return this.credits.reserve(params.organizationId, params.estimate, llmUsageId, (tx) =>
+            this.budgets.assertHardLimits(tx, params)
+        );
     }
 
     /**
      * Core LLM operation wrapper with credit tracking
-     * Creates LlmUsage, checks credits, executes LLM call, tracks usage, deducts credits atomically
+     * Creates LlmUsage, checks credits, executes LLM call, tracks usage, deducts credits atomically.
+     * Identical calls are served from LlmCacheService and recorded as zero-credit cache hits; pass cache: false
+     * for calls whose answer should not be reused (e.g. chat). Other calls must fit the org's LLM budgets and throttles.
+     * Text operations can be streamed through onDelta and cancelled through signal (see generateText). They can
+     * also continue a conversation (followUp) and offer tools; tool calls the model asks for come back in toolCalls.
      */
     private async executeLlmOperation<T>(params: {
         organizationId: string;
+        projectId?: string | null;
         operationType: LlmOperationType;
         model?: string;
-        systemPrompt: string;
-        userPrompt: string;
+        prompt: RenderedPrompt;
         maxTokens?: number;
         temperature?: number;
         returnType?: 'text' | 'json';
         referenceId?: string;
         referenceType?: string;
+        cache?: boolean;
+        followUp?: LlmMessage[];
+        tools?: LlmToolDefinition[];
+        toolChoice?: 'auto' | 'none';
+        onDelta?: LlmDeltaHandler;
+        signal?: AbortSignal;
     }): Promise<{
         result: T;
         usage: { inputTokens: number; outputTokens: number; totalTokens: number };
         llmUsageId: string;
+        model: string;
+        promptVersion: string;
+        toolCalls?: LlmCompletion['toolCalls'];
     }> {
         const {
             organizationId,
+            projectId,
             operationType,
-            model = this.defaultModel,
-            systemPrompt,
-            userPrompt,
+            prompt,
             maxTokens = 600,
-            temperature = 0.3,
+            temperature, // defaults to 0.3 for text and 0 for JSON (see generateText and generateJson)
             returnType = 'text',
             referenceId,
             referenceType,
+            cache = true,
+            followUp = [],
+            tools,
+            toolChoice,
+            onDelta,
+            signal,
         } = params;
+        const { systemPrompt, userPrompt } = prompt;
+        const extraInputChars =
+            followUp.reduce((sum, message) => sum + message.content.length + JSON.stringify(message.toolCalls ?? []).length, 0) +
+            (tools?.length ? JSON.stringify(tools).length : 0);
+
+        // Provider and model come from the org's LLM settings unless the caller pins a model
+        const resolved = await this.llmProviders.resolve(organizationId);
+        const llm: ResolvedLlm = params.model ? { ...resolved, model: params.model } : resolved;
+        const model = llm.model;
+
+        // 0. Serve repeated calls (same operation, model, prompt version and input) from the cache; the key does not
+        // cover follow-up turns or tools, so those calls always go to the provider
+        const cacheKey = cache && followUp.length === 0 && !tools?.length
+            ? this.llmCache.keyFor({ operationType, model: `${llm.provider.name}:${model}`, prompt, returnType, maxTokens })
+            : null;
+        const cached = cacheKey ? await this.llmCache.get<T>(cacheKey) : null;
+        if (cached) {
+            const cachedUsage = await this.databaseService.llmUsage.create({
+                data: {
+                    organizationId,
+                    operationType,
+                    creditsConsumed: new Decimal(0),
+                    inputTokens: 0,
+                    outputTokens: 0,
+                    totalTokens: 0,
+                    status: 'COMPLETED',
+                    cacheHit: true,
+                    model,
+                    projectId,
+                    referenceId,
+                    referenceType,
+                    metadata: {
+                        promptVersion: prompt.version,
+                        cacheKey: cacheKey!.key,
+                        savedTokens: cached.inputTokens + cached.outputTokens,
+                    },
+                },
+            });
 
-        // 1. Estimate credits needed (use maxTokens for estimation)
-        const estimatedCredits = this.calculateCredits(model, maxTokens, Math.floor(maxTokens * 0.5));
-        
-        // Skip credit checks in development mode
-        if (!shouldSkipCreditChecks()) {
-            const hasCredits = await this.checkCreditBalance(organizationId, estimatedCredits);
-            if (!hasCredits) {
-                throw new BadRequestException('Insufficient credits for this operation');
+            this.logger.log(`LLM operation ${operationType} served from cache`, LlmService.name);
+            if (onDelta && typeof cached.result === 'string') {
+                onDelta(cached.result);
             }
+
+            return {
+                result: cached.result,
+                usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+                llmUsageId: cachedUsage.id,
+                model,
+                promptVersion: prompt.version,
+            };
         }
 
+        // 1. Enforce budgets and throttles against the maximum possible cost (throws typed errors)
+        const estimatedCredits = await this.estimateMaxCredits(
+            llm,
+            {
+                model,
+                messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }, ...followUp],
+                ...(tools?.length && { tools }),
+            },
+            maxTokens,
+            returnType
+        );
+        await this.budgets.enforce({ organizationId, projectId, operationType, estimate: estimatedCredits });
+
         // 2. Create LlmUsage record (PENDING status)
         const llmUsage = await this.databaseService.llmUsage.create({
             data: {
@@ -341,8 +517,10 @@ export class LlmService implements OnModuleInit {
                 creditsConsumed: new Decimal(0), // Will update after execution
                 status: 'PENDING',
                 model,
+                projectId,
                 referenceId,
                 referenceType,
+                metadata: { promptVersion: prompt.version },
             },
         });
 
@@ -350,31 +528,40 @@ export class LlmService implements OnModuleInit {
         let inputTokens = 0;
         let outputTokens = 0;
         let totalTokens = 0;
+        let hold: CreditHold | null = null;
 
         try {
-            // 3. Execute LLM operation
+            // 3. Hold credits for the maximum possible cost (throws when the org cannot cover it)
+            hold = await this.reserveCredits({ organizationId, projectId, operationType, estimate: estimatedCredits }, llmUsage.id);
+
+            // 4. Execute LLM operation (JSON responses are schema-validated, with repair attempts)
+            let completions: LlmCompletion[];
+            let toolCalls: LlmCompletion['toolCalls'];
             if (returnType === 'json') {
-                result = await this.generateJson<T>(systemPrompt, userPrompt, { model, maxTokens });
+                ({ result, completions } = await this.generateJson<T>(llm, prompt, { maxTokens, temperature }));
             } else {
-                result = (await this.generateText(systemPrompt, userPrompt, {
-                    model,
+                const completion = await this.generateText(llm, systemPrompt, userPrompt, {
                     temperature,
                     maxTokens,
-                })) as T;
+                    followUp,
+                    tools,
+                    toolChoice,
+                    onDelta,
+                    signal,
+                });
+                completions = [completion];
+                result = completion.content as T;
+                toolCalls = completion.toolCalls;
             }
 
-            // 4. Get actual token usage (estimate if not available from API)
-            // Note: OpenAI API returns usage in response, but we're using estimate here
-            // For more accuracy, capture from response.choices[0].usage
-            const promptTokens = Math.ceil((systemPrompt.length + userPrompt.length) / 4); // Rough estimate
-            inputTokens = promptTokens;
-            outputTokens = returnType === 'json' ? Math.ceil(JSON.stringify(result).length / 4) : Math.ceil(String(result).length / 4);
+            // 5. Get actual token usage across all attempts
+            ({ inputTokens, outputTokens } = this.countTokens(prompt, completions, extraInputChars));
             totalTokens = inputTokens + outputTokens;
 
-            // 5. Calculate actual credits consumed
-            const actualCredits = this.calculateCredits(model, inputTokens, outputTokens);
+            // 6. Calculate actual credits consumed
+            const actualCredits = this.calculateCredits(llm, inputTokens, outputTokens);
 
-            // 6. Update LlmUsage with actual usage and mark as COMPLETED
+            // 7. Update LlmUsage with actual usage and mark as COMPLETED
             await this.databaseService.llmUsage.update({
                 where: { id: llmUsage.id },
                 data: {
@@ -387,9 +574,11 @@ export class LlmService implements OnModuleInit {
                 },
             });
 
-            // 7. Atomically deduct credits (skip in development mode)
-            if (!shouldSkipCreditChecks()) {
-                await this.deductCreditsAtomically(organizationId, actualCredits, llmUsage.id);
+            // 8. Settle the hold to the actual cost
+            await this.credits.settle(hold, actualCredits);
+
+            if (cacheKey) {
+                await this.llmCache.set(cacheKey, { result, inputTokens, outputTokens });
             }
 
             this.logger.log(
@@ -401,17 +590,58 @@ export class LlmService implements OnModuleInit {
                 result,
                 usage: { inputTokens, outputTokens, totalTokens },
                 llmUsageId: llmUsage.id,
+                model,
+                promptVersion: prompt.version,
+                ...(toolCalls?.length && { toolCalls }),
             };
         } catch (error) {
-            // Mark LlmUsage as FAILED
+            if (error instanceof LlmGenerationCancelledError) {
+                // The provider still bills the tokens generated before the cancel
+                const spent = this.countTokens(prompt, [error.partial], extraInputChars);
+                const spentCredits = this.calculateCredits(llm, spent.inputTokens, spent.outputTokens);
+
+                await this.databaseService.llmUsage.update({
+                    where: { id: llmUsage.id },
+                    data: {
+                        creditsConsumed: spentCredits,
+                        inputTokens: spent.inputTokens,
+                        outputTokens: spent.outputTokens,
+                        totalTokens: spent.inputTokens + spent.outputTokens,
+                        status: 'COMPLETED',
+                        metadata: { promptVersion: prompt.version, cancelled: true },
+                    },
+                });
+                await this.credits.settle(hold, spentCredits);
+
+                this.logger.log(`LLM operation ${operationType} cancelled after ${spent.outputTokens} output tokens`, LlmService.name);
+                throw error;
+            }
+
+            // Mark LlmUsage as FAILED, keeping the tokens and credits spent on rejected structured responses
+            const spent = error instanceof LlmOutputValidationError ? this.countTokens(prompt, error.completions) : null;
+            const spentCredits = spent ? this.calculateCredits(llm, spent.inputTokens, spent.outputTokens) : null;
             await this.databaseService.llmUsage.update({
                 where: { id: llmUsage.id },
                 data: {
                     status: 'FAILED',
                     errorMessage: error.message || 'Unknown error',
+                    ...(spent && {
+                        creditsConsumed: spentCredits,
+                        inputTokens: spent.inputTokens,
+                        outputTokens: spent.outputTokens,
+                        totalTokens: spent.inputTokens + spent.outputTokens,
+                    }),
                 },
             });
 
+            // Responses rejected by schema validation were still generated and billed by the provider, so the hold
+            // settles to the tokens they used; other failures release it
+            if (spentCredits) {
+                await this.credits.settle(hold, spentCredits);
+            } else {
+                await this.credits.release(hold, error.message || 'failed');
+            }
+
             this.logger.error(`LLM operation ${operationType} failed: ${error.message}`, LlmService.name);
             throw error;
         }
@@ -425,7 +655,7 @@ export class LlmService implements OnModuleInit {
      */
     async processRawEvent(rawEventId: string) {
         const rawEvent = await this.databaseService.rawEvent.findUnique({
-            where: { id: rawEventId },
+            where: { id: rawEventId, deletedAt: null },
             include: { project: { include: { organization: true } } },
         });
 
@@ -441,6 +671,7 @@ export class LlmService implements OnModuleInit {
 
         try {
             let summary: string;
+            let promptVersion: string;
             let semanticIntent: SemanticIntent | null = null;
 
             // Route based on event type
@@ -448,15 +679,16 @@ export class LlmService implements OnModuleInit {
             switch (rawEvent.eventType) {
                 case 'COMMIT':
                 case 'PULL_REQUEST':
-                    summary = await this.summarizeCodeChange(
+                    ({ summary, promptVersion } = await this.summarizeCodeChangeWithVersion(
                         organizationId,
                         {
                             title: metadata?.title || metadata?.commitMessage || 'Code change',
                             description: metadata?.description || rawEvent.content,
                             files: metadata?.files || metadata?.filesChanged || [],
                         },
-                        rawEventId
-                    );
+                        rawEventId,
+                        rawEvent.projectId
+                    ));
                     break;
 
                 case 'MESSAGE':
@@ -467,23 +699,26 @@ export class LlmService implements OnModuleInit {
                             content: rawEvent.content || '',
                             title: metadata?.title || metadata?.subject,
                         },
-                        rawEventId
+                        rawEventId,
+                        rawEvent.projectId
                     );
                     summary = messageResult.summary;
+                    promptVersion = messageResult.promptVersion;
                     semanticIntent = messageResult.semanticIntent;
                     break;
 
                 default:
                     // Generic summarization for other event types
-                    summary = await this.summarizeGenericEvent(
+                    ({ summary, promptVersion } = await this.summarizeGenericEvent(
                         organizationId,
                         {
                             eventType: rawEvent.eventType,
                             content: rawEvent.content || '',
                             metadata,
                         },
-                        rawEventId
-                    );
+                        rawEventId,
+                        rawEvent.projectId
+                    ));
             }
 
             // Create LlmOutput record
@@ -493,7 +728,8 @@ export class LlmService implements OnModuleInit {
                     rawEventId: rawEvent.id,
                     type: 'SUMMARY',
                 content: summary,
-                    model: this.defaultModel,
+                    model: (await this.llmProviders.resolve(organizationId)).model,
+                    promptVersion,
                     metadata: semanticIntent ? { semanticIntent } : undefined,
             },
         });
@@ -506,7 +742,7 @@ export class LlmService implements OnModuleInit {
             // Mark RawEvent as processed
             await this.databaseService.rawEvent.update({
                 where: { id: rawEvent.id },
-                data: { processedByLLM: true },
+                data: { processedByLLM: true, ...(semanticIntent && { semanticIntent, semanticSummary: summary }) },
             });
 
             // Detect features and tasks from the event
@@ -532,40 +768,43 @@ export class LlmService implements OnModuleInit {
             description?: string | null;
             files: Array<{ filename: string; patch?: string | null }>;
         },
-        referenceId?: string
+        referenceId?: string,
+        projectId?: string
     ): Promise<string> {
-        const systemPrompt = `You are a senior software engineer.
-        Summarize code changes clearly and concisely.
-        Focus on intent, impact, and risk.
-        Do NOT repeat code verbatim.
-        Provide a 3-4 line summary.`;
-
-        const userPrompt = `TITLE: ${input.title}
-
-        ${input.description ? `DESCRIPTION: ${input.description}\n` : ''}
-
-        FILES CHANGED:
-        ${input.files
-            .map((f) => `File: ${f.filename}\nChanges:\n${f.patch ?? 'Diff too large'}`)
-            .join('\n\n')}
+        const { summary } = await this.summarizeCodeChangeWithVersion(organizationId, input, referenceId, projectId);
+        return summary;
+    }
 
-        Explain:
-        1. What changed
-        2. Why it matters
-        3. Any risks`;
+    private async summarizeCodeChangeWithVersion(
+        organizationId: string,
+        input: {
+            title: string;
+            description?: string | null;
+            files: Array<{ filename: string; patch?: string | null }>;
+        },
+        referenceId?: string,
+        projectId?: string | null
+    ): Promise<{ summary: string; promptVersion: string }> {
+        const prompt = await this.prompts.render(organizationId, 'summarize_code_change', {
+            title: input.title,
+            descriptionBlock: input.description ? `DESCRIPTION: ${input.description}\n` : '',
+            files: input.files
+                .map((f) => `File: ${f.filename}\nChanges:\n${f.patch ?? 'Diff too large'}`)
+                .join('\n\n'),
+        });
 
-        const { result } = await this.executeLlmOperation<string>({
+        const { result, promptVersion } = await this.executeLlmOperation<string>({
             organizationId,
+            projectId,
             operationType: 'EVENT_SUMMARY',
-            systemPrompt,
-            userPrompt,
+            prompt,
             maxTokens: 400,
             referenceId: referenceId || undefined,
             referenceType: referenceId ? 'code_change' : undefined,
             returnType: 'text',
         });
 
-        return result;
+        return { summary: result, promptVersion };
     }
 
     /**
@@ -574,54 +813,38 @@ export class LlmService implements OnModuleInit {
     private async summarizeMessage(
         organizationId: string,
         input: { content: string; title?: string | null },
-        referenceId: string
-    ): Promise<{ summary: string; semanticIntent: SemanticIntent | null }> {
-        const systemPrompt = `You are analyzing project communications (messages, comments, issues).
-        Summarize the message and determine its semantic intent regarding the project.
-
-        Return JSON in this exact format:
-        {
-        "summary": "brief summary of what the user said",
-        "semanticIntent": "FEATURE_REQUEST" | "BUG_REPORT" | "TASK_UPDATE" | "QUESTION" | "ANNOUNCEMENT" | "OTHER" | null,
-        "projectContext": "what project aspect is being discussed (e.g., 'authentication feature', 'login bug')"
-        }
-
-        Rules:
-        - semanticIntent should be null if unclear
-        - projectContext should identify what part of the project is mentioned
-        - summary should be concise (2-3 sentences)`;
-
-        const userPrompt = `${input.title ? `TITLE: ${input.title}\n\n` : ''}MESSAGE:
-        ${input.content}`;
+        referenceId: string,
+        projectId: string | null
+    ): Promise<{ summary: string; semanticIntent: SemanticIntent | null; promptVersion: string }> {
+        const prompt = await this.prompts.render(organizationId, 'summarize_message', {
+            titleBlock: input.title ? `TITLE: ${input.title}\n\n` : '',
+            content: input.content,
+        });
 
         type MessageAnalysis = {
             summary: string;
-            semanticIntent: SemanticIntent | null;
+            semanticIntent: string | null;
             projectContext: string;
         };
 
-        const { result } = await this.executeLlmOperation<MessageAnalysis>({
+        const { result, promptVersion } = await this.executeLlmOperation<MessageAnalysis>({
             organizationId,
+            projectId,
             operationType: 'SENTIMENT_ANALYSIS',
-            systemPrompt,
-            userPrompt,
+            prompt,
             maxTokens: 500,
             referenceId,
             referenceType: 'raw_event',
             returnType: 'json',
         });
 
-        // Map string to enum if needed
-        let intent: SemanticIntent | null = null;
-        if (result.semanticIntent) {
-            try {
-                intent = result.semanticIntent as SemanticIntent;
-            } catch {
-                // Invalid enum value, keep as null
-            }
-        }
+        // Older pinned prompt versions use labels that are not SemanticIntent values; treat those as unclear
+        const intent =
+            result.semanticIntent && (Object.values(SemanticIntent) as string[]).includes(result.semanticIntent)
+                ? (result.semanticIntent as SemanticIntent)
+                : null;
 
-        return { summary: result.summary, semanticIntent: intent };
+        return { summary: result.summary, semanticIntent: intent, promptVersion };
     }
 
     /**
@@ -634,151 +857,70 @@ export class LlmService implements OnModuleInit {
             content?: string | null;
             metadata?: any;
         },
-        referenceId: string
-    ): Promise<string> {
-        const systemPrompt = `You are analyzing project events.
-        Provide a concise summary (2-3 sentences) of what happened.`;
-
-        const metadataStr = input.metadata ? JSON.stringify(input.metadata, null, 2) : '';
-        const userPrompt = `EVENT TYPE: ${input.eventType}
-        ${input.content ? `CONTENT: ${input.content}\n` : ''}
-        ${metadataStr ? `METADATA: ${metadataStr}` : ''}`;
+        referenceId: string,
+        projectId: string | null
+    ): Promise<{ summary: string; promptVersion: string }> {
+        const prompt = await this.prompts.render(organizationId, 'summarize_generic_event', {
+            eventType: input.eventType,
+            contentBlock: input.content ? `CONTENT: ${input.content}\n` : '',
+            metadataBlock: input.metadata ? `METADATA: ${JSON.stringify(input.metadata, null, 2)}` : '',
+        });
 
-        const { result } = await this.executeLlmOperation<string>({
+        const { result, promptVersion } = await this.executeLlmOperation<string>({
             organizationId,
+            projectId,
             operationType: 'EVENT_SUMMARY',
-            systemPrompt,
-            userPrompt,
+            prompt,
             maxTokens: 300,
             referenceId,
             referenceType: 'raw_event',
             returnType: 'text',
         });
 
-        return result;
+        return { summary: result, promptVersion };
     }
 
 
     /**
-     * Detect features from RawEvent based on semantic intent
+     * Detect the feature and task a RawEvent is about, for intents that move work forward
+     * (FEATURE_IN_PROGRESS, FEATURE_COMPLETE, BLOCKER, FIX_ISSUE). WorkDetectionService applies or queues the result.
      */
     private async detectFeatureFromRawEvent(
         rawEvent: any,
         semanticIntent: SemanticIntent | null
     ): Promise<void> {
-        // Only detect features from certain semantic intents
-        if (
-            !semanticIntent ||
-            !['FEATURE_REQUEST', 'TASK_UPDATE', 'ISSUE'].includes(semanticIntent) ||
-            !rawEvent.projectId
-        ) {
+        if (!semanticIntent || !DETECTION_INTENTS.includes(semanticIntent) || !rawEvent.projectId) {
             return;
         }
 
         try {
-            const projectId = rawEvent.projectId;
             const organizationId = rawEvent.project?.organizationId;
 
             if (!organizationId) {
                 return;
             }
 
-            // Analyze RawEvent content to extract feature information
-            const systemPrompt = `You are analyzing project events to detect features being worked on.
-Extract feature information from the event content.
-
-Return JSON in this exact format:
-{
-  "featureName": string | null,  // e.g., "Authentication", "Payment Gateway", "User Dashboard"
-  "description": string | null,  // Brief description of the feature
-  "isNewFeature": boolean,       // true if this is a new feature being started
-  "confidence": number           // 0-1 confidence score
-}
-
-Rules:
-- featureName should be a concise, project-level feature name (e.g., "Auth", "Payments", "Dashboard")
-- Only extract if confidence >= 0.7
-- If unclear, return null for featureName
-- DO NOT wrap in markdown or code blocks`;
-
-            const userPrompt = `EVENT TYPE: ${rawEvent.eventType}
-CONTENT: ${rawEvent.content || ''}
-${rawEvent.metadata?.title ? `TITLE: ${rawEvent.metadata.title}` : ''}
-${rawEvent.metadata?.description ? `DESCRIPTION: ${rawEvent.metadata.description}` : ''}
-
-Extract feature information if this event relates to a specific feature being worked on.`;
-
-            type FeatureDetection = {
-                featureName: string | null;
-                description: string | null;
-                isNewFeature: boolean;
-                confidence: number;
-            };
+            // Analyze RawEvent content to extract feature and task information
+            const prompt = await this.prompts.render(organizationId, 'detect_feature', {
+                eventType: rawEvent.eventType,
+                semanticIntent,
+                content: rawEvent.content || '',
+                titleBlock: rawEvent.metadata?.title ? `TITLE: ${rawEvent.metadata.title}` : '',
+                descriptionBlock: rawEvent.metadata?.description ? `DESCRIPTION: ${rawEvent.metadata.description}` : '',
+            });
 
-            const { result } = await this.executeLlmOperation<FeatureDetection>({
+            const { result } = await this.executeLlmOperation<WorkDetection>({
                 organizationId,
+                projectId: rawEvent.projectId,
                 operationType: 'FEATURE_DETECTION',
-                systemPrompt,
-                userPrompt,
-                maxTokens: 300,
+                prompt,
+                maxTokens: 400,
                 referenceId: rawEvent.id,
                 referenceType: 'raw_event',
                 returnType: 'json',
             });
 
-            // Only create feature if confidence is high and feature name exists
-            if (result.confidence >= 0.7 && result.featureName) {
-                // Check if feature already exists
-                const existingFeature = await this.databaseService.feature.findUnique({
-                    where: {
-                        projectId_name: {
-                            projectId,
-                            name: result.featureName,
-                        },
-                    },
-                });
-
-                let featureId: string;
-
-                if (existingFeature) {
-                    featureId = existingFeature.id;
-                } else if (result.isNewFeature) {
-                    // Create new feature
-                    const newFeature = await this.databaseService.feature.create({
-                        data: {
-                            projectId,
-                            name: result.featureName,
-                            description: result.description || null,
-                            autoDetected: true,
-                            autoDetectedByMemberId: rawEvent.authorMemberId || undefined,
-                            status: 'DISCOVERED',
-                        },
-                    });
-                    featureId = newFeature.id;
-                    this.logger.log(`Auto-detected new feature: ${result.featureName} for project ${projectId}`, LlmService.name);
-                } else {
-                    // Feature mentioned but not new, skip
-                    return;
-                }
-
-                // Link RawEvent to Feature via FeatureEvent
-                await this.databaseService.featureEvent.upsert({
-                    where: {
-                        featureId_rawEventId: {
-                            featureId,
-                            rawEventId: rawEvent.id,
-                        },
-                    },
-                    update: {
-                        relevance: result.confidence,
-                    },
-                    create: {
-                        featureId,
-                        rawEventId: rawEvent.id,
-                        relevance: result.confidence,
-                    },
-                });
-            }
+            await this.workDetection.handle(rawEvent, semanticIntent, result);
         } catch (error) {
             this.logger.error(`Feature detection failed for RawEvent ${rawEvent.id}: ${error.message}`, LlmService.name);
             // Don't throw - feature detection failure shouldn't block RawEvent processing
@@ -820,6 +962,7 @@ Extract feature information if this event relates to a specific feature being wo
                 this.databaseService.rawEvent.findMany({
                     where: {
                         projectId,
+                        deletedAt: null,
                         timestamp: { gte: periodStart, lte: periodEnd },
                     },
                     take: 100,
@@ -840,6 +983,7 @@ Extract feature information if this event relates to a specific feature being wo
                         events: {
                             where: {
                                 rawEvent: {
+                                    deletedAt: null,
                                     timestamp: { gte: periodStart, lte: periodEnd },
                                 },
                             },
@@ -851,6 +995,7 @@ Extract feature information if this event relates to a specific feature being wo
                     where: {
                         projectId,
                         createdAt: { gte: periodStart, lte: periodEnd },
+                        ...NOT_FROM_DELETED_EVENT,
                     },
                     take: 50,
             orderBy: { createdAt: 'desc' },
@@ -878,54 +1023,22 @@ Extract feature information if this event relates to a specific feature being wo
                 .slice(0, 20)
                 .join('\n---\n');
 
-            const systemPrompt = `You are generating a project status report.
-Analyze the project activity and provide a comprehensive summary.
-
-Return JSON in this exact format:
-{
-  "summary": string,  // 3-5 sentence summary of what's been done
-  "highlights": {
-    "completedFeatures": string[],
-    "mergedPRs": number,
-    "resolvedIssues": number,
-    "keyAchievements": string[]
-  },
-  "codeQuality": {
-    "issuesFound": number,
-    "improvements": string[],
-    "recommendations": string[]
-  },
-  "security": {
-    "concerns": string[],
-    "recommendations": string[],
-    "riskLevel": "LOW" | "MEDIUM" | "HIGH"
-  },
-  "insights": string  // 2-3 sentences of key insights or trends
-}
-
-Rules:
-- summary should be concise and actionable
-- highlights should focus on major accomplishments
-- insights should identify patterns or trends
-- DO NOT wrap in markdown or code blocks`;
-
-            const userPrompt = `PROJECT: ${project.name}
-PERIOD: ${periodStart.toISOString()} to ${periodEnd.toISOString()}
-
-ACTIVITY METRICS:
-- Commits: ${commits}
-- Pull Requests: ${pullRequests}
-- Issues: ${issues}
-- Messages: ${messages}
-- Tasks Completed: ${tasksCompleted} / ${tasksTotal}
-- Tasks In Progress: ${tasksInProgress}
-- Features Completed: ${featuresCompleted} / ${featuresTotal}
-- Features In Progress: ${featuresInProgress}
-
-RECENT EVENT SUMMARIES:
-${eventSummaries || 'No recent activity'}
-
-Generate a comprehensive project status report.`;
+            const prompt = await this.prompts.render(organizationId, 'project_report', {
+                projectName: project.name,
+                periodStart: periodStart.toISOString(),
+                periodEnd: periodEnd.toISOString(),
+                metrics: [
+                    `- Commits: ${commits}`,
+                    `- Pull Requests: ${pullRequests}`,
+                    `- Issues: ${issues}`,
+                    `- Messages: ${messages}`,
+                    `- Tasks Completed: ${tasksCompleted} / ${tasksTotal}`,
+                    `- Tasks In Progress: ${tasksInProgress}`,
+                    `- Features Completed: ${featuresCompleted} / ${featuresTotal}`,
+                    `- Features In Progress: ${featuresInProgress}`,
+                ].join('\n'),
+                eventSummaries: eventSummaries || 'No recent activity',
+            });
 
             type ProjectReportData = {
                 summary: string;
@@ -948,11 +1061,11 @@ Generate a comprehensive project status report.`;
                 insights: string;
             };
 
-            const { result, llmUsageId } = await this.executeLlmOperation<ProjectReportData>({
+            const { result, llmUsageId, model, promptVersion } = await this.executeLlmOperation<ProjectReportData>({
                 organizationId,
+                projectId,
                 operationType: 'PROJECT_REPORT',
-                systemPrompt,
-                userPrompt,
+                prompt,
                 maxTokens: 1200,
                 temperature: 0.5,
                 returnType: 'json',
@@ -972,7 +1085,8 @@ Generate a comprehensive project status report.`;
                     projectId,
                     type: outputType,
                     content: result.summary,
-                    model: this.defaultModel,
+                    model,
+                    promptVersion,
                     metadata: {
                         reportType,
                         insights: result.insights,
@@ -1065,39 +1179,17 @@ Generate a comprehensive project status report.`;
     async analyzeCodeQuality(
         organizationId: string,
         input: { files: { filename: string; patch?: string | null }[] },
-        referenceId?: string
+        referenceId?: string,
+        projectId?: string
     ): Promise<{
         score: number;
         summary: string;
         issues: Array<{ type: string; severity: 'low' | 'medium' | 'high'; description: string }>;
         suggestions: string[];
     }> {
-        const systemPrompt = `You are a senior code reviewer.
-
-Return JSON ONLY in this exact format:
-
-{
-  "score": number,
-  "summary": string,
-  "issues": [
-    {
-      "type": string,
-      "severity": "low" | "medium" | "high",
-      "description": string
-    }
-  ],
-  "suggestions": string[]
-}
-
-Rules:
-- score must be 0–100
-- issues may be empty
-- suggestions may be empty
-- DO NOT add markdown
-- DO NOT wrap in \`\`\``;
-
-        const userPrompt = `FILES CHANGED:
-${input.files.map((f) => `File: ${f.filename}\n${f.patch ?? 'Diff omitted'}`).join('\n\n')}`;
+        const prompt = await this.prompts.render(organizationId, 'code_quality', {
+            files: input.files.map((f) => `File: ${f.filename}\n${f.patch ?? 'Diff omitted'}`).join('\n\n'),
+        });
 
         type CodeQualityAnalysis = {
             score: number;
@@ -1108,9 +1200,9 @@ ${input.files.map((f) => `File: ${f.filename}\n${f.patch ?? 'Diff omitted'}`).jo
 
         const { result } = await this.executeLlmOperation<CodeQualityAnalysis>({
             organizationId,
+            projectId,
             operationType: 'CODE_QUALITY',
-            systemPrompt,
-            userPrompt,
+            prompt,
             maxTokens: 600,
             referenceId,
             referenceType: referenceId ? 'code_review' : undefined,
@@ -1126,38 +1218,17 @@ ${input.files.map((f) => `File: ${f.filename}\n${f.patch ?? 'Diff omitted'}`).jo
     async analyzeSecurityRisk(
         organizationId: string,
         input: { files: { filename: string; patch?: string | null }[] },
-        referenceId?: string
+        referenceId?: string,
+        projectId?: string
     ): Promise<{
         risk: 'none' | 'low' | 'medium' | 'high';
         summary: string;
         findings: Array<{ type: string; severity: 'low' | 'medium' | 'high'; file: string; description: string }>;
         canAutoFix: boolean;
     }> {
-        const systemPrompt = `You are a security-focused code reviewer.
-
-Return JSON ONLY in this format:
-
-{
-  "risk": "none" | "low" | "medium" | "high",
-  "summary": string,
-  "findings": [
-    {
-      "type": string,
-      "severity": "low" | "medium" | "high",
-      "file": string,
-      "description": string
-    }
-  ],
-  "canAutoFix": boolean
-}
-
-Rules:
-- If no issues, risk = "none" and findings = []
-- DO NOT include markdown
-- DO NOT wrap in \`\`\``;
-
-        const userPrompt = `CODE CHANGES:
-${input.files.map((f) => `File: ${f.filename}\n${f.patch ?? 'Diff omitted'}`).join('\n\n')}`;
+        const prompt = await this.prompts.render(organizationId, 'security_risk', {
+            files: input.files.map((f) => `File: ${f.filename}\n${f.patch ?? 'Diff omitted'}`).join('\n\n'),
+        });
 
         type SecurityAnalysis = {
             risk: 'none' | 'low' | 'medium' | 'high';
@@ -1168,9 +1239,9 @@ ${input.files.map((f) => `File: ${f.filename}\n${f.patch ?? 'Diff omitted'}`).jo
 
         const { result } = await this.executeLlmOperation<SecurityAnalysis>({
             organizationId,
+            projectId,
             operationType: 'SECURITY_ANALYSIS',
-            systemPrompt,
-            userPrompt,
+            prompt,
             maxTokens: 700,
             referenceId,
             referenceType: referenceId ? 'security_analysis' : undefined,
@@ -1186,25 +1257,19 @@ ${input.files.map((f) => `File: ${f.filename}\n${f.patch ?? 'Diff omitted'}`).jo
     async analyzeIssue(
         organizationId: string,
         input: { title: string; body?: string | null },
-        referenceId?: string
+        referenceId?: string,
+        projectId?: string
     ): Promise<string> {
-        const systemPrompt = `You are a debugging assistant.
-Analyze the issue and propose a fix.`;
-
-        const userPrompt = `ISSUE TITLE: ${input.title}
-
-ISSUE DESCRIPTION: ${input.body ?? 'No description'}
-
-Provide:
-1. Root cause hypothesis
-2. Suggested fix
-3. Risk level`;
+        const prompt = await this.prompts.render(organizationId, 'analyze_issue', {
+            title: input.title,
+            body: input.body ?? 'No description',
+        });
 
         const { result } = await this.executeLlmOperation<string>({
             organizationId,
+            projectId,
             operationType: 'DEBUG_FIX',
-            systemPrompt,
-            userPrompt,
+            prompt,
             maxTokens: 400,
             referenceId,
             referenceType: referenceId ? 'issue_analysis' : undefined,
@@ -1220,28 +1285,20 @@ Provide:
     async generateDebugFix(
         organizationId: string,
         input: { issueTitle?: string; issueBody?: string | null; recentDiffs?: string | null },
-        referenceId?: string
+        referenceId?: string,
+        projectId?: string
     ): Promise<string> {
-        const systemPrompt = `You are a senior backend engineer.
-Generate safe, production-ready fix suggestions.
-DO NOT auto-commit.`;
-
-        const userPrompt = `ISSUE:
-${input.issueTitle ?? ''}
-${input.issueBody ?? ''}
-
-RECENT CODE CHANGES:
-${input.recentDiffs ?? 'N/A'}
-
-Return:
-- Explanation
-- Improved code snippet`;
+        const prompt = await this.prompts.render(organizationId, 'debug_fix', {
+            issueTitle: input.issueTitle ?? '',
+            issueBody: input.issueBody ?? '',
+            recentDiffs: input.recentDiffs ?? 'N/A',
+        });
 
         const { result } = await this.executeLlmOperation<string>({
             organizationId,
+            projectId,
             operationType: 'DEBUG_FIX',
-            systemPrompt,
-            userPrompt,
+            prompt,
             temperature: 0.25,
             maxTokens: 700,
             referenceId,
@@ -1255,16 +1312,17 @@ Return:
     // ==================== Embedding Generation Methods ====================
 
     /**
-     * Generate embedding for content using OpenAI embeddings API
+     * Generate embedding for content with the org's embedding provider
      */
-    private async generateEmbedding(content: string, model: string = this.embeddingModel): Promise<number[]> {
+    private async generateEmbedding(llm: ResolvedLlm, content: string): Promise<number[]> {
         try {
-            const response = await this.openai.embeddings.create({
-                model,
-                input: content,
-            });
+            const { embedding } = await llm.provider.embed(content, llm.model);
 
-            return response.data[0]?.embedding || [];
+            if (embedding.length !== EMBEDDING_DIMENSIONS) {
+                throw new Error(`${llm.provider.name}/${llm.model} returned ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+            }
+
+            return embedding;
         } catch (error) {
             this.logger.error(`Failed to generate embedding: ${error.message}`, LlmService.name);
             throw new Error(`Embedding generation failed: ${error.message}`);
@@ -1305,9 +1363,9 @@ Return:
         vectorRef: string;
         llmOutputId?: string;
         contentChunkId?: string;
-        model?: string;
+        model: string;
     }): Promise<void> {
-        const { embeddingId, embedding, vectorRef, llmOutputId, contentChunkId, model = this.embeddingModel } = params;
+        const { embeddingId, embedding, vectorRef, llmOutputId, contentChunkId, model } = params;
 
         // Validate: exactly one of llmOutputId or contentChunkId must be provided
         if ((llmOutputId && contentChunkId) || (!llmOutputId && !contentChunkId)) {
@@ -1370,10 +1428,12 @@ Return:
             return;
         }
 
+        let hold: CreditHold | null = null;
+
         try {
             // Get RawEvent to ensure it exists
             const rawEvent = await this.databaseService.rawEvent.findUnique({
-                where: { id: rawEventId },
+                where: { id: rawEventId, deletedAt: null },
                 select: { id: true, projectId: true },
             });
 
@@ -1381,6 +1441,8 @@ Return:
                 throw new BadRequestException(`RawEvent ${rawEventId} not found`);
             }
 
+            const llm = await this.llmProviders.resolveEmbedding(organizationId);
+
             // Create LlmUsage record for embedding generation
             const llmUsage = await this.databaseService.llmUsage.create({
                 data: {
@@ -1388,7 +1450,8 @@ Return:
                     operationType: 'EMBEDDING',
                     creditsConsumed: new Decimal(0),
                     status: 'PENDING',
-                    model: this.embeddingModel,
+                    model: llm.model,
+                    projectId: rawEvent.projectId,
                     referenceId: rawEventId,
                     referenceType: 'raw_event',
                 },
@@ -1397,6 +1460,18 @@ Return:
             // Chunk content if too long
             const chunks = this.chunkContentForEmbedding(content);
 
+            const estimatedCredits = await this.estimateEmbeddingCredits(llm, chunks);
+            await this.budgets.enforce({
+                organizationId,
+                projectId: rawEvent.projectId,
+                operationType: 'EMBEDDING',
+                estimate: estimatedCredits,
+            });
+            hold = await this.reserveCredits(
+                { organizationId, projectId: rawEvent.projectId, operationType: 'EMBEDDING', estimate: estimatedCredits },
+                llmUsage.id
+            );
+
             // Get or create LlmOutput for this rawEvent
             const llmOutput = await this.databaseService.llmOutput.findFirst({
                 where: { rawEventId },
@@ -1405,11 +1480,11 @@ Return:
 
             for (let i = 0; i < chunks.length; i++) {
                 const chunk = chunks[i];
-                const embedding = await this.generateEmbedding(chunk, this.embeddingModel);
+                const embedding = await this.generateEmbedding(llm, chunk);
 
                 // Calculate credits for embedding (only input tokens)
                 const estimatedTokens = Math.ceil(chunk.length / 4);
-                const credits = this.calculateCredits(this.embeddingModel, estimatedTokens, 0);
+                const credits = this.calculateCredits(llm, estimatedTokens, 0);
 
                 // Create content chunk (ContentChunk requires rawEventId)
                 let contentChunkId: string | undefined;
@@ -1439,7 +1514,7 @@ Return:
                     vectorRef,
                     llmOutputId: chunks.length === 1 && llmOutput ? llmOutput.id : undefined,
                     contentChunkId: contentChunkId || undefined,
-                    model: this.embeddingModel,
+                    model: llm.model,
                 });
 
                 // Update credits consumed
@@ -1454,19 +1529,16 @@ Return:
                 });
             }
 
-            // Deduct credits atomically
+            // Settle the hold to the credits actually consumed
             const updatedUsage = await this.databaseService.llmUsage.findUnique({
                 where: { id: llmUsage.id },
                 select: { creditsConsumed: true },
             });
-
-            // Skip credit deduction in development mode
-            if (updatedUsage && updatedUsage.creditsConsumed.gt(0) && !shouldSkipCreditChecks()) {
-                await this.deductCreditsAtomically(organizationId, updatedUsage.creditsConsumed, llmUsage.id);
-            }
+            await this.credits.settle(hold, new Decimal(updatedUsage?.creditsConsumed.toString() ?? 0));
 
             this.logger.log(`Generated embeddings for RawEvent ${rawEventId} (${chunks.length} chunks)`, LlmService.name);
         } catch (error) {
+            await this.credits.release(hold, error.message || 'failed');
             this.logger.error(`Failed to generate embedding for RawEvent ${rawEventId}: ${error.message}`, LlmService.name);
             // Don't throw - embedding failure shouldn't block RawEvent processing
         }
@@ -1501,15 +1573,7 @@ Return:
             throw new BadRequestException(`Organization mismatch for LlmOutput ${llmOutputId}`);
         }
 
-        // Check credits (skip in development mode)
-        const estimatedTokens = Math.ceil(content.length / 4);
-        const estimatedCredits = this.calculateCredits(this.embeddingModel, estimatedTokens, 0);
-        if (!shouldSkipCreditChecks()) {
-            const hasCredits = await this.checkCreditBalance(actualOrganizationId, estimatedCredits);
-            if (!hasCredits) {
-                throw new BadRequestException('Insufficient credits for embedding generation');
-            }
-        }
+        const llm = await this.llmProviders.resolveEmbedding(actualOrganizationId);
 
         // Create LlmUsage record
         const llmUsage = await this.databaseService.llmUsage.create({
@@ -1518,23 +1582,38 @@ Return:
                 operationType: 'EMBEDDING',
                 creditsConsumed: new Decimal(0),
                 status: 'PENDING',
-                model: this.embeddingModel,
+                model: llm.model,
+                projectId: llmOutput.projectId,
                 referenceId: llmOutputId,
                 referenceType: 'llm_output',
             },
         });
 
+        let hold: CreditHold | null = null;
+
         try {
             // Chunk and generate embeddings
             const chunks = this.chunkContentForEmbedding(content);
             let firstEmbeddingId: string | undefined;
 
+            const estimatedCredits = await this.estimateEmbeddingCredits(llm, chunks);
+            await this.budgets.enforce({
+                organizationId: actualOrganizationId,
+                projectId: llmOutput.projectId,
+                operationType: 'EMBEDDING',
+                estimate: estimatedCredits,
+            });
+            hold = await this.reserveCredits(
+                { organizationId: actualOrganizationId, projectId: llmOutput.projectId, operationType: 'EMBEDDING', estimate: estimatedCredits },
+                llmUsage.id
+            );
+
             for (let i = 0; i < chunks.length; i++) {
                 const chunk = chunks[i];
-                const embedding = await this.generateEmbedding(chunk, this.embeddingModel);
+                const embedding = await this.generateEmbedding(llm, chunk);
 
                 const tokens = Math.ceil(chunk.length / 4);
-                const credits = this.calculateCredits(this.embeddingModel, tokens, 0);
+                const credits = this.calculateCredits(llm, tokens, 0);
 
                 const embeddingId = `${llmOutputId}-embedding-${i}`;
                 const vectorRef = `llm_output_${llmOutputId}_chunk_${i}`;
@@ -1546,7 +1625,7 @@ Return:
                     embedding,
                     vectorRef,
                     llmOutputId,
-                    model: this.embeddingModel,
+                    model: llm.model,
                 });
 
                 // Update credits
@@ -1561,19 +1640,16 @@ Return:
                 });
             }
 
-            // Deduct credits
+            // Settle the hold to the credits actually consumed
             const totalCredits = await this.databaseService.llmUsage.findUnique({
                 where: { id: llmUsage.id },
                 select: { creditsConsumed: true },
             });
-
-            // Skip credit deduction in development mode
-            if (totalCredits && totalCredits.creditsConsumed.gt(0) && !shouldSkipCreditChecks()) {
-                await this.deductCreditsAtomically(actualOrganizationId, totalCredits.creditsConsumed, llmUsage.id);
-            }
+            await this.credits.settle(hold, new Decimal(totalCredits?.creditsConsumed.toString() ?? 0));
 
             return firstEmbeddingId || llmUsage.id;
         } catch (error) {
+            await this.credits.release(hold, error.message || 'failed');
             await this.databaseService.llmUsage.update({
                 where: { id: llmUsage.id },
                 data: {
@@ -1587,92 +1663,18 @@ Return:
 
     // ==================== RAG Chatbot Methods ====================
 
-    /**
-     * Search similar content using pgvector cosine similarity
-     * Uses Prisma's $queryRawUnsafe for pgvector operations (vector type not natively supported)
-     */
-    private async searchSimilarContent(
-        queryEmbedding: number[],
-        projectId: string,
-        limit: number = 5,
-        threshold: number = 0.7
-    ): Promise<Array<{ embeddingId: string; llmOutputId?: string; contentChunkId?: string; similarity: number; content: string }>> {
-        try {
-            // Convert embedding array to PostgreSQL vector format string
-            const vectorStr = `[${queryEmbedding.join(',')}]`;
-
-            // Query pgvector for similar embeddings using cosine similarity (<=> operator)
-            // Note: This assumes the Embedding table has a vector column added via migration
-            // Use $queryRawUnsafe because Prisma.sql doesn't support dynamic vector type casting
-            // Prisma's connection pool handles the query efficiently
-            const result = await this.databaseService.$queryRawUnsafe<Array<{
-                embeddingId: string;
-                llmOutputId: string | null;
-                contentChunkId: string | null;
-                similarity: number;
-                content: string | null;
-            }>>(
-                `
-                SELECT 
-                    e.id as "embeddingId",
-                    e."llmOutputId",
-                    e."contentChunkId",
-                    1 - (e.vector <=> $1::vector) as similarity,
-                    CASE
-                        WHEN e."llmOutputId" IS NOT NULL THEN lo.content
-                        WHEN e."contentChunkId" IS NOT NULL THEN cc.content
-                        ELSE ''
-                    END as content
-                FROM "Embedding" e
-                LEFT JOIN "LlmOutput" lo ON e."llmOutputId" = lo.id
-                LEFT JOIN "ContentChunk" cc ON e."contentChunkId" = cc.id
-                WHERE lo."projectId" = $2
-                   OR (cc."rawEventId" IS NOT NULL AND EXISTS (
-                       SELECT 1 FROM "RawEvent" re 
-                       WHERE re.id = cc."rawEventId" AND re."projectId" = $2
-                   ))
-                ORDER BY e.vector <=> $1::vector
-                LIMIT $3
-                `,
-                vectorStr,
-                projectId,
-                limit
-            );
-
-            return result
-                .filter((row) => row.similarity >= threshold)
-                .map((row) => ({
-                    embeddingId: row.embeddingId,
-                    llmOutputId: row.llmOutputId || undefined,
-                    contentChunkId: row.contentChunkId || undefined,
-                    similarity: typeof row.similarity === 'string' ? parseFloat(row.similarity) : row.similarity,
-                    content: row.content || '',
-                }));
-        } catch (error) {
-            // Fallback to keyword search if pgvector query fails
-            this.logger.warn(`Vector search failed: ${error.message}. Falling back to keyword search.`, LlmService.name);
-            
-            // Fallback: Get recent LlmOutputs
-            const llmOutputs = await this.databaseService.llmOutput.findMany({
-                where: { projectId },
-                orderBy: { createdAt: 'desc' },
-                take: limit,
-                select: { id: true, content: true },
-            });
-
-            return llmOutputs.map((output, index) => ({
-                embeddingId: `${output.id}-fallback`,
-                llmOutputId: output.id,
-                similarity: 0.8 - index * 0.1, // Decreasing similarity
-                content: output.content,
-            }));
-        }
-    }
-
     /**
      * Chat method - RAG-based chatbot with vector similarity search
      * Supports project-scoped, org-scoped, task team, and direct conversations
+     * Org-scoped conversations search every project the asking user can view and label each source with its project
      * Note: User message is created by the controller before calling this method
+     * The answer is streamed through onDelta when given. Aborting signal stops the generation; the partial
+     * answer is still saved (metadata.cancelled) and returned with cancelled: true.
+     * Inline [n] markers that do not match a retrieved source are stripped; every source comes back as a
+     * resolved citation (provider, author, deep link, quote) and is stored as a ChatMessageSource.
+     * History comes from the conversation's rolling summary (see refreshConversationSummary) plus the newer messages.
+     * With useTools the model may also call read-only tools (tasks, features, activity, credits) that the user
+     * has permission for; the calls are recorded in the message metadata (see answerWithTools).
      */
     async chat(params: {
         conversationId: string;
@@ -1681,12 +1683,16 @@ Return:
         projectId?: string;
         organizationId?: string;
         userMessageId?: string; // Optional: ID of already-created user message
+        useTools?: boolean;
+        onDelta?: LlmDeltaHandler;
+        signal?: AbortSignal;
     }): Promise<{
         answer: string;
         chatMessageId: string;
-        sources: Array<{ llmOutputId?: string; rawEventId?: string; relevanceScore: number }>;
+        cancelled: boolean;
+        citations: Citation[];
     }> {
-        const { conversationId, question, userId, projectId, organizationId, userMessageId } = params;
+        const { conversationId, question, userId, projectId, organizationId, userMessageId, useTools = false, onDelta, signal } = params;
 
         // Get conversation to determine scope
         const conversation = await this.databaseService.conversation.findUnique({
@@ -1728,51 +1734,85 @@ Return:
             throw new BadRequestException('Project mismatch');
         }
 
-        // If no project but we need one for RAG, we can't proceed
-        if (!actualProjectId) {
-            throw new BadRequestException('RAG chat requires a project context');
+        // Org conversations search every project of the org the asking user can view
+        const scopeProjects = actualProjectId
+            ? null
+            : await this.authorizationService.getViewableProjects(userId, actualOrganizationId);
+        if (scopeProjects && scopeProjects.length === 0) {
+            throw new ForbiddenException('No projects in this organization are visible to you');
         }
+        const projectIds = scopeProjects ? scopeProjects.map((p) => p.id) : [actualProjectId!];
+        const projectNames = new Map(scopeProjects?.map((p) => [p.id, p.name]));
 
         try {
             // 1. Get project info for context
-            const project = await this.databaseService.project.findUnique({
-                where: { id: actualProjectId },
-                include: {
-                    integrations: {
-                        include: {
-                            integration: true,
+            const project = actualProjectId
+                ? await this.databaseService.project.findUnique({
+                    where: { id: actualProjectId },
+                    include: {
+                        integrations: {
+                            include: {
+                                integration: true,
+                            },
                         },
                     },
-                },
-            });
-
-            // 2. Try to generate embedding and search for similar content
-            let similarContent: Array<{ embeddingId: string; llmOutputId?: string; contentChunkId?: string; similarity: number; content: string }> = [];
+                })
+                : null;
+
+            // 2. Conversation memory: the rolling summary plus the messages it does not cover yet. Follow-up
+            // questions are rewritten into standalone queries so retrieval does not depend on earlier turns
+            const conversationHistory = await this.getConversationHistory(conversation, userMessageId);
+            const retrievalQuery = conversationHistory
+                ? await this.rewriteQuestion({
+                    organizationId: actualOrganizationId,
+                    projectId: actualProjectId,
+                    conversationId,
+                    conversationHistory,
+                    question,
+                })
+                : question;
+
+            // 3. Hybrid retrieval (vector + full-text, filtered by what the question implies); text search still
+            // runs when the question cannot be embedded
+            let questionEmbedding: number[] | null = null;
             try {
-                const questionEmbedding = await this.generateEmbedding(question, this.embeddingModel);
-                similarContent = await this.searchSimilarContent(questionEmbedding, actualProjectId, 10, 0.5);
+                const embeddingLlm = await this.llmProviders.resolveEmbedding(actualOrganizationId);
+                questionEmbedding = await this.generateEmbedding(embeddingLlm, retrievalQuery);
             } catch (embeddingError) {
-                this.logger.warn(`Embedding search failed: ${embeddingError.message}. Using fallback context.`, LlmService.name);
+                this.logger.warn(`Question embedding failed: ${embeddingError.message}. Using text search only.`, LlmService.name);
             }
 
-            // 3. Build context - use embeddings if available, otherwise fetch recent data directly
+            const { sources: similarContent, filters: retrievalFilters } = await this.retrieval.retrieve({
+                organizationId: actualOrganizationId,
+                projectIds,
+                question: retrievalQuery,
+                queryEmbedding: questionEmbedding,
+                userId,
+                limit: 10,
+            });
+
+            // 4. Build context - use embeddings if available, otherwise fetch recent data directly
             let context = '';
             
+            // In org chats every source is labelled with its project so the answer can cite it
+            const projectLabel = (id: string | null) => (scopeProjects ? `[Project: ${projectNames.get(id ?? '') ?? 'Unknown'}] ` : '');
+
             if (similarContent.length > 0) {
                 context = similarContent
-                    .map((item, index) => `[Source ${index + 1}] ${item.content}`)
+                    .map((item, index) => `[Source ${index + 1}] ${projectLabel(item.projectId)}${item.content}`)
                     .join('\n\n---\n\n');
             } else {
                 // Fallback: Fetch recent RawEvents and LlmOutputs directly
-                this.logger.log(`No embeddings found for project ${actualProjectId}. Using fallback context from RawEvents.`, LlmService.name);
+                this.logger.log(`No embeddings found for ${scopeProjects ? `organization ${actualOrganizationId}` : `project ${actualProjectId}`}. Using fallback context from RawEvents.`, LlmService.name);
 
                 const [recentRawEvents, recentLlmOutputs] = await Promise.all([
                     this.databaseService.rawEvent.findMany({
-                        where: { projectId: actualProjectId },
+                        where: { projectId: { in: projectIds }, deletedAt: null },
                         orderBy: { timestamp: 'desc' },
                         take: 20,
                         select: {
                             id: true,
+                            projectId: true,
                             eventType: true,
                             content: true,
                             authorName: true,
@@ -1781,11 +1821,12 @@ Return:
                         },
                     }),
                     this.databaseService.llmOutput.findMany({
-                        where: { projectId: actualProjectId },
+                        where: { projectId: { in: projectIds }, ...NOT_FROM_DELETED_EVENT },
                         orderBy: { createdAt: 'desc' },
                         take: 10,
                         select: {
                             id: true,
+                            projectId: true,
                             type: true,
                             content: true,
                             createdAt: true,
@@ -1805,7 +1846,7 @@ Return:
                         } else if (event.eventType === 'ISSUE') {
                             summary = `Issue: ${metadata?.title || event.content || 'No title'} - ${metadata?.action || 'updated'}`;
                         }
-                        return `[Event ${i + 1}] ${event.eventType} (${new Date(event.timestamp).toLocaleDateString()}): ${summary}`;
+                        return `[Event ${i + 1}] ${projectLabel(event.projectId)}${event.eventType} (${new Date(event.timestamp).toLocaleDateString()}): ${summary}`;
                     }).join('\n');
                     context += `RECENT PROJECT ACTIVITY:\n${eventContext}\n\n`;
                 }
@@ -1815,7 +1856,7 @@ Return:
                     const summaryContext = recentLlmOutputs
                         .filter(o => o.type === 'SUMMARY')
                         .slice(0, 5)
-                        .map((o, i) => `[Summary ${i + 1}] ${o.content}`)
+                        .map((o, i) => `[Summary ${i + 1}] ${projectLabel(o.projectId)}${o.content}`)
                         .join('\n');
                     if (summaryContext) {
                         context += `AI-GENERATED SUMMARIES:\n${summaryContext}\n\n`;
@@ -1824,105 +1865,134 @@ Return:
 
                 // If still no context, add project info
                 if (!context) {
-                    context = 'No recent activity data available for this project yet.';
+                    context = `No recent activity data available for ${scopeProjects ? 'these projects' : 'this project'} yet.`;
                 }
             }
 
-            // Add project metadata to context
-            const projectInfo = `PROJECT: ${project?.name || 'Unknown'}
-INTEGRATIONS: ${project?.integrations?.map(ic => ic.integration.type).join(', ') || 'None'}`;
-
-            // 4. Get recent conversation history (last 10 messages for context)
-            const recentMessages = await this.databaseService.chatMessage.findMany({
-                where: { conversationId },
-                orderBy: { createdAt: 'desc' },
-                take: 10,
-                select: { role: true, content: true },
-            });
-
-            const conversationHistory = recentMessages
-                .reverse()
-                .map((msg) => `${msg.role}: ${msg.content}`)
-                .join('\n')
-                .slice(0, 2000);
-
-            // 5. Generate answer using LLM with RAG context
-            const systemPrompt = `You are a helpful AI assistant answering questions about a software project.
-You have access to the project's recent activity including commits, pull requests, issues, and AI-generated summaries.
-Use the provided context to answer accurately. Cite specific events or sources when relevant.
-If specific information isn't available, summarize what you know about the project's recent activity.
-Keep answers concise and actionable.`;
-
-            const userPrompt = `${projectInfo}
-
-CONVERSATION HISTORY:
-${conversationHistory}
-
-PROJECT CONTEXT:
-${context.slice(0, 4000)}
-
-USER QUESTION: ${question}
-
-Provide a helpful answer based on the available project context.`;
+            // 5. Generate answer using LLM with RAG context, letting the model call the tools the user may use
+            const tools = useTools ? await this.chatTools.getTools(userId, actualOrganizationId) : [];
+            const orgInfo = scopeProjects
+                ? `ORGANIZATION: ${conversation.organization?.name || 'Unknown'}
+PROJECTS: ${scopeProjects.map((p) => p.name).join(', ')}`
+                : '';
+            const projectInfo = project
+                ? `PROJECT: ${project.name}
+INTEGRATIONS: ${project.integrations?.map(ic => ic.integration.type).join(', ') || 'None'}`
+                : 'PROJECT: Unknown';
+
+            const prompt = tools.length > 0
+                ? await this.prompts.render(actualOrganizationId, 'rag_chat_tools', {
+                    scopeInfo: scopeProjects ? orgInfo : projectInfo,
+                    conversationHistory,
+                    context: context.slice(0, scopeProjects ? 6000 : 4000),
+                    question,
+                })
+                : scopeProjects
+                    ? await this.prompts.render(actualOrganizationId, 'rag_chat_org', {
+                        orgInfo,
+                        conversationHistory,
+                        context: context.slice(0, 6000),
+                        question,
+                    })
+                    : await this.prompts.render(actualOrganizationId, 'rag_chat', {
+                        projectInfo,
+                        conversationHistory,
+                        context: context.slice(0, 4000),
+                        question,
+                    });
 
-            const { result: answer } = await this.executeLlmOperation<string>({
+            const operation = {
                 organizationId: actualOrganizationId,
-                operationType: 'CHAT_ANSWER',
-                systemPrompt,
-                userPrompt,
+                projectId: actualProjectId,
+                operationType: 'CHAT_ANSWER' as const,
+                prompt,
                 maxTokens: 800,
                 temperature: 0.7,
                 referenceId: conversationId,
                 referenceType: 'conversation',
-                returnType: 'text',
+                returnType: 'text' as const,
+                cache: false, // a repeated question should get a fresh answer
+                onDelta,
+                signal,
+            };
+
+            let answer: string;
+            let model: string;
+            let cancelled = false;
+            const toolCalls: ChatToolCallRecord[] = [];
+            const sourceProjectNames = scopeProjects ? projectNames : new Map<string, string>(project ? [[project.id, project.name]] : []);
+            try {
+                if (tools.length > 0) {
+                    ({ answer, model } = await this.answerWithTools(operation, tools, toolCalls, {
+                        userId,
+                        organizationId: actualOrganizationId,
+                        scope: scopeProjects ? 'organization' : 'project',
+                        projectIds,
+                        projectNames: sourceProjectNames,
+                    }));
+                } else {
+                    ({ result: answer, model } = await this.executeLlmOperation<string>(operation));
+                }
+            } catch (error) {
+                if (!(error instanceof LlmGenerationCancelledError)) throw error;
+                answer = error.partial.content;
+                model = error.partial.model;
+                cancelled = true;
+            }
+
+            // 6. Check the inline [n] markers against the retrieved sources and resolve the citations
+            const markers = validateCitationMarkers(answer, similarContent.length);
+            if (markers.invalid.length > 0) {
+                this.logger.warn(
+                    `Removed citations [${markers.invalid.join(', ')}] with no matching source from the answer in conversation ${conversationId}`,
+                    LlmService.name
+                );
+            }
+            answer = markers.answer;
+
+            const citations = await this.citations.resolve(similarContent, {
+                projectNames: sourceProjectNames,
+                cited: markers.cited,
             });
 
-            // 6. Create assistant message
+            // 7. Create assistant message
             const assistantMessage = await this.databaseService.chatMessage.create({
                 data: {
                     conversationId,
                     role: 'ASSISTANT',
                 content: answer,
                     metadata: {
-                        model: this.defaultModel,
+                        model,
+                        promptVersion: prompt.version,
                         sourcesCount: similarContent.length,
+                        ...(retrievalQuery !== question && { retrievalQuery }),
+                        citedSources: markers.cited,
+                        ...(markers.invalid.length > 0 && { invalidCitations: markers.invalid }),
+                        ...(tools.length > 0 && { mode: 'tools', toolCalls: toolCalls as unknown as Prisma.InputJsonArray }),
+                        ...(scopeProjects && {
+                            scope: 'organization',
+                            sourceProjects: similarContent.map((item, index) => ({
+                                source: index + 1,
+                                projectId: item.projectId,
+                                projectName: projectNames.get(item.projectId) ?? null,
+                            })),
+                        }),
+                        ...(hasRetrievalFilters(retrievalFilters) && {
+                            retrievalFilters: {
+                                ...retrievalFilters,
+                                since: retrievalFilters.since?.toISOString(),
+                                until: retrievalFilters.until?.toISOString(),
+                            },
+                        }),
+                        ...(cancelled && { cancelled: true }),
                     },
             },
         });
 
-            // 7. Create source references (ChatMessageSource)
-            const sourcePromises: Promise<any>[] = [];
-            
-            for (const item of similarContent) {
-                let rawEventId: string | undefined;
-                
-                // Get rawEventId from ContentChunk if available
-                if (item.contentChunkId) {
-                    const contentChunk = await this.databaseService.contentChunk.findUnique({
-                        where: { id: item.contentChunkId },
-                        select: { rawEventId: true },
-                    });
-                    rawEventId = contentChunk?.rawEventId || undefined;
-                }
-
-                // Create source reference (prefer llmOutputId, fallback to rawEventId)
-                if (item.llmOutputId || rawEventId) {
-                    sourcePromises.push(
-                        this.databaseService.chatMessageSource.create({
-                            data: {
-                                chatMessageId: assistantMessage.id,
-                                llmOutputId: item.llmOutputId || undefined,
-                                rawEventId: rawEventId || undefined,
-                                relevanceScore: item.similarity,
-                            },
-                        })
-                    );
-                }
-            }
-
-            await Promise.all(sourcePromises);
+            // 8. Store the citations (ChatMessageSource)
+            await this.citations.persist(assistantMessage.id, citations);
 
-            // 8. Update conversation timestamp
+            // 9. Update conversation timestamp
             await this.databaseService.conversation.update({
                 where: { id: conversationId },
                 data: { updatedAt: new Date() },
@@ -1931,19 +2001,228 @@ Provide a helpful answer based on the available project context.`;
             // Note: Chat message embeddings are not stored as they're conversation-specific
             // Future: Could implement chat message indexing for search within conversations
 
-            this.logger.log(`Chat response generated for conversation ${conversationId}`, LlmService.name);
+            this.logger.log(
+                `Chat response ${cancelled ? 'cancelled' : 'generated'} for conversation ${conversationId}`,
+                LlmService.name
+            );
 
             return {
                 answer,
                 chatMessageId: assistantMessage.id,
-                sources: similarContent.map((item) => ({
-                    llmOutputId: item.llmOutputId,
-                    relevanceScore: item.similarity,
-                })),
+                cancelled,
+                citations,
             };
         } catch (error) {
             this.logger.error(`Chat failed for conversation ${conversationId}: ${error.message}`, LlmService.name);
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Tool-calling answer for chat(): up to chatToolRounds non-streamed completions in which the model may call
+     * the read-only chat tools, each call checked against the asker's permissions and the chat's projects. A
+     * round without tool calls is the answer and is emitted through onDelta in one piece; when the rounds run
+     * out the answer is streamed with tools disabled. Executed calls are appended to `toolCalls` as they run,
+     * so a cancelled answer still records them.
+     */
+    private async answerWithTools(
+        operation: Parameters<LlmService['executeLlmOperation']>[0],
+        tools: LlmToolDefinition[],
+        toolCalls: ChatToolCallRecord[],
+        context: ChatToolContext,
+    ): Promise<{ answer: string; model: string }> {
+        const followUp: LlmMessage[] = [];
+
+        for (let round = 0; round < this.chatToolRounds; round++) {
+            const { result, model, toolCalls: requested } = await this.executeLlmOperation<string>({
+                ...operation,
+                followUp: [...followUp],
+                tools,
+                toolChoice: 'auto',
+                onDelta: undefined,
+            });
+
+            if (!requested?.length) {
+                if (result) operation.onDelta?.(result);
+                return { answer: result, model };
+            }
+
+            const calls = requested.slice(0, this.chatToolCallsPerRound);
+            followUp.push({ role: 'assistant', content: result, toolCalls: calls });
+
+            for (const call of calls) {
+                const startedAt = Date.now();
+                const outcome = await this.chatTools.execute(call, context);
+
+                toolCalls.push({
+                    id: call.id,
+                    name: call.name,
+                    arguments: call.arguments,
+                    ok: outcome.ok,
+                    ...(outcome.error && { error: outcome.error }),
+                    durationMs: Date.now() - startedAt,
+                });
+                followUp.push({ role: 'tool', content: outcome.content, toolCallId: call.id });
+            }
+        }
+
+        this.logger.log(`Chat used all ${this.chatToolRounds} tool rounds; answering without tools`, LlmService.name);
+        const { result, model } = await this.executeLlmOperation<string>({
+            ...operation,
+            followUp,
+            tools,
+            toolChoice: 'none',
+        });
+        return { answer: result, model };
+    }
+
+    /**
+     * Folds the older messages of a long conversation into its rolling summary once chatSummaryInterval
+     * messages have piled up past it; the newest chatRecentMessages stay verbatim. Returns whether the summary changed.
+     */
+    async refreshConversationSummary(conversationId: string): Promise<boolean> {
+        const conversation = await this.databaseService.conversation.findUnique({
+            where: { id: conversationId },
+            select: {
+                summary: true,
+                summaryThrough: true,
+                projectId: true,
+                organizationId: true,
+                project: { select: { organizationId: true } },
+                task: { select: { project: { select: { id: true, organizationId: true } } } },
+            },
+        });
+
+        const organizationId =
+            conversation?.project?.organizationId ?? conversation?.organizationId ?? conversation?.task?.project?.organizationId;
+        if (!conversation || !organizationId) {
+            return false;
+        }
+
+        const pending = await this.databaseService.chatMessage.findMany({
+            where: {
+                conversationId,
+                ...(conversation.summaryThrough && { createdAt: { gt: conversation.summaryThrough } }),
+            },
+            orderBy: { createdAt: 'asc' },
+            select: { role: true, content: true, createdAt: true },
+        });
+        if (pending.length < this.chatSummaryInterval + this.chatRecentMessages) {
+            return false;
+        }
+
+        const folded = pending.slice(0, pending.length - this.chatRecentMessages);
+        const prompt = await this.prompts.render(organizationId, 'conversation_summary', {
+            previousSummary: conversation.summary || 'None',
+            messages: folded
+                .map((msg) => `${msg.role}: ${msg.content.slice(0, 1000)}`)
+                .join('\n')
+                .slice(-8000),
+        });
+
+        const { result: summary } = await this.executeLlmOperation<string>({
+            organizationId,
+            projectId: conversation.projectId ?? conversation.task?.project?.id,
+            operationType: 'CONVERSATION_SUMMARY',
+            prompt,
+            maxTokens: 400,
+            temperature: 0.2,
+            referenceId: conversationId,
+            referenceType: 'conversation',
+            returnType: 'text',
+            cache: false,
+        });
+
+        // Only if no other job summarized the same messages meanwhile
+        const { count } = await this.databaseService.conversation.updateMany({
+            where: { id: conversationId, summaryThrough: conversation.summaryThrough },
+            data: {
+                summary: summary.trim(),
+                summaryThrough: folded[folded.length - 1].createdAt,
+                summaryMessageCount: { increment: folded.length },
+                summaryUpdatedAt: new Date(),
+            },
+        });
+
+        if (count > 0) {
+            this.logger.log(`Folded ${folded.length} messages into the summary of conversation ${conversationId}`, LlmService.name);
+        }
+        return count > 0;
+    }
+
+    /**
+     * Chat history for prompts: the conversation summary, then the messages after it (newest kept when too long).
+     * Empty for the first question of a conversation.
+     */
+    private async getConversationHistory(
+        conversation: { id: string; summary: string | null; summaryThrough: Date | null },
+        currentMessageId?: string
+    ): Promise<string> {
+        const recentMessages = await this.databaseService.chatMessage.findMany({
+            where: {
+                conversationId: conversation.id,
+                ...(conversation.summaryThrough && { createdAt: { gt: conversation.summaryThrough } }),
+                ...(currentMessageId && { id: { not: currentMessageId } }),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: this.chatSummaryInterval + this.chatRecentMessages,
+            select: { role: true, content: true },
+        });
+
+        const lines: string[] = [];
+        let length = 0;
+        for (const msg of recentMessages) {
+            const line = `${msg.role}: ${msg.content}`.slice(0, this.chatHistoryMaxChars);
+            if (lines.length > 0 && length + line.length > this.chatHistoryMaxChars) break;
+            lines.unshift(line);
+            length += line.length + 1;
+        }
+        const recent = lines.join('\n');
+
+        if (!conversation.summary) {
+            return recent;
+        }
+        return `SUMMARY OF EARLIER MESSAGES:\n${conversation.summary}${recent ? `\n\nRECENT MESSAGES:\n${recent}` : ''}`;
+    }
+
+    /**
+     * Standalone version of a follow-up question for retrieval ("and what about the API?" becomes a question
+     * naming what "that" refers to). Falls back to the question as asked when rewriting fails.
+     */
+    private async rewriteQuestion(params: {
+        organizationId: string;
+        projectId?: string;
+        conversationId: string;
+        conversationHistory: string;
+        question: string;
+    }): Promise<string> {
+        const { organizationId, projectId, conversationId, conversationHistory, question } = params;
+
+        try {
+            const prompt = await this.prompts.render(organizationId, 'rewrite_query', { conversationHistory, question });
+            const { result } = await this.executeLlmOperation<string>({
+                organizationId,
+                projectId,
+                operationType: 'QUERY_REWRITE',
+                prompt,
+                maxTokens: 120,
+                temperature: 0,
+                referenceId: conversationId,
+                referenceType: 'conversation',
+                returnType: 'text',
+            });
+
+            const rewritten = (result.trim().split('\n')[0] || '')
+                .replace(/^standalone question:\s*/i, '')
+                .replace(/^["'\s]+|["'\s]+$/g, '')
+                .slice(0, 500);
+            return rewritten || question;
+        } catch (error) {
+            this.logger.warn(
+                `Query rewrite failed for conversation ${conversationId}: ${error.message}. Retrieving with the question as asked.`,
+                LlmService.name
+            );
+            return question;
+        }
+    }
+}
@@ -0,0 +1,38 @@
+import { Body, Controller, Delete, Get, Param, Put, UseGuards } from '@nestjs/common';
+import { AuthGuard, getUser } from '../auth/guards/auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { RequirePermission } from '../auth/decorator/permission.decorator';
+import { PermissionName } from 'generated/prisma/enums';
+import { PromptRegistry } from './prompts/prompt-registry.service';
+import { PromptId } from './prompts/prompt.types';
+import { UpdatePromptOverrideDto } from './dto/update-prompt-override.dto';
+
+@Controller('orgs/:orgId/prompts')
+@UseGuards(AuthGuard, PermissionGuard)
+export class PromptsController {
+    constructor(private readonly prompts: PromptRegistry) { }
+
+    @Get()
+    @RequirePermission(PermissionName.MANAGE_ORG)
+    async listPrompts(@Param('orgId') orgId: string) {
+        const data = await this.prompts.listTemplates(orgId);
+        return { success: true, count: data.length, data };
+    }
+
+    @Put(':promptId')
+    @RequirePermission(PermissionName.MANAGE_ORG)
+    async upsertOverride(
+        @Param('orgId') orgId: string,
+        @Param('promptId') promptId: PromptId,
+        @Body() dto: UpdatePromptOverrideDto,
+        @getUser('id') userId: string,
+    ) {
+        return this.prompts.upsertOverride(orgId, promptId, dto, userId);
+    }
+
+    @Delete(':promptId')
+    @RequirePermission(PermissionName.MANAGE_ORG)
+    async deleteOverride(@Param('orgId') orgId: string, @Param('promptId') promptId: PromptId) {
+        return this.prompts.deleteOverride(orgId, promptId);
+    }
+}
@@ -0,0 +1,75 @@
+import { LlmCompletion } from '../providers/llm-provider.interface';
+import { JsonSchema } from './prompt.types';
+
+/**
+ * Thrown when a structured LLM response still does not match its prompt's output schema after repair attempts
+ */
+export class LlmOutputValidationError extends Error {
+    constructor(
+        readonly promptVersion: string,
+        readonly problems: string[],
+        readonly completions: LlmCompletion[], // one per attempt, kept so the spent tokens can still be recorded
+    ) {
+        super(
+            `LLM output for ${promptVersion} failed schema validation after ${completions.length} attempt(s): ${problems.slice(0, 5).join('; ')}`
+        );
+        this.name = 'LlmOutputValidationError';
+    }
+}
+
+/**
+ * Validate a parsed value against the JsonSchema subset used by prompt templates.
+ * Returns a list of human-readable problems (empty when valid). Unknown properties are allowed.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    const problems: string[] = [];
+
+    if (schema.type) {
+        const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const actual = jsonTypeOf(value);
+        const matches = allowed.some((t) => t === actual || (t === 'number' && actual === 'integer'));
+        if (!matches) {
+            return [`${path} must be ${allowed.join(' or ')}, got ${actual}`];
+        }
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+        problems.push(`${path} must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            problems.push(`${path} must be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            problems.push(`${path} must be <= ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, i) => problems.push(...validateJsonSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (!(key in record)) {
+                problems.push(`${path}.${key} is required`);
+            }
+        }
+        for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+            if (key in record) {
+                problems.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+            }
+        }
+    }
+
+    return problems;
+}
+
+function jsonTypeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+}
@@ -0,0 +1,147 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { PromptOverride } from 'generated/prisma/client';
+import { DatabaseService } from 'src/services/database/database.service';
+import { PROMPT_IDS, PROMPT_TEMPLATES } from './prompt-templates';
+import { PromptId, PromptTemplate, RenderedPrompt } from './prompt.types';
+
+const OVERRIDE_CACHE_TTL_MS = 60_000;
+
+/**
+ * Versioned prompt templates plus per-organization overrides (pinned version, tone, extra instructions)
+ */
+@Injectable()
+export class PromptRegistry {
+    private readonly overrideCache = new Map<string, { overrides: PromptOverride[]; expiresAt: number }>();
+
+    constructor(private readonly databaseService: DatabaseService) { }
+
+    /**
+     * Render a template for an organization. Variables missing from `variables` render as empty strings.
+     */
+    async render(organizationId: string, id: PromptId, variables: Record<string, string | number | null | undefined>): Promise<RenderedPrompt> {
+        const override = (await this.getOverrides(organizationId)).find((o) => o.promptId === id);
+        const template = this.getTemplate(id, override?.version ?? undefined);
+
+        let systemPrompt = this.fill(template.system, variables);
+        if (override?.tone) {
+            systemPrompt += `\n\nTone: ${override.tone}`;
+        }
+        if (override?.instructions) {
+            systemPrompt += `\n\nAdditional instructions from the organization:\n${override.instructions}`;
+        }
+
+        return {
+            id,
+            version: `${id}@${template.version}${override ? `+org.r${override.revision}` : ''}`,
+            systemPrompt,
+            userPrompt: this.fill(template.user, variables),
+            outputSchema: template.outputSchema,
+        };
+    }
+
+    /**
+     * A template version, or the latest one when `version` is omitted
+     */
+    getTemplate(id: PromptId, version?: number): PromptTemplate {
+        const versions = PROMPT_TEMPLATES.filter((t) => t.id === id);
+        if (versions.length === 0) {
+            throw new NotFoundException(`Prompt template ${id} not found`);
+        }
+
+        if (version !== undefined) {
+            const pinned = versions.find((t) => t.version === version);
+            if (!pinned) {
+                throw new BadRequestException(`Prompt template ${id} has no version ${version}`);
+            }
+            return pinned;
+        }
+
+        return versions.reduce((latest, t) => (t.version > latest.version ? t : latest));
+    }
+
+    async listTemplates(organizationId: string) {
+        const overrides = await this.getOverrides(organizationId);
+
+        return PROMPT_IDS.map((id) => {
+            const versions = PROMPT_TEMPLATES.filter((t) => t.id === id);
+            return {
+                id,
+                description: this.getTemplate(id).description,
+                latestVersion: this.getTemplate(id).version,
+                versions: versions.map((t) => ({ version: t.version, variables: t.variables, hasOutputSchema: Boolean(t.outputSchema) })),
+                override: overrides.find((o) => o.promptId === id) || null,
+            };
+        });
+    }
+
+    async upsertOverride(
+        organizationId: string,
+        id: PromptId,
+        update: { version?: number | null; tone?: string | null; instructions?: string | null },
+        userId?: string,
+    ) {
+        this.assertPromptId(id);
+        if (update.version !== undefined && update.version !== null) {
+            this.getTemplate(id, update.version);
+        }
+
+        const override = await this.databaseService.promptOverride.upsert({
+            where: { organizationId_promptId: { organizationId, promptId: id } },
+            create: {
+                organizationId,
+                promptId: id,
+                version: update.version ?? null,
+                tone: update.tone ?? null,
+                instructions: update.instructions ?? null,
+                updatedById: userId,
+            },
+            update: {
+                ...(update.version !== undefined && { version: update.version }),
+                ...(update.tone !== undefined && { tone: update.tone }),
+                ...(update.instructions !== undefined && { instructions: update.instructions }),
+                revision: { increment: 1 },
+                updatedById: userId,
+            },
+        });
+
+        this.overrideCache.delete(organizationId);
+        return override;
+    }
+
+    async deleteOverride(organizationId: string, id: PromptId) {
+        this.assertPromptId(id);
+
+        const { count } = await this.databaseService.promptOverride.deleteMany({
+            where: { organizationId, promptId: id },
+        });
+        if (count === 0) {
+            throw new NotFoundException(`No override for prompt ${id}`);
+        }
+
+        this.overrideCache.delete(organizationId);
+        return { success: true };
+    }
+
+    private async getOverrides(organizationId: string): Promise<PromptOverride[]> {
+        const cached = this.overrideCache.get(organizationId);
+        if (cached && cached.expiresAt > Date.now()) return cached.overrides;
+
+        const overrides = await this.databaseService.promptOverride.findMany({ where: { organizationId } });
+        this.overrideCache.set(organizationId, { overrides, expiresAt: Date.now() + OVERRIDE_CACHE_TTL_MS });
+
+        return overrides;
+    }
+
+    private assertPromptId(id: string): asserts id is PromptId {
+        if (!PROMPT_IDS.includes(id as PromptId)) {
+            throw new NotFoundException(`Prompt template ${id} not found`);
+        }
+    }
+
+    private fill(template: string, variables: Record<string, string | number | null | undefined>) {
+        return template.replace(/\{\{(\w+)\}\}/g, (_, name) => {
+            const value = variables[name];
+            return value === undefined || value === null ? '' : String(value);
+        });
+    }
+}
@@ -0,0 +1,585 @@
+import { PromptId, PromptTemplate } from './prompt.types';
+
+/**
+ * Built-in prompt templates. Add a new entry with a higher version instead of editing a released one,
+ * so LlmOutput.promptVersion keeps pointing at the text that produced it. The highest version is the
+ * default; organizations can pin another one through a PromptOverride.
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+    {
+        id: 'summarize_code_change',
+        version: 1,
+        description: 'Summary of a commit or pull request',
+        variables: ['title', 'descriptionBlock', 'files'],
+        system: `You are a senior software engineer.
+Summarize code changes clearly and concisely.
+Focus on intent, impact, and risk.
+Do NOT repeat code verbatim.
+Provide a 3-4 line summary.`,
+        user: `TITLE: {{title}}
+
+{{descriptionBlock}}
+FILES CHANGED:
+{{files}}
+
+Explain:
+1. What changed
+2. Why it matters
+3. Any risks`,
+    },
+    {
+        id: 'summarize_message',
+        version: 1,
+        description: 'Summary and semantic intent of a message, comment or issue',
+        variables: ['titleBlock', 'content'],
+        system: `You are analyzing project communications (messages, comments, issues).
+Summarize the message and determine its semantic intent regarding the project.
+
+Return JSON in this exact format:
+{
+"summary": "brief summary of what the user said",
+"semanticIntent": "FEATURE_REQUEST" | "BUG_REPORT" | "TASK_UPDATE" | "QUESTION" | "ANNOUNCEMENT" | "OTHER" | null,
+"projectContext": "what project aspect is being discussed (e.g., 'authentication feature', 'login bug')"
+}
+
+Rules:
+- semanticIntent should be null if unclear
+- projectContext should identify what part of the project is mentioned
+- summary should be concise (2-3 sentences)`,
+        user: `{{titleBlock}}MESSAGE:
+{{content}}`,
+        outputSchema: {
+            type: 'object',
+            required: ['summary', 'semanticIntent'],
+            properties: {
+                summary: { type: 'string' },
+                semanticIntent: {
+                    type: ['string', 'null'],
+                    enum: ['FEATURE_REQUEST', 'BUG_REPORT', 'TASK_UPDATE', 'QUESTION', 'ANNOUNCEMENT', 'OTHER', null],
+                },
+                projectContext: { type: ['string', 'null'] },
+            },
+        },
+    },
+    {
+        id: 'summarize_message',
+        version: 2,
+        description: 'Summary and semantic intent of a message, comment or issue',
+        variables: ['titleBlock', 'content'],
+        system: `You are analyzing project communications (messages, comments, issues).
+Summarize the message and determine its semantic intent regarding the project.
+
+Return JSON in this exact format:
+{
+"summary": "brief summary of what the user said",
+"semanticIntent": "FIX_ISSUE" | "FEATURE_IN_PROGRESS" | "FEATURE_COMPLETE" | "BLOCKER" | "QUESTION" | "DECISION" | "UPDATE" | "REVIEW_REQUEST" | "OTHER" | null,
+"projectContext": "what project aspect is being discussed (e.g., 'authentication feature', 'login bug')"
+}
+
+Intents:
+- FIX_ISSUE: the author is fixing, or reports, a bug or issue
+- FEATURE_IN_PROGRESS: the author is working on a feature
+- FEATURE_COMPLETE: the author says a feature is done, shipped or merged
+- BLOCKER: the author is blocked or waiting on something
+- QUESTION, DECISION, UPDATE, REVIEW_REQUEST: asking, deciding, giving a status update, requesting review
+- OTHER: anything else
+
+Rules:
+- semanticIntent should be null if unclear
+- projectContext should identify what part of the project is mentioned
+- summary should be concise (2-3 sentences)`,
+        user: `{{titleBlock}}MESSAGE:
+{{content}}`,
+        outputSchema: {
+            type: 'object',
+            required: ['summary', 'semanticIntent'],
+            properties: {
+                summary: { type: 'string' },
+                semanticIntent: {
+                    type: ['string', 'null'],
+                    enum: [
+                        'FIX_ISSUE',
+                        'FEATURE_IN_PROGRESS',
+                        'FEATURE_COMPLETE',
+                        'BLOCKER',
+                        'QUESTION',
+                        'DECISION',
+                        'UPDATE',
+                        'REVIEW_REQUEST',
+                        'OTHER',
+                        null,
+                    ],
+                },
+                projectContext: { type: ['string', 'null'] },
+            },
+        },
+    },
+    {
+        id: 'summarize_generic_event',
+        version: 1,
+        description: 'Fallback summary for other event types',
+        variables: ['eventType', 'contentBlock', 'metadataBlock'],
+        system: `You are analyzing project events.
+Provide a concise summary (2-3 sentences) of what happened.`,
+        user: `EVENT TYPE: {{eventType}}
+{{contentBlock}}
+{{metadataBlock}}`,
+    },
+    {
+        id: 'detect_feature',
+        version: 1,
+        description: 'Feature a project event relates to',
+        variables: ['eventType', 'content', 'titleBlock', 'descriptionBlock'],
+        system: `You are analyzing project events to detect features being worked on.
+Extract feature information from the event content.
+
+Return JSON in this exact format:
+{
+  "featureName": string | null,  // e.g., "Authentication", "Payment Gateway", "User Dashboard"
+  "description": string | null,  // Brief description of the feature
+  "isNewFeature": boolean,       // true if this is a new feature being started
+  "confidence": number           // 0-1 confidence score
+}
+
+Rules:
+- featureName should be a concise, project-level feature name (e.g., "Auth", "Payments", "Dashboard")
+- Only extract if confidence >= 0.7
+- If unclear, return null for featureName
+- DO NOT wrap in markdown or code blocks`,
+        user: `EVENT TYPE: {{eventType}}
+CONTENT: {{content}}
+{{titleBlock}}
+{{descriptionBlock}}
+
+Extract feature information if this event relates to a specific feature being worked on.`,
+        outputSchema: {
+            type: 'object',
+            required: ['featureName', 'isNewFeature', 'confidence'],
+            properties: {
+                featureName: { type: ['string', 'null'] },
+                description: { type: ['string', 'null'] },
+                isNewFeature: { type: 'boolean' },
+                confidence: { type: 'number', minimum: 0, maximum: 1 },
+            },
+        },
+    },
+    {
+        id: 'detect_feature',
+        version: 2,
+        description: 'Feature and task a project event relates to, given its semantic intent',
+        variables: ['eventType', 'semanticIntent', 'content', 'titleBlock', 'descriptionBlock'],
+        system: `You are analyzing project events to detect the features and tasks being worked on.
+The event has already been classified with a semantic intent (FIX_ISSUE, FEATURE_IN_PROGRESS, FEATURE_COMPLETE or BLOCKER).
+
+Return JSON in this exact format:
+{
+  "featureName": string | null,  // e.g., "Authentication", "Payment Gateway", "User Dashboard"
+  "description": string | null,  // Brief description of the feature
+  "isNewFeature": boolean,       // true if this is a new feature being started
+  "task": {                      // The concrete piece of work the event describes, or null
+    "title": string,             // Short imperative title, e.g. "Fix token refresh on login"
+    "description": string | null
+  } | null,
+  "confidence": number           // 0-1 confidence that the feature and task are correct
+}
+
+Rules:
+- featureName should be a concise, project-level feature name (e.g., "Auth", "Payments", "Dashboard")
+- Use the same featureName for every event about the same feature
+- If unclear, return null for featureName and task, with a low confidence
+- DO NOT wrap in markdown or code blocks`,
+        user: `EVENT TYPE: {{eventType}}
+SEMANTIC INTENT: {{semanticIntent}}
+CONTENT: {{content}}
+{{titleBlock}}
+{{descriptionBlock}}
+
+Extract the feature and task this event relates to.`,
+        outputSchema: {
+            type: 'object',
+            required: ['featureName', 'task', 'confidence'],
+            properties: {
+                featureName: { type: ['string', 'null'] },
+                description: { type: ['string', 'null'] },
+                isNewFeature: { type: 'boolean' },
+                task: {
+                    type: ['object', 'null'],
+                    required: ['title'],
+                    properties: {
+                        title: { type: 'string' },
+                        description: { type: ['string', 'null'] },
+                    },
+                },
+                confidence: { type: 'number', minimum: 0, maximum: 1 },
+            },
+        },
+    },
+    {
+        id: 'project_report',
+        version: 1,
+        description: 'Periodic project status report',
+        variables: ['projectName', 'periodStart', 'periodEnd', 'metrics', 'eventSummaries'],
+        system: `You are generating a project status report.
+Analyze the project activity and provide a comprehensive summary.
+
+Return JSON in this exact format:
+{
+  "summary": string,  // 3-5 sentence summary of what's been done
+  "highlights": {
+    "completedFeatures": string[],
+    "mergedPRs": number,
+    "resolvedIssues": number,
+    "keyAchievements": string[]
+  },
+  "codeQuality": {
+    "issuesFound": number,
+    "improvements": string[],
+    "recommendations": string[]
+  },
+  "security": {
+    "concerns": string[],
+    "recommendations": string[],
+    "riskLevel": "LOW" | "MEDIUM" | "HIGH"
+  },
+  "insights": string  // 2-3 sentences of key insights or trends
+}
+
+Rules:
+- summary should be concise and actionable
+- highlights should focus on major accomplishments
+- insights should identify patterns or trends
+- DO NOT wrap in markdown or code blocks`,
+        user: `PROJECT: {{projectName}}
+PERIOD: {{periodStart}} to {{periodEnd}}
+
+ACTIVITY METRICS:
+{{metrics}}
+
+RECENT EVENT SUMMARIES:
+{{eventSummaries}}
+
+Generate a comprehensive project status report.`,
+        outputSchema: {
+            type: 'object',
+            required: ['summary', 'highlights', 'codeQuality', 'security', 'insights'],
+            properties: {
+                summary: { type: 'string' },
+                highlights: {
+                    type: 'object',
+                    required: ['completedFeatures', 'mergedPRs', 'resolvedIssues', 'keyAchievements'],
+                    properties: {
+                        completedFeatures: { type: 'array', items: { type: 'string' } },
+                        mergedPRs: { type: 'number' },
+                        resolvedIssues: { type: 'number' },
+                        keyAchievements: { type: 'array', items: { type: 'string' } },
+                    },
+                },
+                codeQuality: {
+                    type: 'object',
+                    required: ['issuesFound', 'improvements', 'recommendations'],
+                    properties: {
+                        issuesFound: { type: 'number' },
+                        improvements: { type: 'array', items: { type: 'string' } },
+                        recommendations: { type: 'array', items: { type: 'string' } },
+                    },
+                },
+                security: {
+                    type: 'object',
+                    required: ['concerns', 'recommendations', 'riskLevel'],
+                    properties: {
+                        concerns: { type: 'array', items: { type: 'string' } },
+                        recommendations: { type: 'array', items: { type: 'string' } },
+                        riskLevel: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH'] },
+                    },
+                },
+                insights: { type: 'string' },
+            },
+        },
+    },
+    {
+        id: 'code_quality',
+        version: 1,
+        description: 'Code review score and issues for a set of changed files',
+        variables: ['files'],
+        system: `You are a senior code reviewer.
+
+Return JSON ONLY in this exact format:
+{
+  "score": number,
+  "summary": string,
+  "issues": [
+    {
+      "type": string,
+      "severity": "low" | "medium" | "high",
+      "description": string
+    }
+  ],
+  "suggestions": string[]
+}
+
+Rules:
+- score must be 0–100
+- issues may be empty
+- suggestions may be empty
+- DO NOT add markdown
+- DO NOT wrap in \`\`\``,
+        user: `FILES CHANGED:
+{{files}}`,
+        outputSchema: {
+            type: 'object',
+            required: ['score', 'summary', 'issues', 'suggestions'],
+            properties: {
+                score: { type: 'number', minimum: 0, maximum: 100 },
+                summary: { type: 'string' },
+                issues: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        required: ['type', 'severity', 'description'],
+                        properties: {
+                            type: { type: 'string' },
+                            severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+                            description: { type: 'string' },
+                        },
+                    },
+                },
+                suggestions: { type: 'array', items: { type: 'string' } },
+            },
+        },
+    },
+    {
+        id: 'security_risk',
+        version: 1,
+        description: 'Security findings for a set of changed files',
+        variables: ['files'],
+        system: `You are a security-focused code reviewer.
+
+Return JSON ONLY in this format:
+{
+  "risk": "none" | "low" | "medium" | "high",
+  "summary": string,
+  "findings": [
+    {
+      "type": string,
+      "severity": "low" | "medium" | "high",
+      "file": string,
+      "description": string
+    }
+  ],
+  "canAutoFix": boolean
+}
+
+Rules:
+- If no issues, risk = "none" and findings = []
+- DO NOT include markdown
+- DO NOT wrap in \`\`\``,
+        user: `CODE CHANGES:
+{{files}}`,
+        outputSchema: {
+            type: 'object',
+            required: ['risk', 'summary', 'findings', 'canAutoFix'],
+            properties: {
+                risk: { type: 'string', enum: ['none', 'low', 'medium', 'high'] },
+                summary: { type: 'string' },
+                findings: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        required: ['type', 'severity', 'file', 'description'],
+                        properties: {
+                            type: { type: 'string' },
+                            severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+                            file: { type: 'string' },
+                            description: { type: 'string' },
+                        },
+                    },
+                },
+                canAutoFix: { type: 'boolean' },
+            },
+        },
+    },
+    {
+        id: 'analyze_issue',
+        version: 1,
+        description: 'Root cause hypothesis and fix for an issue',
+        variables: ['title', 'body'],
+        system: `You are a debugging assistant.
+Analyze the issue and propose a fix.`,
+        user: `ISSUE TITLE: {{title}}
+ISSUE DESCRIPTION: {{body}}
+
+Provide:
+1. Root cause hypothesis
+2. Suggested fix
+3. Risk level`,
+    },
+    {
+        id: 'debug_fix',
+        version: 1,
+        description: 'Fix suggestion with code for an issue and recent diffs',
+        variables: ['issueTitle', 'issueBody', 'recentDiffs'],
+        system: `You are a senior backend engineer.
+Generate safe, production-ready fix suggestions.
+DO NOT auto-commit.`,
+        user: `ISSUE:
+{{issueTitle}}
+{{issueBody}}
+
+RECENT CODE CHANGES:
+{{recentDiffs}}
+
+Return:
+- Explanation
+- Improved code snippet`,
+    },
+    {
+        id: 'rag_chat',
+        version: 1,
+        description: 'Answer to a chat question grounded in retrieved project context',
+        variables: ['projectInfo', 'conversationHistory', 'context', 'question'],
+        system: `You are a helpful AI assistant answering questions about a software project.
+You have access to the project's recent activity including commits, pull requests, issues, and AI-generated summaries.
+Use the provided context to answer accurately. Cite specific events or sources when relevant.
+If specific information isn't available, summarize what you know about the project's recent activity.
+Keep answers concise and actionable.`,
+        user: `{{projectInfo}}
+
+CONVERSATION HISTORY:
+{{conversationHistory}}
+
+PROJECT CONTEXT:
+{{context}}
+
+USER QUESTION: {{question}}
+
+Provide a helpful answer based on the available project context.`,
+    },
+    {
+        id: 'rag_chat_org',
+        version: 1,
+        description: 'Answer to a chat question grounded in context retrieved across an organization\'s projects',
+        variables: ['orgInfo', 'conversationHistory', 'context', 'question'],
+        system: `You are a helpful AI assistant answering questions about an organization's software projects.
+You have access to recent activity from several projects, including commits, pull requests, issues, messages and AI-generated summaries.
+Every source is labelled with the project it comes from. Always say which project each fact belongs to, and group the answer by project when it covers more than one.
+Use only the provided context. If information about a project isn't available, say so rather than guessing.
+Keep answers concise and actionable.`,
+        user: `{{orgInfo}}
+
+CONVERSATION HISTORY:
+{{conversationHistory}}
+
+ORGANIZATION CONTEXT:
+{{context}}
+
+USER QUESTION: {{question}}
+
+Provide a helpful answer based on the available context, naming the project for each point.`,
+    },
+    {
+        id: 'rag_chat',
+        version: 2,
+        description: 'Answer to a chat question grounded in retrieved project context, with inline [n] citations',
+        variables: ['projectInfo', 'conversationHistory', 'context', 'question'],
+        system: `You are a helpful AI assistant answering questions about a software project.
+You have access to the project's recent activity including commits, pull requests, issues, and AI-generated summaries.
+Use the provided context to answer accurately.
+Context items are numbered [Source 1], [Source 2], ... Cite them inline with their number in square brackets right after the statement they support, e.g. "The login flow was reworked [2]." or "[1][3]" for several sources.
+Only cite numbers that appear in the context, never invent sources, and do not add a separate reference list.
+If specific information isn't available, summarize what you know about the project's recent activity.
+Keep answers concise and actionable.`,
+        user: `{{projectInfo}}
+
+CONVERSATION HISTORY:
+{{conversationHistory}}
+
+PROJECT CONTEXT:
+{{context}}
+
+USER QUESTION: {{question}}
+
+Provide a helpful answer based on the available project context, citing sources as [n].`,
+    },
+    {
+        id: 'rag_chat_org',
+        version: 2,
+        description: 'Answer to a chat question grounded in context retrieved across an organization\'s projects, with inline [n] citations',
+        variables: ['orgInfo', 'conversationHistory', 'context', 'question'],
+        system: `You are a helpful AI assistant answering questions about an organization's software projects.
+You have access to recent activity from several projects, including commits, pull requests, issues, messages and AI-generated summaries.
+Every source is labelled with the project it comes from. Always say which project each fact belongs to, and group the answer by project when it covers more than one.
+Context items are numbered [Source 1], [Source 2], ... Cite them inline with their number in square brackets right after the statement they support, e.g. "Payments shipped retries [4]." or "[1][3]" for several sources.
+Only cite numbers that appear in the context, never invent sources, and do not add a separate reference list.
+Use only the provided context. If information about a project isn't available, say so rather than guessing.
+Keep answers concise and actionable.`,
+        user: `{{orgInfo}}
+
+CONVERSATION HISTORY:
+{{conversationHistory}}
+
+ORGANIZATION CONTEXT:
+{{context}}
+
+USER QUESTION: {{question}}
+
+Provide a helpful answer based on the available context, naming the project for each point and citing sources as [n].`,
+    },
+    {
+        id: 'rag_chat_tools',
+        version: 1,
+        description: 'Answer to a chat question with retrieved context plus read-only tools for tasks, features, activity and credit usage',
+        variables: ['scopeInfo', 'conversationHistory', 'context', 'question'],
+        system: `You are a helpful AI assistant answering questions about software projects.
+You have retrieved context (commits, pull requests, issues, messages and AI-generated summaries) and read-only tools that query live project data.
+Call a tool whenever the question asks for counts, rankings, lists, statuses, overdue work or credit spend; do not estimate these from the context.
+Only pass project names that are listed in scope. A tool result with an "error" means the data is unavailable or not permitted; say so instead of guessing.
+Context items are numbered [Source 1], [Source 2], ... Cite them inline as [n] right after the statement they support. Tool results are not sources: state the figures without [n] markers.
+Keep answers concise and actionable.`,
+        user: `{{scopeInfo}}
+
+CONVERSATION HISTORY:
+{{conversationHistory}}
+
+CONTEXT:
+{{context}}
+
+USER QUESTION: {{question}}
+
+Use the tools for live figures, then answer, citing context sources as [n].`,
+    },
+    {
+        id: 'conversation_summary',
+        version: 1,
+        description: 'Rolling summary of the older messages of a chat, used as condensed history',
+        variables: ['previousSummary', 'messages'],
+        system: `You maintain the running memory of a conversation between a user and an assistant about software projects.
+Merge the previous summary with the new messages into one updated summary.
+Keep what later questions may refer back to: the topics asked about, projects, features, people, dates, decisions and open questions.
+Drop greetings and repetition. Write plain prose in the third person, at most 200 words.`,
+        user: `PREVIOUS SUMMARY:
+{{previousSummary}}
+
+NEW MESSAGES:
+{{messages}}
+
+Write the updated summary.`,
+    },
+    {
+        id: 'rewrite_query',
+        version: 1,
+        description: 'Standalone retrieval query for a follow-up chat question',
+        variables: ['conversationHistory', 'question'],
+        system: `You rewrite the latest question of a conversation into a standalone search query.
+Resolve pronouns and references ("it", "that PR", "and what about the API?") using the conversation, and keep names, projects, providers and dates explicit.
+If the question is already standalone, return it unchanged.
+Return only the rewritten question on one line, without quotes or explanations.`,
+        user: `CONVERSATION HISTORY:
+{{conversationHistory}}
+
+USER QUESTION: {{question}}
+
+Standalone question:`,
+    },
+];
+
+export const PROMPT_IDS = Array.from(new Set(PROMPT_TEMPLATES.map((t) => t.id))) as PromptId[];
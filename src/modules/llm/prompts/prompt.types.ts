@@ -0,0 +1,53 @@
+export type PromptId =
+    | 'summarize_code_change'
+    | 'summarize_message'
+    | 'summarize_generic_event'
+    | 'detect_feature'
+    | 'project_report'
+    | 'code_quality'
+    | 'security_risk'
+    | 'analyze_issue'
+    | 'debug_fix'
+    | 'rag_chat'
+    | 'rag_chat_org'
+    | 'rag_chat_tools'
+    | 'conversation_summary'
+    | 'rewrite_query';
+
+/**
+ * Subset of JSON Schema used to describe structured prompt outputs
+ */
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: Array<string | number | boolean | null>;
+    minimum?: number;
+    maximum?: number;
+    description?: string;
+}
+
+/**
+ * One version of a built-in prompt. `system` and `user` are templates with {{variable}} placeholders.
+ */
+export interface PromptTemplate {
+    id: PromptId;
+    version: number;
+    description: string;
+    system: string;
+    user: string;
+    variables: string[];
+    outputSchema?: JsonSchema; // set for prompts that must return JSON
+}
+
+/**
+ * A template rendered for one organization, ready to send
+ */
+export interface RenderedPrompt {
+    id: PromptId;
+    version: string; // e.g. "summarize_message@2" or "summarize_message@2+org.r3" when an org override applied
+    systemPrompt: string;
+    userPrompt: string;
+    outputSchema?: JsonSchema;
+}
@@ -0,0 +1,36 @@
+import axios from 'axios';
+import { AnthropicProvider } from './anthropic.provider';
+
+jest.mock('axios');
+
+describe('AnthropicProvider', () => {
+    describe('stream', () => {
+        it('decodes characters split across chunks', async () => {
+            const events = [
+                { type: 'message_start', message: { model: 'claude-test', usage: { input_tokens: 12 } } },
+                { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Déploiement 🚀 jeudi' } },
+                { type: 'message_delta', usage: { output_tokens: 7 } },
+            ];
+            const body = Buffer.from(events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+
+            // Cut inside the two-byte "é" and the four-byte emoji
+            const accent = body.indexOf(Buffer.from('é')) + 1;
+            const emoji = body.indexOf(Buffer.from('🚀')) + 2;
+            const chunks = [body.subarray(0, accent), body.subarray(accent, emoji), body.subarray(emoji)];
+            (axios.post as jest.Mock).mockResolvedValue({
+                data: (async function* () {
+                    yield* chunks;
+                })(),
+            });
+
+            const deltas: string[] = [];
+            const provider = new AnthropicProvider('key', 'claude-test', {});
+            const completion = await provider.stream({ model: 'claude-test', messages: [{ role: 'user', content: 'When?' }] }, (delta) =>
+                deltas.push(delta)
+            );
+
+            expect(deltas).toEqual(['Déploiement 🚀 jeudi']);
+            expect(completion).toEqual({ content: 'Déploiement 🚀 jeudi', model: 'claude-test', usage: { inputTokens: 12, outputTokens: 7 } });
+        });
+    });
+});
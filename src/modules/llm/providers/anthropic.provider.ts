@@ -0,0 +1,186 @@
+import axios from 'axios';
+import { StringDecoder } from 'string_decoder';
+import {
+    LlmCompletion,
+    LlmCompletionRequest,
+    LlmCreditCost,
+    LlmDeltaHandler,
+    LlmEmbedding,
+    LlmMessage,
+    LlmProvider,
+    LlmToolCall,
+} from './llm-provider.interface';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_COUNT_TOKENS_URL = 'https://api.anthropic.com/v1/messages/count_tokens';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Anthropic Messages API. Anthropic has no embeddings endpoint, so orgs using it for chat
+ * pick a separate embedding provider in their settings.
+ */
+export class AnthropicProvider implements LlmProvider {
+    readonly name = 'anthropic' as const;
+    readonly defaultEmbeddingModel = undefined;
+
+    constructor(
+        private readonly apiKey: string,
+        readonly defaultModel: string,
+        readonly creditCosts: Record<string, LlmCreditCost>,
+    ) { }
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        const res = await axios.post(ANTHROPIC_API_URL, this.buildBody(request), {
+            headers: this.headers(),
+            signal: request.signal,
+        });
+
+        const content = (res.data.content || [])
+            .filter((block: any) => block.type === 'text')
+            .map((block: any) => block.text)
+            .join('')
+            .trim();
+        const toolCalls: LlmToolCall[] = (res.data.content || [])
+            .filter((block: any) => block.type === 'tool_use')
+            .map((block: any) => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+
+        return {
+            content,
+            model: res.data.model || request.model,
+            usage: res.data.usage
+                ? { inputTokens: res.data.usage.input_tokens, outputTokens: res.data.usage.output_tokens }
+                : undefined,
+            ...(toolCalls.length > 0 && { toolCalls }),
+        };
+    }
+
+    /**
+     * Reads the server-sent events of a streamed message: text arrives in content_block_delta events,
+     * input tokens in message_start and output tokens in the closing message_delta
+     */
+    async stream(request: LlmCompletionRequest, onDelta: LlmDeltaHandler): Promise<LlmCompletion> {
+        const res = await axios.post(
+            ANTHROPIC_API_URL,
+            { ...this.buildBody(request), stream: true },
+            { headers: this.headers(), signal: request.signal, responseType: 'stream' },
+        );
+
+        let content = '';
+        let model = request.model;
+        let inputTokens: number | undefined;
+        let outputTokens: number | undefined;
+        let buffer = '';
+        // Chunks can end mid-character; the decoder holds back incomplete UTF-8 sequences until the rest arrives
+        const decoder = new StringDecoder('utf8');
+
+        for await (const chunk of res.data as AsyncIterable<Buffer>) {
+            buffer += decoder.write(chunk);
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                const event = JSON.parse(line.slice(5));
+
+                switch (event.type) {
+                    case 'message_start':
+                        model = event.message?.model || model;
+                        inputTokens = event.message?.usage?.input_tokens;
+                        break;
+                    case 'content_block_delta':
+                        if (event.delta?.type === 'text_delta' && event.delta.text) {
+                            content += event.delta.text;
+                            onDelta(event.delta.text);
+                        }
+                        break;
+                    case 'message_delta':
+                        outputTokens = event.usage?.output_tokens ?? outputTokens;
+                        break;
+                    case 'error':
+                        throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown'}`);
+                }
+            }
+        }
+
+        return {
+            content: content.trim(),
+            model,
+            usage: inputTokens !== undefined && outputTokens !== undefined ? { inputTokens, outputTokens } : undefined,
+        };
+    }
+
+    /**
+     * Exact input tokens from Anthropic's token-counting endpoint, which takes the same body as a message
+     * minus the generation settings
+     */
+    async countTokens(request: LlmCompletionRequest): Promise<number> {
+        const { model, system, messages, tools } = this.buildBody(request);
+        const res = await axios.post(ANTHROPIC_COUNT_TOKENS_URL, { model, system, messages, tools }, {
+            headers: this.headers(),
+            signal: request.signal,
+        });
+
+        return res.data.input_tokens;
+    }
+
+    async embed(): Promise<LlmEmbedding> {
+        throw new Error('Anthropic does not provide an embeddings API; configure an embedding provider');
+    }
+
+    private buildBody(request: LlmCompletionRequest) {
+        // System prompts are a top-level field rather than a message role
+        const system = request.messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+
+        return {
+            model: request.model,
+            max_tokens: request.maxTokens ?? 1024,
+            temperature: request.temperature,
+            ...(system && { system }),
+            messages: this.toAnthropicMessages(request.messages.filter((m) => m.role !== 'system')),
+            ...(request.tools?.length && {
+                tools: request.tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+                tool_choice: { type: request.toolChoice ?? 'auto' },
+            }),
+        };
+    }
+
+    /**
+     * Tool calls are tool_use blocks of the assistant turn; their results go back as tool_result blocks
+     * of a user turn (consecutive results share one)
+     */
+    private toAnthropicMessages(messages: LlmMessage[]) {
+        const result: Array<{ role: 'user' | 'assistant'; content: any }> = [];
+
+        for (const message of messages) {
+            if (message.role === 'tool') {
+                const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+                const previous = result[result.length - 1];
+                if (previous?.role === 'user' && Array.isArray(previous.content) && previous.content[0]?.type === 'tool_result') {
+                    previous.content.push(block);
+                } else {
+                    result.push({ role: 'user', content: [block] });
+                }
+            } else if (message.role === 'assistant' && message.toolCalls?.length) {
+                result.push({
+                    role: 'assistant',
+                    content: [
+                        ...(message.content ? [{ type: 'text', text: message.content }] : []),
+                        ...message.toolCalls.map((call) => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+                    ],
+                });
+            } else {
+                result.push({ role: message.role as 'user' | 'assistant', content: message.content });
+            }
+        }
+
+        return result;
+    }
+
+    private headers() {
+        return {
+            'x-api-key': this.apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+            'content-type': 'application/json',
+        };
+    }
+}
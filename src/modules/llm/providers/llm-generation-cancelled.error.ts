@@ -0,0 +1,12 @@
+import { LlmCompletion } from './llm-provider.interface';
+
+/**
+ * Thrown when a streamed generation is cancelled by its caller. Carries the text streamed so far,
+ * so it can still be shown and the tokens it cost can still be charged.
+ */
+export class LlmGenerationCancelledError extends Error {
+    constructor(readonly partial: LlmCompletion) {
+        super('LLM generation cancelled');
+        this.name = 'LlmGenerationCancelledError';
+    }
+}
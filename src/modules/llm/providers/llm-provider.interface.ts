@@ -0,0 +1,110 @@
+import { JsonSchema } from '../prompts/prompt.types';
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'azure' | 'openai-compatible' | 'fake';
+
+export const LLM_PROVIDER_NAMES: LlmProviderName[] = ['openai', 'anthropic', 'azure', 'openai-compatible', 'fake'];
+
+// Dimension of the Embedding.vector column (pgvector); embedding models must match it
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface LlmMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    toolCalls?: LlmToolCall[]; // assistant turn that asked for tools
+    toolCallId?: string; // tool turn: the call this result answers
+}
+
+/**
+ * A function the model may call; `parameters` describes its arguments object
+ */
+export interface LlmToolDefinition {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+}
+
+export interface LlmToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+}
+
+export interface LlmCompletionRequest {
+    model: string;
+    messages: LlmMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    json?: boolean; // ask the provider for a JSON object when it supports a JSON mode
+    tools?: LlmToolDefinition[];
+    toolChoice?: 'auto' | 'none'; // 'none' makes the model answer without calling the tools it was given
+    signal?: AbortSignal;
+}
+
+export interface LlmTokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface LlmCompletion {
+    content: string;
+    model: string;
+    usage?: LlmTokenUsage; // omitted when the provider does not report usage
+    toolCalls?: LlmToolCall[]; // set when the model asks for tools instead of answering
+}
+
+/**
+ * Receives each piece of text as a streamed completion produces it
+ */
+export type LlmDeltaHandler = (delta: string) => void;
+
+export interface LlmEmbedding {
+    embedding: number[];
+    model: string;
+    inputTokens?: number;
+}
+
+/**
+ * Credits charged per call: a flat base plus per-1K-token rates
+ */
+export interface LlmCreditCost {
+    base: number;
+    inputPer1K?: number;
+    outputPer1K?: number;
+}
+
+/**
+ * A chat/embedding backend. Implementations wrap one vendor API and never decide which org may use them;
+ * that is resolved by LlmProviderRegistry from the org's settings.
+ */
+export interface LlmProvider {
+    readonly name: LlmProviderName;
+    readonly defaultModel: string;
+    readonly defaultEmbeddingModel?: string; // undefined when the provider has no embeddings API
+    readonly creditCosts: Record<string, LlmCreditCost>;
+
+    complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+    // Same as complete, but hands out text as it is generated; resolves with the full completion
+    stream(request: LlmCompletionRequest, onDelta: LlmDeltaHandler): Promise<LlmCompletion>;
+    embed(input: string, model: string): Promise<LlmEmbedding>;
+    // Input tokens the request will be billed for, from the vendor's tokenizer or token-counting API;
+    // undefined when the provider has neither (e.g. arbitrary OpenAI-compatible servers)
+    countTokens?(request: LlmCompletionRequest): Promise<number | undefined>;
+}
+
+/**
+ * Organization.settings.llm
+ */
+export interface OrgLlmSettings {
+    provider?: LlmProviderName;
+    model?: string;
+    embeddingProvider?: LlmProviderName;
+    embeddingModel?: string;
+}
+
+/**
+ * Provider and model an LLM call resolves to for an organization
+ */
+export interface ResolvedLlm {
+    provider: LlmProvider;
+    model: string;
+}
@@ -0,0 +1,232 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { AnthropicProvider } from './anthropic.provider';
+import { OpenAiProvider } from './openai.provider';
+import { FakeLlmProvider } from './fake.provider';
+import {
+    EMBEDDING_DIMENSIONS,
+    LLM_PROVIDER_NAMES,
+    LlmCreditCost,
+    LlmProvider,
+    LlmProviderName,
+    OrgLlmSettings,
+    ResolvedLlm,
+} from './llm-provider.interface';
+
+const OPENAI_CREDIT_COSTS: Record<string, LlmCreditCost> = {
+    'gpt-4o-mini': { base: 0.001, inputPer1K: 0.00015, outputPer1K: 0.0006 },
+    'gpt-4o': { base: 0.005, inputPer1K: 0.0025, outputPer1K: 0.01 },
+    'gpt-4': { base: 0.03, inputPer1K: 0.03, outputPer1K: 0.06 },
+    'gpt-3.5-turbo': { base: 0.002, inputPer1K: 0.0015, outputPer1K: 0.002 },
+    'text-embedding-3-small': { base: 0.0001, inputPer1K: 0.02 }, // embeddings only have input
+};
+
+const ANTHROPIC_CREDIT_COSTS: Record<string, LlmCreditCost> = {
+    'claude-3-5-haiku-latest': { base: 0.001, inputPer1K: 0.0008, outputPer1K: 0.004 },
+    'claude-sonnet-4-0': { base: 0.003, inputPer1K: 0.003, outputPer1K: 0.015 },
+};
+
+// Charged for models missing from a provider's table (custom deployments, local models)
+const FALLBACK_CREDIT_COST: LlmCreditCost = OPENAI_CREDIT_COSTS['gpt-4o-mini'];
+
+const SETTINGS_CACHE_TTL_MS = 60_000;
+
+/**
+ * Builds the LLM providers configured through env and resolves which one (and which model)
+ * an organization's calls go to, based on Organization.settings.llm.
+ *
+ * Env:
+ * - LLM_DEFAULT_PROVIDER: provider for orgs without settings (default "openai")
+ * - OPENAI_API_KEY
+ * - ANTHROPIC_API_KEY, ANTHROPIC_MODEL
+ * - AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_VERSION, AZURE_OPENAI_DEPLOYMENT, AZURE_OPENAI_EMBEDDING_DEPLOYMENT
+ * - LLM_COMPATIBLE_BASE_URL, LLM_COMPATIBLE_API_KEY, LLM_COMPATIBLE_MODEL, LLM_COMPATIBLE_EMBEDDING_MODEL
+ * - LLM_ENABLE_FAKE_PROVIDER=true (or LLM_DEFAULT_PROVIDER=fake): offline deterministic provider for development and CI
+ */
+@Injectable()
+export class LlmProviderRegistry {
+    private readonly logger = new LoggerService(LlmProviderRegistry.name);
+    private readonly providers = new Map<LlmProviderName, LlmProvider>();
+    private readonly defaultProvider: LlmProviderName;
+    private readonly settingsCache = new Map<string, { settings: OrgLlmSettings; expiresAt: number }>();
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly configService: ConfigService,
+    ) {
+        this.registerProviders();
+
+        this.defaultProvider = (this.configService.get<string>('LLM_DEFAULT_PROVIDER') as LlmProviderName) || 'openai';
+        if (!this.providers.has(this.defaultProvider)) {
+            this.logger.warn(`Default LLM provider "${this.defaultProvider}" is not configured; LLM calls will fail until configured.`, LlmProviderRegistry.name);
+        }
+    }
+
+    private registerProviders() {
+        const get = (key: string) => this.configService.get<string>(key);
+
+        if (get('LLM_DEFAULT_PROVIDER') === 'fake' || get('LLM_ENABLE_FAKE_PROVIDER') === 'true') {
+            // Billed like gpt-4o-mini so credit accounting behaves as it would in production
+            this.providers.set('fake', new FakeLlmProvider(
+                { 'fake-chat': OPENAI_CREDIT_COSTS['gpt-4o-mini'], 'fake-embedding': OPENAI_CREDIT_COSTS['text-embedding-3-small'] },
+                EMBEDDING_DIMENSIONS,
+            ));
+        }
+
+        const openaiKey = get('OPENAI_API_KEY');
+        if (openaiKey) {
+            this.providers.set('openai', new OpenAiProvider(
+                'openai',
+                new OpenAI({ apiKey: openaiKey }),
+                'gpt-4o-mini',
+                'text-embedding-3-small',
+                OPENAI_CREDIT_COSTS,
+            ));
+        }
+
+        const anthropicKey = get('ANTHROPIC_API_KEY');
+        if (anthropicKey) {
+            this.providers.set('anthropic', new AnthropicProvider(
+                anthropicKey,
+                get('ANTHROPIC_MODEL') || 'claude-3-5-haiku-latest',
+                ANTHROPIC_CREDIT_COSTS,
+            ));
+        }
+
+        const azureKey = get('AZURE_OPENAI_API_KEY');
+        const azureEndpoint = get('AZURE_OPENAI_ENDPOINT');
+        if (azureKey && azureEndpoint) {
+            // Azure addresses models by deployment name; they are billed like the OpenAI model they usually host
+            const deployment = get('AZURE_OPENAI_DEPLOYMENT') || 'gpt-4o-mini';
+            const embeddingDeployment = get('AZURE_OPENAI_EMBEDDING_DEPLOYMENT');
+
+            this.providers.set('azure', new OpenAiProvider(
+                'azure',
+                new AzureOpenAI({
+                    apiKey: azureKey,
+                    endpoint: azureEndpoint,
+                    apiVersion: get('AZURE_OPENAI_API_VERSION') || '2024-10-21',
+                }),
+                deployment,
+                embeddingDeployment,
+                {
+                    ...OPENAI_CREDIT_COSTS,
+                    [deployment]: OPENAI_CREDIT_COSTS[deployment] || FALLBACK_CREDIT_COST,
+                    ...(embeddingDeployment && { [embeddingDeployment]: OPENAI_CREDIT_COSTS['text-embedding-3-small'] }),
+                },
+            ));
+        }
+
+        const compatibleUrl = get('LLM_COMPATIBLE_BASE_URL');
+        if (compatibleUrl) {
+            this.providers.set('openai-compatible', new OpenAiProvider(
+                'openai-compatible',
+                new OpenAI({ baseURL: compatibleUrl, apiKey: get('LLM_COMPATIBLE_API_KEY') || 'not-needed' }),
+                get('LLM_COMPATIBLE_MODEL') || 'llama3.1',
+                get('LLM_COMPATIBLE_EMBEDDING_MODEL'),
+                {},
+            ));
+        }
+    }
+
+    /**
+     * Provider names configured on this deployment
+     */
+    listProviders() {
+        return Array.from(this.providers.values()).map((provider) => ({
+            name: provider.name,
+            defaultModel: provider.defaultModel,
+            defaultEmbeddingModel: provider.defaultEmbeddingModel ?? null,
+            isDefault: provider.name === this.defaultProvider,
+        }));
+    }
+
+    /**
+     * Provider and model for chat/JSON completions of an organization
+     */
+    async resolve(organizationId: string): Promise<ResolvedLlm> {
+        const settings = await this.getSettings(organizationId);
+        const provider = this.getProvider(settings.provider || this.defaultProvider);
+
+        return { provider, model: settings.model || provider.defaultModel };
+    }
+
+    /**
+     * Provider and model for embeddings. Falls back to the org's chat provider, never to the
+     * deployment default, so an org that opted out of a vendor does not reach it through embeddings.
+     */
+    async resolveEmbedding(organizationId: string): Promise<ResolvedLlm> {
+        const settings = await this.getSettings(organizationId);
+        const provider = this.getProvider(settings.embeddingProvider || settings.provider || this.defaultProvider);
+        const model = settings.embeddingModel || provider.defaultEmbeddingModel;
+
+        if (!model) {
+            throw new BadRequestException(`LLM provider "${provider.name}" has no embedding model; set an embedding provider in the organization's LLM settings`);
+        }
+
+        return { provider, model };
+    }
+
+    /**
+     * Credit cost of a model, falling back to the provider's default model
+     */
+    getCreditCost(provider: LlmProvider, model: string): LlmCreditCost {
+        return provider.creditCosts[model] || provider.creditCosts[provider.defaultModel] || FALLBACK_CREDIT_COST;
+    }
+
+    async getSettings(organizationId: string): Promise<OrgLlmSettings> {
+        const cached = this.settingsCache.get(organizationId);
+        if (cached && cached.expiresAt > Date.now()) return cached.settings;
+
+        const org = await this.databaseService.organization.findUnique({
+            where: { id: organizationId },
+            select: { settings: true },
+        });
+
+        const settings: OrgLlmSettings = ((org?.settings as Record<string, any>)?.llm as OrgLlmSettings) || {};
+        this.settingsCache.set(organizationId, { settings, expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS });
+
+        return settings;
+    }
+
+    async updateSettings(organizationId: string, update: OrgLlmSettings): Promise<OrgLlmSettings> {
+        for (const name of [update.provider, update.embeddingProvider]) {
+            if (name) this.getProvider(name);
+        }
+
+        const org = await this.databaseService.organization.findUnique({
+            where: { id: organizationId },
+            select: { settings: true },
+        });
+        if (!org) {
+            throw new BadRequestException(`Organization ${organizationId} not found`);
+        }
+
+        const current = (org.settings as Record<string, any>) || {};
+        const llm: OrgLlmSettings = { ...(current.llm || {}), ...update };
+
+        await this.databaseService.organization.update({
+            where: { id: organizationId },
+            data: { settings: { ...current, llm } as any },
+        });
+
+        this.settingsCache.delete(organizationId);
+        return llm;
+    }
+
+    private getProvider(name: LlmProviderName): LlmProvider {
+        if (!LLM_PROVIDER_NAMES.includes(name)) {
+            throw new BadRequestException(`Unknown LLM provider "${name}"`);
+        }
+
+        const provider = this.providers.get(name);
+        if (!provider) {
+            throw new BadRequestException(`LLM provider "${name}" is not configured on this deployment`);
+        }
+
+        return provider;
+    }
+}
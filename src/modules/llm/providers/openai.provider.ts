@@ -0,0 +1,175 @@
+import OpenAI from 'openai';
+import { getEncoding, getEncodingNameForModel, Tiktoken, TiktokenModel } from 'js-tiktoken';
+import {
+    LlmCompletion,
+    LlmCompletionRequest,
+    LlmCreditCost,
+    LlmDeltaHandler,
+    LlmEmbedding,
+    LlmMessage,
+    LlmProvider,
+    LlmProviderName,
+    LlmToolCall,
+} from './llm-provider.interface';
+
+// Chat formatting adds a few tokens around every message and primes the reply with a few more
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+// Tokenizers are built on first use; each holds a rank table of a few MB
+const encoders = new Map<'cl100k_base' | 'o200k_base', Tiktoken>();
+
+/**
+ * Chat completions and embeddings over the OpenAI API shape. Also backs Azure OpenAI
+ * (client built with AzureOpenAI, models are deployment names) and OpenAI-compatible servers
+ * such as vLLM, Ollama or LM Studio (client built with a custom baseURL).
+ */
+export class OpenAiProvider implements LlmProvider {
+    constructor(
+        readonly name: LlmProviderName,
+        private readonly client: OpenAI,
+        readonly defaultModel: string,
+        readonly defaultEmbeddingModel: string | undefined,
+        readonly creditCosts: Record<string, LlmCreditCost>,
+    ) { }
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        const res = await this.client.chat.completions.create(this.buildParams(request), { signal: request.signal });
+        const message = res.choices[0]?.message;
+        const toolCalls = this.parseToolCalls(message?.tool_calls);
+
+        return {
+            content: message?.content?.trim() ?? '',
+            model: res.model || request.model,
+            usage: res.usage
+                ? { inputTokens: res.usage.prompt_tokens, outputTokens: res.usage.completion_tokens }
+                : undefined,
+            ...(toolCalls.length > 0 && { toolCalls }),
+        };
+    }
+
+    async stream(request: LlmCompletionRequest, onDelta: LlmDeltaHandler): Promise<LlmCompletion> {
+        const stream = await this.client.chat.completions.create(
+            { ...this.buildParams(request), stream: true, stream_options: { include_usage: true } },
+            { signal: request.signal },
+        );
+
+        let content = '';
+        let model = request.model;
+        let usage: LlmCompletion['usage'];
+
+        for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) {
+                content += delta;
+                onDelta(delta);
+            }
+            if (chunk.model) model = chunk.model;
+            // Usage arrives on a final chunk with no choices
+            if (chunk.usage) {
+                usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+            }
+        }
+
+        return { content: content.trim(), model, usage };
+    }
+
+    async embed(input: string, model: string): Promise<LlmEmbedding> {
+        const res = await this.client.embeddings.create({ model, input });
+
+        return {
+            embedding: res.data[0]?.embedding || [],
+            model: res.model || model,
+            inputTokens: res.usage?.prompt_tokens,
+        };
+    }
+
+    /**
+     * Input tokens counted with the model's tiktoken encoding. Azure models are deployment names, so unknown
+     * names fall back to o200k_base (GPT-4o onwards). Tool definitions are counted as their JSON, which is
+     * longer than the compact form OpenAI renders them in. OpenAI-compatible servers run arbitrary models
+     * whose tokenizers we do not have.
+     */
+    async countTokens(request: LlmCompletionRequest): Promise<number | undefined> {
+        if (this.name === 'openai-compatible') return undefined;
+
+        const encoder = this.encoderFor(request.model);
+        let tokens = TOKENS_PER_REPLY;
+        for (const message of request.messages) {
+            tokens += TOKENS_PER_MESSAGE + encoder.encode(message.content).length;
+            if (message.toolCalls?.length) {
+                tokens += encoder.encode(JSON.stringify(message.toolCalls)).length;
+            }
+        }
+        if (request.tools?.length) {
+            tokens += encoder.encode(JSON.stringify(request.tools)).length;
+        }
+
+        return tokens;
+    }
+
+    private encoderFor(model: string): Tiktoken {
+        let name: 'cl100k_base' | 'o200k_base' = 'o200k_base';
+        try {
+            if (getEncodingNameForModel(model as TiktokenModel) === 'cl100k_base') name = 'cl100k_base';
+        } catch {
+            // Not a model name tiktoken knows (e.g. an Azure deployment)
+        }
+
+        let encoder = encoders.get(name);
+        if (!encoder) {
+            encoder = getEncoding(name);
+            encoders.set(name, encoder);
+        }
+        return encoder;
+    }
+
+    private buildParams(request: LlmCompletionRequest) {
+        return {
+            model: request.model,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            messages: request.messages.map((message) => this.toOpenAiMessage(message)),
+            ...(request.json && { response_format: { type: 'json_object' as const } }),
+            ...(request.tools?.length && {
+                tools: request.tools.map((tool) => ({
+                    type: 'function' as const,
+                    function: { name: tool.name, description: tool.description, parameters: tool.parameters as Record<string, unknown> },
+                })),
+                tool_choice: request.toolChoice ?? 'auto',
+            }),
+        };
+    }
+
+    private toOpenAiMessage(message: LlmMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+        if (message.role === 'tool') {
+            return { role: 'tool', tool_call_id: message.toolCallId!, content: message.content };
+        }
+        if (message.role === 'assistant' && message.toolCalls?.length) {
+            return {
+                role: 'assistant',
+                content: message.content || null,
+                tool_calls: message.toolCalls.map((call) => ({
+                    id: call.id,
+                    type: 'function' as const,
+                    function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+                })),
+            };
+        }
+        return { role: message.role, content: message.content };
+    }
+
+    private parseToolCalls(calls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] | undefined): LlmToolCall[] {
+        return (calls || []).flatMap((call) => {
+            if (call.type !== 'function') return [];
+
+            let args: Record<string, unknown> = {};
+            try {
+                args = JSON.parse(call.function.arguments || '{}');
+            } catch {
+                // Malformed arguments reach the tool as an empty object; it reports what is missing
+            }
+            return [{ id: call.id, name: call.function.name, arguments: args }];
+        });
+    }
+}
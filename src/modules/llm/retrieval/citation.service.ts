@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from 'src/services/database/database.service';
+import { ExternalProvider } from 'generated/prisma/enums';
+import { buildDeepLink, Citation, quoteOf } from './citations';
+import { RetrievedSource } from './hybrid-retrieval.service';
+
+/**
+ * Turns retrieved sources into citations (provider, event type, author, timestamp, deep link and quote)
+ * and stores them as the ChatMessageSource rows of an assistant message. Lookups are batched per answer.
+ */
+@Injectable()
+export class CitationService {
+    constructor(private readonly databaseService: DatabaseService) { }
+
+    /**
+     * Citations numbered like the [Source n] labels in the prompt context (1-based, in retrieval order)
+     */
+    async resolve(sources: RetrievedSource[], options: { projectNames?: Map<string, string>; cited?: number[] } = {}): Promise<Citation[]> {
+        const rawEventIds = [...new Set(sources.map((s) => s.rawEventId).filter((id): id is string => Boolean(id)))];
+
+        const events = rawEventIds.length
+            ? await this.databaseService.rawEvent.findMany({
+                where: { id: { in: rawEventIds }, deletedAt: null },
+                select: {
+                    id: true,
+                    source: true,
+                    sourceId: true,
+                    eventType: true,
+                    authorName: true,
+                    timestamp: true,
+                    channelId: true,
+                    threadId: true,
+                    metadata: true,
+                    integrationId: true,
+                    integration: { select: { config: true } },
+                },
+            })
+            : [];
+        const eventsById = new Map(events.map((event) => [event.id, event]));
+
+        // Discord links need the guild, which is only stored on the channel's IntegrationResource
+        const discordChannelIds = [...new Set(events.filter((e) => e.source === ExternalProvider.DISCORD && e.channelId).map((e) => e.channelId!))];
+        const discordChannels = discordChannelIds.length
+            ? await this.databaseService.integrationResource.findMany({
+                where: { provider: ExternalProvider.DISCORD, providerId: { in: discordChannelIds } },
+                select: { integrationId: true, providerId: true, metadata: true },
+            })
+            : [];
+        const guildByChannel = new Map(
+            discordChannels.map((channel) => [`${channel.integrationId}:${channel.providerId}`, (channel.metadata as any)?.guildId as string | undefined])
+        );
+
+        return sources.map((source, i) => {
+            const event = source.rawEventId ? eventsById.get(source.rawEventId) : undefined;
+            const index = i + 1;
+
+            return {
+                index,
+                rawEventId: source.rawEventId ?? null,
+                llmOutputId: source.llmOutputId ?? null,
+                contentChunkId: source.contentChunkId ?? null,
+                projectId: source.projectId,
+                projectName: options.projectNames?.get(source.projectId) ?? null,
+                provider: event?.source ?? null,
+                eventType: event?.eventType ?? null,
+                author: event?.authorName ?? null,
+                timestamp: event?.timestamp ?? source.timestamp,
+                url: event
+                    ? buildDeepLink(event, {
+                        jiraSiteUrl: (event.integration?.config as any)?.cloudUrl,
+                        discordGuildId: guildByChannel.get(`${event.integrationId}:${event.channelId}`),
+                    })
+                    : null,
+                quote: quoteOf(source.content),
+                relevanceScore: source.score,
+                cited: options.cited?.includes(index) ?? false,
+            };
+        });
+    }
+
+    /**
+     * One ChatMessageSource row per citation, written in a single batch
+     */
+    async persist(chatMessageId: string, citations: Citation[]): Promise<void> {
+        const rows = citations.filter((citation) => citation.rawEventId || citation.llmOutputId);
+        if (rows.length === 0) return;
+
+        await this.databaseService.chatMessageSource.createMany({
+            data: rows.map((citation) => ({
+                chatMessageId,
+                rawEventId: citation.rawEventId,
+                llmOutputId: citation.llmOutputId,
+                contentChunkId: citation.contentChunkId,
+                citationIndex: citation.index,
+                cited: citation.cited,
+                url: citation.url,
+                quote: citation.quote,
+                relevanceScore: citation.relevanceScore,
+            })),
+        });
+    }
+}
@@ -0,0 +1,121 @@
+import { ExternalProvider, RawEventType } from 'generated/prisma/enums';
+
+const QUOTE_MAX_LENGTH = 400;
+
+// "[2]", "[1, 3]", "[Source 2]"; not markdown links ("[1](http://...)")
+const MARKER_PATTERN = /\s?\[(?:sources?\s*)?(\d+(?:\s*,\s*(?:sources?\s*)?\d+)*)\](?!\()/gi;
+
+/**
+ * A retrieved source as shown to the user: where it came from, a link back to it and the quoted chunk.
+ * `index` is the number the answer uses in its inline [n] markers.
+ */
+export interface Citation {
+    index: number;
+    rawEventId: string | null;
+    llmOutputId: string | null;
+    contentChunkId: string | null;
+    projectId: string;
+    projectName: string | null;
+    provider: ExternalProvider | null;
+    eventType: RawEventType | null;
+    author: string | null;
+    timestamp: Date | null;
+    url: string | null;
+    quote: string;
+    relevanceScore: number;
+    cited: boolean; // the answer references it with an [n] marker
+}
+
+/**
+ * The RawEvent fields a deep link is built from
+ */
+export interface LinkableEvent {
+    source: ExternalProvider;
+    sourceId: string | null;
+    eventType: RawEventType;
+    channelId: string | null;
+    threadId: string | null;
+    metadata: unknown;
+}
+
+/**
+ * Keeps the inline [n] markers that point at one of the `sourceCount` sources and strips the rest.
+ * Markers are normalized to "[n]" (a list becomes "[1][3]").
+ */
+export function validateCitationMarkers(answer: string, sourceCount: number): { answer: string; cited: number[]; invalid: number[] } {
+    const cited = new Set<number>();
+    const invalid = new Set<number>();
+
+    const validated = answer.replace(MARKER_PATTERN, (marker, list: string) => {
+        const numbers = list.match(/\d+/g)!.map((n) => parseInt(n, 10));
+        const valid = numbers.filter((n) => n >= 1 && n <= sourceCount);
+
+        numbers.filter((n) => !valid.includes(n)).forEach((n) => invalid.add(n));
+        valid.forEach((n) => cited.add(n));
+
+        if (valid.length === 0) return '';
+        const leadingSpace = /^\s/.test(marker) ? ' ' : '';
+        return leadingSpace + [...new Set(valid)].map((n) => `[${n}]`).join('');
+    });
+
+    return {
+        answer: validated,
+        cited: [...cited].sort((a, b) => a - b),
+        invalid: [...invalid].sort((a, b) => a - b),
+    };
+}
+
+/**
+ * Link back to the event in its provider, or null when the stored metadata is not enough to build one.
+ * `context` carries what only the integration knows (Jira site URL, Discord guild of the channel).
+ */
+export function buildDeepLink(event: LinkableEvent, context: { jiraSiteUrl?: string; discordGuildId?: string } = {}): string | null {
+    const metadata = (event.metadata ?? {}) as any;
+
+    switch (event.source) {
+        case ExternalProvider.GITHUB: {
+            const repoUrl: string | undefined =
+                metadata.repository?.html_url || (metadata.repository?.full_name && `https://github.com/${metadata.repository.full_name}`);
+            if (!repoUrl) return null;
+
+            if (event.eventType === RawEventType.COMMIT && event.sourceId) return `${repoUrl}/commit/${event.sourceId}`;
+            if (event.eventType === RawEventType.PULL_REQUEST && metadata.pull_request?.number) return `${repoUrl}/pull/${metadata.pull_request.number}`;
+            if (event.eventType === RawEventType.ISSUE && metadata.issue?.number) return `${repoUrl}/issues/${metadata.issue.number}`;
+            return repoUrl;
+        }
+
+        case ExternalProvider.SLACK: {
+            if (!event.channelId || !event.sourceId) return null;
+            const permalink = `https://slack.com/archives/${event.channelId}/p${event.sourceId.replace('.', '')}`;
+            return event.threadId && event.threadId !== event.sourceId
+                ? `${permalink}?thread_ts=${event.threadId}&cid=${event.channelId}`
+                : permalink;
+        }
+
+        case ExternalProvider.JIRA:
+            return context.jiraSiteUrl && event.sourceId ? `${context.jiraSiteUrl.replace(/\/$/, '')}/browse/${event.sourceId}` : null;
+
+        case ExternalProvider.DISCORD:
+            return context.discordGuildId && event.channelId && event.sourceId
+                ? `https://discord.com/channels/${context.discordGuildId}/${event.channelId}/${event.sourceId}`
+                : null;
+
+        case ExternalProvider.NOTION:
+            return metadata.page?.url || metadata.database?.url || null;
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * The retrieved chunk, shortened on a word boundary
+ */
+export function quoteOf(content: string): string {
+    const text = content.replace(/\s+/g, ' ').trim();
+    if (text.length <= QUOTE_MAX_LENGTH) return text;
+
+    const cut = text.slice(0, QUOTE_MAX_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${cut.slice(0, lastSpace > QUOTE_MAX_LENGTH / 2 ? lastSpace : QUOTE_MAX_LENGTH)}…`;
+}
@@ -0,0 +1,321 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { AuthorCandidate, parseRetrievalFilters, RetrievalFilters } from './retrieval-filters';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reciprocal-rank fusion constant: a result at rank r in a list scores 1 / (RRF_K + r)
+const RRF_K = 60;
+// Results per retrieval channel before fusion
+const CANDIDATES_PER_CHANNEL = 30;
+// Recent events score up to (1 + RECENCY_WEIGHT)x, halving every RECENCY_HALF_LIFE_DAYS
+const RECENCY_WEIGHT = 0.5;
+const RECENCY_HALF_LIFE_DAYS = 14;
+// Events attributed to an org member (vs. bots or unmapped identities) score AUTHORSHIP_WEIGHT higher
+const AUTHORSHIP_WEIGHT = 0.1;
+
+// Must match the expression indexes created in the rag_fulltext_search migration
+const RAW_EVENT_TSVECTOR = `to_tsvector('english', coalesce(re.content, '') || ' ' || coalesce(re."semanticSummary", ''))`;
+const CHUNK_TSVECTOR = `to_tsvector('english', cc.content)`;
+
+export type RetrievalChannel = 'vector' | 'event_text' | 'chunk_text';
+
+export interface RetrievedSource {
+    rawEventId?: string;
+    llmOutputId?: string;
+    contentChunkId?: string;
+    projectId: string;
+    content: string;
+    timestamp: Date | null;
+    similarity?: number; // cosine similarity, when the vector channel found it
+    score: number; // fused score, relative to the best result (0..1]
+    matchedBy: RetrievalChannel[];
+}
+
+interface RetrievalHit {
+    rawEventId: string | null;
+    llmOutputId: string | null;
+    contentChunkId: string | null;
+    projectId: string;
+    content: string | null;
+    timestamp: Date | null;
+    authorMemberId: string | null;
+    similarity?: number;
+}
+
+/**
+ * Hybrid RAG retrieval: pgvector similarity, Postgres full-text search over RawEvent content and semantic summaries
+ * and over ContentChunks, merged with reciprocal-rank fusion and boosted by recency and authorship.
+ * Filters implied by the question (dates, authors, providers, event types) apply to every channel.
+ * A failing channel (e.g. pgvector missing) is skipped; the others still rank.
+ */
+@Injectable()
+export class HybridRetrievalService {
+    private readonly logger = new LoggerService(HybridRetrievalService.name);
+
+    constructor(private readonly databaseService: DatabaseService) { }
+
+    async retrieve(params: {
+        organizationId: string;
+        projectIds: string[];
+        question: string;
+        queryEmbedding: number[] | null; // null when the question could not be embedded
+        userId?: string;
+        limit?: number;
+        minSimilarity?: number;
+    }): Promise<{ sources: RetrievedSource[]; filters: RetrievalFilters; terms: string[] }> {
+        const { organizationId, projectIds, question, queryEmbedding, userId, limit = 10, minSimilarity = 0.3 } = params;
+
+        if (projectIds.length === 0) {
+            return { sources: [], filters: {}, terms: [] };
+        }
+
+        const { authors, askerMemberIds } = await this.getAuthorCandidates(organizationId, projectIds, userId);
+        const { filters, terms } = parseRetrievalFilters(question, { authors, askerMemberIds });
+
+        const [vectorHits, eventTextHits, chunkTextHits] = await Promise.all([
+            queryEmbedding
+                ? this.runChannel('vector', () => this.searchVector(queryEmbedding, projectIds, filters, minSimilarity))
+                : [],
+            terms.length > 0 ? this.runChannel('event_text', () => this.searchEventText(terms, projectIds, filters)) : [],
+            terms.length > 0 ? this.runChannel('chunk_text', () => this.searchChunkText(terms, projectIds, filters)) : [],
+        ]);
+
+        const sources = this.fuse(
+            [
+                ['vector', vectorHits],
+                ['chunk_text', chunkTextHits],
+                ['event_text', eventTextHits],
+            ],
+            limit
+        );
+
+        return { sources, filters, terms };
+    }
+
+    private async runChannel(channel: RetrievalChannel, search: () => Promise<RetrievalHit[]>): Promise<RetrievalHit[]> {
+        try {
+            return await search();
+        } catch (error) {
+            this.logger.warn(`Retrieval channel ${channel} failed: ${error.message}`, HybridRetrievalService.name);
+            return [];
+        }
+    }
+
+    /**
+     * Members of the org and unmapped provider author names seen in the projects, for author filters
+     */
+    private async getAuthorCandidates(organizationId: string, projectIds: string[], userId?: string) {
+        const [members, rawAuthors] = await Promise.all([
+            this.databaseService.organizationMember.findMany({
+                where: { organizationId, status: 'ACTIVE' },
+                select: { id: true, userId: true, user: { select: { firstName: true, lastName: true } } },
+            }),
+            this.databaseService.rawEvent.findMany({
+                where: { projectId: { in: projectIds }, deletedAt: null, authorMemberId: null, authorName: { not: null } },
+                distinct: ['authorName'],
+                select: { authorName: true },
+                take: 200,
+            }),
+        ]);
+
+        const authors: AuthorCandidate[] = [
+            ...members
+                .map((member) => ({
+                    name: [member.user.firstName, member.user.lastName].filter(Boolean).join(' '),
+                    memberId: member.id,
+                }))
+                .filter((author) => author.name),
+            ...rawAuthors.map((event) => ({ name: event.authorName! })),
+        ];
+
+        return {
+            authors,
+            askerMemberIds: userId ? members.filter((member) => member.userId === userId).map((member) => member.id) : [],
+        };
+    }
+
+    private async searchVector(
+        queryEmbedding: number[],
+        projectIds: string[],
+        filters: RetrievalFilters,
+        minSimilarity: number
+    ): Promise<RetrievalHit[]> {
+        // Use $queryRawUnsafe because Prisma.sql doesn't support dynamic vector type casting
+        const params: unknown[] = [`[${queryEmbedding.join(',')}]`, projectIds];
+        const filterSql = this.filterSql(filters, params, 'COALESCE(re.timestamp, lo."createdAt")');
+        params.push(CANDIDATES_PER_CHANNEL);
+
+        const rows = await this.databaseService.$queryRawUnsafe<Array<RetrievalHit & { similarity: number | string }>>(
+            `
+            SELECT
+                e."llmOutputId",
+                e."contentChunkId",
+                COALESCE(cc."rawEventId", lo."rawEventId") AS "rawEventId",
+                COALESCE(re."projectId", lo."projectId") AS "projectId",
+                COALESCE(cc.content, lo.content, '') AS content,
+                COALESCE(re.timestamp, lo."createdAt") AS "timestamp",
+                re."authorMemberId",
+                1 - (e.vector <=> $1::vector) AS similarity
+            FROM "Embedding" e
+            LEFT JOIN "ContentChunk" cc ON e."contentChunkId" = cc.id
+            LEFT JOIN "LlmOutput" lo ON e."llmOutputId" = lo.id
+            LEFT JOIN "RawEvent" re ON re.id = COALESCE(cc."rawEventId", lo."rawEventId")
+            WHERE COALESCE(re."projectId", lo."projectId") = ANY($2::text[])
+              AND re."deletedAt" IS NULL
+              ${filterSql}
+            ORDER BY e.vector <=> $1::vector
+            LIMIT $${params.length}
+            `,
+            ...params
+        );
+
+        return rows
+            .map((row) => ({ ...row, similarity: typeof row.similarity === 'string' ? parseFloat(row.similarity) : row.similarity }))
+            .filter((row) => row.similarity >= minSimilarity);
+    }
+
+    private async searchEventText(terms: string[], projectIds: string[], filters: RetrievalFilters): Promise<RetrievalHit[]> {
+        const params: unknown[] = [terms.join(' | '), projectIds];
+        const filterSql = this.filterSql(filters, params, 're.timestamp');
+        params.push(CANDIDATES_PER_CHANNEL);
+
+        return this.databaseService.$queryRawUnsafe<RetrievalHit[]>(
+            `
+            SELECT
+                NULL AS "llmOutputId",
+                NULL AS "contentChunkId",
+                re.id AS "rawEventId",
+                re."projectId",
+                COALESCE(re.content, re."semanticSummary", '') AS content,
+                re.timestamp AS "timestamp",
+                re."authorMemberId"
+            FROM "RawEvent" re, to_tsquery('english', $1) query
+            WHERE re."projectId" = ANY($2::text[])
+              AND re."deletedAt" IS NULL
+              AND ${RAW_EVENT_TSVECTOR} @@ query
+              ${filterSql}
+            ORDER BY ts_rank_cd(${RAW_EVENT_TSVECTOR}, query) DESC
+            LIMIT $${params.length}
+            `,
+            ...params
+        );
+    }
+
+    private async searchChunkText(terms: string[], projectIds: string[], filters: RetrievalFilters): Promise<RetrievalHit[]> {
+        const params: unknown[] = [terms.join(' | '), projectIds];
+        const filterSql = this.filterSql(filters, params, 're.timestamp');
+        params.push(CANDIDATES_PER_CHANNEL);
+
+        return this.databaseService.$queryRawUnsafe<RetrievalHit[]>(
+            `
+            SELECT
+                cc."llmOutputId",
+                cc.id AS "contentChunkId",
+                cc."rawEventId",
+                re."projectId",
+                cc.content,
+                re.timestamp AS "timestamp",
+                re."authorMemberId"
+            FROM "ContentChunk" cc
+            JOIN "RawEvent" re ON re.id = cc."rawEventId", to_tsquery('english', $1) query
+            WHERE re."projectId" = ANY($2::text[])
+              AND re."deletedAt" IS NULL
+              AND ${CHUNK_TSVECTOR} @@ query
+              ${filterSql}
+            ORDER BY ts_rank_cd(${CHUNK_TSVECTOR}, query) DESC
+            LIMIT $${params.length}
+            `,
+            ...params
+        );
+    }
+
+    /**
+     * SQL conditions for the question's filters, appending their values to params. Outputs without a RawEvent
+     * (e.g. reports) only pass date filters.
+     */
+    private filterSql(filters: RetrievalFilters, params: unknown[], timestampSql: string): string {
+        const param = (value: unknown) => {
+            params.push(value);
+            return `$${params.length}`;
+        };
+        const clauses: string[] = [];
+
+        // Timestamps are stored as UTC without a zone
+        if (filters.since) clauses.push(`${timestampSql} >= ${param(filters.since.toISOString())}::timestamp`);
+        if (filters.until) clauses.push(`${timestampSql} < ${param(filters.until.toISOString())}::timestamp`);
+        if (filters.sources?.length) clauses.push(`re.source::text = ANY(${param(filters.sources)}::text[])`);
+        if (filters.eventTypes?.length) clauses.push(`re."eventType"::text = ANY(${param(filters.eventTypes)}::text[])`);
+        if (filters.authorMemberIds?.length || filters.authorNames?.length) {
+            clauses.push(
+                `(re."authorMemberId" = ANY(${param(filters.authorMemberIds ?? [])}::text[])` +
+                    ` OR re."authorName" = ANY(${param(filters.authorNames ?? [])}::text[]))`
+            );
+        }
+
+        return clauses.map((clause) => `AND ${clause}`).join('\n              ');
+    }
+
+    /**
+     * Reciprocal-rank fusion over the channels, keyed by RawEvent (or LlmOutput for outputs without one),
+     * then recency and authorship boosts
+     */
+    private fuse(lists: Array<[RetrievalChannel, RetrievalHit[]]>, limit: number): RetrievedSource[] {
+        const now = Date.now();
+        const fused = new Map<string, { source: RetrievedSource; rrf: number; authorMemberId: string | null }>();
+
+        for (const [channel, hits] of lists) {
+            const seen = new Set<string>();
+            let rank = 0;
+
+            for (const hit of hits) {
+                const key = hit.rawEventId ? `event:${hit.rawEventId}` : `output:${hit.llmOutputId}`;
+                if (seen.has(key)) continue;
+                seen.add(key);
+                rank++;
+
+                let entry = fused.get(key);
+                if (!entry) {
+                    entry = {
+                        source: {
+                            rawEventId: hit.rawEventId || undefined,
+                            llmOutputId: hit.llmOutputId || undefined,
+                            contentChunkId: hit.contentChunkId || undefined,
+                            projectId: hit.projectId,
+                            content: hit.content || '',
+                            timestamp: hit.timestamp ? new Date(hit.timestamp) : null,
+                            score: 0,
+                            matchedBy: [],
+                        },
+                        rrf: 0,
+                        authorMemberId: hit.authorMemberId,
+                    };
+                    fused.set(key, entry);
+                }
+
+                entry.rrf += 1 / (RRF_K + rank);
+                entry.source.matchedBy.push(channel);
+                if (!entry.source.content && hit.content) entry.source.content = hit.content;
+                if (!entry.source.llmOutputId && hit.llmOutputId) entry.source.llmOutputId = hit.llmOutputId;
+                if (!entry.source.contentChunkId && hit.contentChunkId) entry.source.contentChunkId = hit.contentChunkId;
+                if (hit.similarity !== undefined) {
+                    entry.source.similarity = Math.max(entry.source.similarity ?? -1, hit.similarity);
+                }
+            }
+        }
+
+        const ranked = [...fused.values()]
+            .map(({ source, rrf, authorMemberId }) => {
+                const ageDays = source.timestamp ? Math.max(0, (now - source.timestamp.getTime()) / DAY_MS) : null;
+                const recency = ageDays === null ? 0 : RECENCY_WEIGHT * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+                const authorship = authorMemberId ? AUTHORSHIP_WEIGHT : 0;
+                return { ...source, score: rrf * (1 + recency + authorship) };
+            })
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+
+        const top = ranked[0]?.score || 1;
+        return ranked.map((source) => ({ ...source, score: source.score / top }));
+    }
+}
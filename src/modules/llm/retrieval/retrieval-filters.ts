@@ -0,0 +1,193 @@
+import { ExternalProvider, RawEventType } from 'generated/prisma/enums';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = [
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const PROVIDER_PATTERNS: Array<[RegExp, ExternalProvider]> = [
+    [/\bgithub\b/, ExternalProvider.GITHUB],
+    [/\bslack\b/, ExternalProvider.SLACK],
+    [/\bdiscord\b/, ExternalProvider.DISCORD],
+    [/\bnotion\b/, ExternalProvider.NOTION],
+    [/\bjira\b/, ExternalProvider.JIRA],
+    [/\bfigma\b/, ExternalProvider.FIGMA],
+];
+
+const EVENT_TYPE_PATTERNS: Array<[RegExp, RawEventType]> = [
+    [/\bcommit(s|ted)?\b/, RawEventType.COMMIT],
+    [/\b(pull requests?|prs?|merge requests?)\b/, RawEventType.PULL_REQUEST],
+    [/\b(issues?|tickets?)\b/, RawEventType.ISSUE],
+    [/\b(messages?|discussions?)\b/, RawEventType.MESSAGE],
+    [/\b(deploys?|deployed|deployments?)\b/, RawEventType.DEPLOYMENT],
+];
+
+// Questions about the asker's own work ("what did I ship", "my PRs")
+const SELF_PATTERN = /\b(my|mine)\b|\b(did|have|had|was) i\b|\bi (worked|did|wrote|committed|pushed|opened|merged|shipped|fixed)\b/;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'by', 'with', 'from', 'about', 'into',
+    'what', 'which', 'who', 'whom', 'when', 'where', 'why', 'how', 'is', 'are', 'was', 'were', 'be', 'been',
+    'do', 'does', 'did', 'done', 'has', 'have', 'had', 'can', 'could', 'should', 'would', 'will', 'any', 'all',
+    'i', 'me', 'my', 'mine', 'we', 'our', 'us', 'you', 'your', 'they', 'their', 'it', 'its', 'this', 'that',
+    'these', 'those', 'there', 'here', 'tell', 'show', 'give', 'list', 'please', 'anything', 'something',
+    'today', 'yesterday', 'week', 'weeks', 'month', 'months', 'day', 'days', 'last', 'past', 'since',
+    'during', 'ago', 'recent', 'recently', 'latest',
+]);
+
+/**
+ * Filters a question implies for retrieval. All dates are UTC; `until` is exclusive.
+ */
+export interface RetrievalFilters {
+    since?: Date;
+    until?: Date;
+    sources?: ExternalProvider[];
+    eventTypes?: RawEventType[];
+    authorMemberIds?: string[];
+    authorNames?: string[]; // RawEvent.authorName for authors not mapped to a member
+}
+
+/**
+ * A person the question may refer to: an org member (memberId) or a raw provider author name
+ */
+export interface AuthorCandidate {
+    name: string;
+    memberId?: string;
+}
+
+/**
+ * Derive retrieval filters (date range, providers, event types, authors) from a question, plus the remaining
+ * keywords for full-text search. Heuristic on purpose: it only narrows retrieval when the wording is explicit.
+ */
+export function parseRetrievalFilters(
+    question: string,
+    options: { now?: Date; authors?: AuthorCandidate[]; askerMemberIds?: string[] } = {}
+): { filters: RetrievalFilters; terms: string[] } {
+    const now = options.now ?? new Date();
+    const text = question.toLowerCase();
+    const filters: RetrievalFilters = { ...parseDateRange(text, now) };
+    const consumed = new Set<string>();
+
+    const sources = PROVIDER_PATTERNS.filter(([pattern]) => pattern.test(text)).map(([, provider]) => provider);
+    if (sources.length > 0) {
+        filters.sources = sources;
+        sources.forEach((provider) => consumed.add(provider.toLowerCase()));
+    }
+
+    const eventTypes = EVENT_TYPE_PATTERNS.filter(([pattern]) => pattern.test(text)).map(([, type]) => type);
+    if (eventTypes.length > 0) {
+        filters.eventTypes = eventTypes;
+    }
+
+    const memberIds = new Set<string>();
+    const authorNames = new Set<string>();
+
+    if (options.askerMemberIds?.length && SELF_PATTERN.test(text)) {
+        options.askerMemberIds.forEach((id) => memberIds.add(id));
+    }
+
+    for (const author of matchAuthors(text, options.authors ?? [])) {
+        if (author.memberId) {
+            memberIds.add(author.memberId);
+        } else {
+            authorNames.add(author.name);
+        }
+        words(author.name).forEach((word) => consumed.add(word));
+    }
+
+    if (memberIds.size > 0) filters.authorMemberIds = [...memberIds];
+    if (authorNames.size > 0) filters.authorNames = [...authorNames];
+
+    const terms = [...new Set(words(text))]
+        .filter((word) => word.length > 1 && !STOP_WORDS.has(word) && !consumed.has(word) && !MONTHS.includes(word))
+        .filter((word) => !/^\d+$/.test(word))
+        .slice(0, 16);
+
+    return { filters, terms };
+}
+
+/**
+ * True when no filter narrows retrieval
+ */
+export function hasRetrievalFilters(filters: RetrievalFilters): boolean {
+    return Boolean(
+        filters.since ||
+            filters.until ||
+            filters.sources?.length ||
+            filters.eventTypes?.length ||
+            filters.authorMemberIds?.length ||
+            filters.authorNames?.length
+    );
+}
+
+function parseDateRange(text: string, now: Date): Pick<RetrievalFilters, 'since' | 'until'> {
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const monday = new Date(today.getTime() - ((today.getUTCDay() + 6) % 7) * DAY_MS);
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    const rolling = text.match(/\b(?:last|past) (\d+) (day|week|month)s?\b/);
+    if (rolling) {
+        const amount = parseInt(rolling[1], 10);
+        if (rolling[2] === 'month') {
+            return { since: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - amount, now.getUTCDate())) };
+        }
+        return { since: new Date(now.getTime() - amount * (rolling[2] === 'week' ? 7 : 1) * DAY_MS) };
+    }
+
+    if (/\btoday\b/.test(text)) return { since: today };
+    if (/\byesterday\b/.test(text)) return { since: new Date(today.getTime() - DAY_MS), until: today };
+    if (/\bthis week\b/.test(text)) return { since: monday };
+    if (/\blast week\b/.test(text)) return { since: new Date(monday.getTime() - 7 * DAY_MS), until: monday };
+    if (/\bpast week\b/.test(text)) return { since: new Date(now.getTime() - 7 * DAY_MS) };
+    if (/\bthis month\b/.test(text)) return { since: monthStart };
+    if (/\blast month\b/.test(text)) {
+        return { since: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)), until: monthStart };
+    }
+    if (/\bpast month\b/.test(text)) return { since: new Date(now.getTime() - 30 * DAY_MS) };
+
+    const isoSince = text.match(/\bsince (\d{4})-(\d{2})-(\d{2})\b/);
+    if (isoSince) {
+        return { since: new Date(Date.UTC(+isoSince[1], +isoSince[2] - 1, +isoSince[3])) };
+    }
+
+    const month = text.match(new RegExp(`\\b(in|during|since) (${MONTHS.join('|')})(?: (\\d{4}))?\\b`));
+    if (month) {
+        const index = MONTHS.indexOf(month[2]);
+        // Without a year, the most recent such month (this year unless it has not started yet)
+        const year = month[3] ? parseInt(month[3], 10) : index > now.getUTCMonth() ? now.getUTCFullYear() - 1 : now.getUTCFullYear();
+        const since = new Date(Date.UTC(year, index, 1));
+        return month[1] === 'since' ? { since } : { since, until: new Date(Date.UTC(year, index + 1, 1)) };
+    }
+
+    return {};
+}
+
+/**
+ * Authors named in the question: full names, or first names that only one candidate has
+ */
+function matchAuthors(text: string, authors: AuthorCandidate[]): AuthorCandidate[] {
+    const firstNameCounts = new Map<string, number>();
+    for (const author of authors) {
+        const first = words(author.name)[0];
+        if (first) firstNameCounts.set(first, (firstNameCounts.get(first) || 0) + 1);
+    }
+
+    return authors.filter((author) => {
+        const parts = words(author.name);
+        if (parts.length === 0) return false;
+        if (containsPhrase(text, parts.join(' '))) return true;
+
+        const first = parts[0];
+        return parts.length > 1 && first.length >= 3 && firstNameCounts.get(first) === 1 && containsPhrase(text, first);
+    });
+}
+
+function containsPhrase(text: string, phrase: string) {
+    return new RegExp(`\\b${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(words(text).join(' '));
+}
+
+function words(text: string) {
+    return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
@@ -0,0 +1,116 @@
+import { CreditAnalyticsService } from '../../analytics/credit-analytics.service';
+import { ChatToolContext, ChatToolsService } from './chat-tools.service';
+
+describe('ChatToolsService', () => {
+    describe('get_credit_usage', () => {
+        const transactions = [
+            {
+                organizationId: 'org-1',
+                amount: -1.5,
+                llmUsage: { projectId: 'project-1', operationType: 'CHAT_ANSWER', referenceType: 'conversation', referenceId: 'conversation-1' },
+            },
+            {
+                organizationId: 'org-1',
+                amount: -0.5,
+                llmUsage: { projectId: 'project-1', operationType: 'SUMMARY', referenceType: 'raw_event', referenceId: 'event-1' },
+            },
+            {
+                organizationId: 'org-1',
+                amount: -4,
+                llmUsage: { projectId: 'project-2', operationType: 'CHAT_ANSWER', referenceType: 'conversation', referenceId: 'conversation-2' },
+            },
+        ];
+
+        // Matches the transaction and LlmUsage fields of the filter the way Prisma would
+        const databaseService = {
+            creditTransaction: {
+                findMany: jest.fn(async ({ where }) =>
+                    transactions.filter(
+                        (txn) =>
+                            txn.organizationId === where.organizationId &&
+                            Object.entries(where.llmUsage ?? {}).every(([field, value]) => (txn.llmUsage as any)[field] === value)
+                    )
+                ),
+            },
+            project: {
+                findMany: jest.fn(async ({ where }) =>
+                    [{ id: 'project-1', name: 'Apollo' }, { id: 'project-2', name: 'Gemini' }].filter((p) => where.id.in.includes(p.id))
+                ),
+            },
+            llmUsage: { findMany: jest.fn().mockResolvedValue([]) },
+        };
+        const authorizationService = { assertOrgPermission: jest.fn().mockResolvedValue(true) };
+
+        const tools = new ChatToolsService(
+            databaseService as any,
+            authorizationService as any,
+            {} as any,
+            {} as any,
+            new CreditAnalyticsService(databaseService as any),
+        );
+
+        const projectChat: ChatToolContext = {
+            userId: 'user-1',
+            organizationId: 'org-1',
+            scope: 'project',
+            projectIds: ['project-1'],
+            projectNames: new Map([['project-1', 'Apollo']]),
+        };
+
+        it('reports the spend of the chat project', async () => {
+            const result = await tools.execute({ id: 'call-1', name: 'get_credit_usage', arguments: {} }, projectChat);
+
+            expect(result.ok).toBe(true);
+            expect(JSON.parse(result.content)).toEqual({
+                totalCredits: 2,
+                byOperationType: { CHAT_ANSWER: 1.5, SUMMARY: 0.5 },
+                byProject: [{ project: 'Apollo', totalCredits: 2 }],
+                cacheHits: 0,
+            });
+            expect(authorizationService.assertOrgPermission).toHaveBeenCalledWith('user-1', 'org-1', 'VIEW_REPORTS');
+        });
+
+        it('ignores a project argument outside the chat project', async () => {
+            const result = await tools.execute({ id: 'call-2', name: 'get_credit_usage', arguments: { project: 'Gemini' } }, projectChat);
+
+            expect(JSON.parse(result.content).totalCredits).toBe(2);
+        });
+    });
+
+    describe('get_activity_stats', () => {
+        const databaseService = {
+            rawEvent: {
+                count: jest.fn().mockResolvedValue(3),
+                groupBy: jest.fn().mockResolvedValue([{ authorName: 'ana', _count: { _all: 3 } }]),
+            },
+        };
+        const authorizationService = { assertOrgPermission: jest.fn().mockResolvedValue(true) };
+        const tools = new ChatToolsService(databaseService as any, authorizationService as any, {} as any, {} as any, {} as any);
+
+        const orgChat: ChatToolContext = {
+            userId: 'user-1',
+            organizationId: 'org-1',
+            scope: 'organization',
+            projectIds: ['project-1'],
+            projectNames: new Map([['project-1', 'Apollo']]),
+        };
+
+        it('counts merges by the merged flag over whole days of when they arrived', async () => {
+            const result = await tools.execute(
+                { id: 'call-1', name: 'get_activity_stats', arguments: { groupBy: 'author', merged: true, since: '2026-10-12', until: '2026-10-18' } },
+                orgChat
+            );
+
+            expect(JSON.parse(result.content)).toEqual({ total: 3, groupBy: 'author', groups: [{ author: 'ana', count: 3 }] });
+            expect(databaseService.rawEvent.count).toHaveBeenCalledWith({
+                where: {
+                    projectId: { in: ['project-1'] },
+                    deletedAt: null,
+                    eventType: 'PULL_REQUEST',
+                    ingestedAt: { gte: new Date('2026-10-12T00:00:00Z'), lt: new Date('2026-10-19T00:00:00Z') },
+                    AND: [{ metadata: { path: ['pull_request', 'merged'], equals: true } }],
+                },
+            });
+        });
+    });
+});
@@ -0,0 +1,416 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { ExternalProvider, FeatureStatus, PermissionName, RawEventType, TaskStatus } from 'generated/prisma/enums';
+import { Prisma } from 'generated/prisma/client';
+import { AuthorizationService } from '../../auth/authorization.service';
+import { TasksService } from '../../tasks/tasks.service';
+import { FeaturesService } from '../../features/features.service';
+import { CreditAnalyticsService } from '../../analytics/credit-analytics.service';
+import { LlmToolCall, LlmToolDefinition } from '../providers/llm-provider.interface';
+
+const TOOL_RESULT_MAX_CHARS = 4000;
+const MAX_LIST_LIMIT = 25;
+
+/**
+ * Who is asking and which projects the answer may draw on (the chat's retrieval scope)
+ */
+export interface ChatToolContext {
+    userId: string;
+    organizationId: string;
+    scope: 'project' | 'organization';
+    projectIds: string[];
+    projectNames: Map<string, string>;
+}
+
+/**
+ * Outcome of one tool call; `content` is the JSON sent back to the model
+ */
+export interface ChatToolResult {
+    ok: boolean;
+    content: string;
+    error?: string;
+}
+
+/**
+ * A tool call as recorded in the assistant message's metadata.toolCalls
+ */
+export interface ChatToolCallRecord {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+    ok: boolean;
+    error?: string;
+    durationMs: number;
+}
+
+const ACTIVITY_GROUPS = {
+    author: 'authorName',
+    eventType: 'eventType',
+    source: 'source',
+    project: 'projectId',
+} as const;
+
+const projectParameter = {
+    type: 'string' as const,
+    description: 'Project name or id; omit to cover every project in scope',
+};
+
+const CHAT_TOOLS: Array<{ permission: PermissionName; definition: LlmToolDefinition }> = [
+    {
+        permission: PermissionName.VIEW_PROJECTS,
+        definition: {
+            name: 'get_tasks',
+            description: 'List and count project tasks, optionally only those with a status or that are overdue (past their deadline and not done)',
+            parameters: {
+                type: 'object',
+                properties: {
+                    project: projectParameter,
+                    status: { type: 'string', enum: Object.values(TaskStatus) },
+                    overdue: { type: 'boolean', description: 'Only tasks past their completion deadline or due date that are not done' },
+                    limit: { type: 'integer', minimum: 1, maximum: MAX_LIST_LIMIT },
+                },
+            },
+        },
+    },
+    {
+        permission: PermissionName.VIEW_PROJECTS,
+        definition: {
+            name: 'get_features',
+            description: 'List and count detected product features and their status',
+            parameters: {
+                type: 'object',
+                properties: {
+                    project: projectParameter,
+                    status: { type: 'string', enum: Object.values(FeatureStatus) },
+                    limit: { type: 'integer', minimum: 1, maximum: MAX_LIST_LIMIT },
+                },
+            },
+        },
+    },
+    {
+        permission: PermissionName.VIEW_PROJECTS,
+        definition: {
+            name: 'get_activity_stats',
+            description:
+                'Count integration activity (commits, pull requests, issues, messages...) grouped by author, event type, source or project, e.g. who merged the most pull requests. ' +
+                'since/until compare with when the event happened (a pull request or issue is stamped with when it was opened); with action or merged ' +
+                'they compare with when the event was received instead, so "closed last week" counts closes made last week',
+            parameters: {
+                type: 'object',
+                properties: {
+                    project: projectParameter,
+                    groupBy: { type: 'string', enum: Object.keys(ACTIVITY_GROUPS) },
+                    eventType: { type: 'string', enum: Object.values(RawEventType) },
+                    source: { type: 'string', enum: Object.values(ExternalProvider) },
+                    action: { type: 'string', description: 'Provider action stored with the event, e.g. "opened", "closed", "reopened"' },
+                    merged: { type: 'boolean', description: 'Pull requests only: true for merged ones (a merge arrives as action "closed"), false for closed without merging' },
+                    since: { type: 'string', description: 'ISO date, inclusive' },
+                    until: { type: 'string', description: 'ISO date, inclusive' },
+                    limit: { type: 'integer', minimum: 1, maximum: MAX_LIST_LIMIT },
+                },
+                required: ['groupBy'],
+            },
+        },
+    },
+    {
+        permission: PermissionName.VIEW_REPORTS,
+        definition: {
+            name: 'get_credit_usage',
+            description: 'AI credits spent, broken down by operation type and project',
+            parameters: {
+                type: 'object',
+                properties: {
+                    project: projectParameter,
+                    since: { type: 'string', description: 'ISO date, inclusive' },
+                    until: { type: 'string', description: 'ISO date, inclusive' },
+                },
+            },
+        },
+    },
+];
+
+/**
+ * Read-only tools the chat model can call for live figures (task counts, feature status, activity
+ * rankings, credit spend). Tools are offered only when the asker holds their permission, and every call
+ * re-checks it and stays within the chat's projects. Failures are returned to the model as { error } so
+ * the answer can say the data is unavailable rather than fail.
+ */
+@Injectable()
+export class ChatToolsService {
+    private readonly logger = new LoggerService(ChatToolsService.name);
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly authorizationService: AuthorizationService,
+        private readonly tasksService: TasksService,
+        private readonly featuresService: FeaturesService,
+        private readonly creditAnalyticsService: CreditAnalyticsService,
+    ) { }
+
+    /**
+     * Tool definitions the user is allowed to call in this organization
+     */
+    async getTools(userId: string, organizationId: string): Promise<LlmToolDefinition[]> {
+        const permissions = [...new Set(CHAT_TOOLS.map((tool) => tool.permission))];
+        const granted = new Set<PermissionName>();
+
+        for (const permission of permissions) {
+            if (await this.hasPermission(userId, organizationId, permission)) {
+                granted.add(permission);
+            }
+        }
+
+        return CHAT_TOOLS.filter((tool) => granted.has(tool.permission)).map((tool) => tool.definition);
+    }
+
+    async execute(call: LlmToolCall, context: ChatToolContext): Promise<ChatToolResult> {
+        const tool = CHAT_TOOLS.find((candidate) => candidate.definition.name === call.name);
+
+        try {
+            if (!tool) {
+                throw new BadRequestException(`Unknown tool ${call.name}`);
+            }
+            await this.authorizationService.assertOrgPermission(context.userId, context.organizationId, tool.permission);
+
+            const args = call.arguments ?? {};
+            let result: unknown;
+            switch (call.name) {
+                case 'get_tasks':
+                    result = await this.getTasks(args, context);
+                    break;
+                case 'get_features':
+                    result = await this.getFeatures(args, context);
+                    break;
+                case 'get_activity_stats':
+                    result = await this.getActivityStats(args, context);
+                    break;
+                case 'get_credit_usage':
+                    result = await this.getCreditUsage(args, context);
+                    break;
+            }
+
+            return { ok: true, content: this.serialize(result) };
+        } catch (error) {
+            this.logger.warn(`Chat tool ${call.name} failed: ${error.message}`, ChatToolsService.name);
+            return { ok: false, content: JSON.stringify({ error: error.message }), error: error.message };
+        }
+    }
+
+    private async getTasks(args: Record<string, unknown>, context: ChatToolContext) {
+        const projectIds = this.resolveProjects(args.project, context);
+        const status = this.enumArg(args.status, Object.values(TaskStatus), 'status');
+        const filters = { status, overdue: args.overdue === true };
+        const limit = this.limitArg(args.limit, 10);
+        const now = new Date();
+
+        const perProject = await Promise.all(
+            projectIds.map(async (projectId) => ({
+                projectId,
+                total: await this.tasksService.countTasks(projectId, filters),
+                tasks: await this.tasksService.getTasks(projectId, { ...filters, limit }),
+            }))
+        );
+
+        return {
+            total: perProject.reduce((sum, project) => sum + project.total, 0),
+            ...(projectIds.length > 1 && {
+                byProject: perProject.map((project) => ({ project: context.projectNames.get(project.projectId), total: project.total })),
+            }),
+            tasks: perProject
+                .flatMap((project) => project.tasks)
+                .slice(0, limit)
+                .map((task) => {
+                    const deadline = task.completionDeadline ?? task.dueDate;
+                    return {
+                        project: context.projectNames.get(task.projectId),
+                        title: task.title,
+                        status: task.status,
+                        priority: task.priority,
+                        dueDate: task.dueDate,
+                        completionDeadline: task.completionDeadline,
+                        overdue: task.status !== TaskStatus.DONE && Boolean(deadline && deadline < now),
+                        assignees: task.assignedTo.length,
+                    };
+                }),
+        };
+    }
+
+    private async getFeatures(args: Record<string, unknown>, context: ChatToolContext) {
+        const projectIds = this.resolveProjects(args.project, context);
+        const status = this.enumArg(args.status, Object.values(FeatureStatus), 'status');
+        const limit = this.limitArg(args.limit, 10);
+
+        const [features, byStatus] = await Promise.all([
+            Promise.all(projectIds.map((projectId) => this.featuresService.getFeatures(projectId, { status, limit }))),
+            this.databaseService.feature.groupBy({
+                by: ['status'],
+                where: { projectId: { in: projectIds }, ...(status && { status }) },
+                _count: { _all: true },
+            }),
+        ]);
+
+        return {
+            total: byStatus.reduce((sum, group) => sum + group._count._all, 0),
+            byStatus: Object.fromEntries(byStatus.map((group) => [group.status, group._count._all])),
+            features: features
+                .flat()
+                .slice(0, limit)
+                .map((feature) => ({
+                    project: context.projectNames.get(feature.projectId),
+                    name: feature.name,
+                    status: feature.status,
+                    description: feature.description?.slice(0, 200) ?? null,
+                    completionDate: feature.completionDate,
+                    updatedAt: feature.updatedAt,
+                })),
+        };
+    }
+
+    private async getActivityStats(args: Record<string, unknown>, context: ChatToolContext) {
+        const projectIds = this.resolveProjects(args.project, context);
+        const groupBy = this.enumArg(args.groupBy, Object.keys(ACTIVITY_GROUPS) as Array<keyof typeof ACTIVITY_GROUPS>, 'groupBy') ?? 'author';
+        const field = ACTIVITY_GROUPS[groupBy];
+        const eventType = this.enumArg(args.eventType, Object.values(RawEventType), 'eventType');
+        const source = this.enumArg(args.source, Object.values(ExternalProvider), 'source');
+        const since = this.dateArg(args.since, 'since');
+        const until = this.untilArg(args.until);
+        const action = typeof args.action === 'string' && args.action.trim() ? args.action.trim() : undefined;
+        const merged = typeof args.merged === 'boolean' ? args.merged : undefined;
+
+        // Events are stamped with when their subject was created (a PR with when it was opened), so questions
+        // about an action go by when its event arrived
+        const dateField = action || merged !== undefined ? 'ingestedAt' : 'timestamp';
+        const metadataFilters: Prisma.RawEventWhereInput[] = [
+            ...(action ? [{ metadata: { path: ['action'], equals: action } }] : []),
+            ...(merged !== undefined ? [{ metadata: { path: ['pull_request', 'merged'], equals: merged } }] : []),
+        ];
+
+        const where: Prisma.RawEventWhereInput = {
+            projectId: { in: projectIds },
+            deletedAt: null,
+            ...(merged !== undefined && { eventType: RawEventType.PULL_REQUEST }),
+            ...(eventType && { eventType }),
+            ...(source && { source }),
+            ...((since || until) && { [dateField]: { ...(since && { gte: since }), ...(until && { lt: until }) } }),
+            ...(metadataFilters.length > 0 && { AND: metadataFilters }),
+        };
+
+        const [total, groups] = await Promise.all([
+            this.databaseService.rawEvent.count({ where }),
+            this.databaseService.rawEvent.groupBy({
+                by: [field],
+                where,
+                _count: { _all: true },
+                orderBy: { _count: { id: 'desc' } },
+                take: this.limitArg(args.limit, 10),
+            }),
+        ]);
+
+        return {
+            total,
+            groupBy,
+            groups: groups.map((group) => {
+                const key = (group as Record<string, unknown>)[field] as string | null;
+                return {
+                    [groupBy]: field === 'projectId' ? context.projectNames.get(key ?? '') ?? key : key ?? 'unknown',
+                    count: group._count._all,
+                };
+            }),
+        };
+    }
+
+    private async getCreditUsage(args: Record<string, unknown>, context: ChatToolContext) {
+        // Project chats only ever see their own project's spend
+        const projectId = context.scope === 'project' ? context.projectIds[0] : args.project ? this.resolveProjects(args.project, context)[0] : undefined;
+
+        // endDate is inclusive, so it stops just short of the exclusive bound
+        const until = this.untilArg(args.until);
+        const summary = await this.creditAnalyticsService.getOrgCreditExpenditure(context.organizationId, {
+            startDate: this.dateArg(args.since, 'since'),
+            endDate: until && new Date(until.getTime() - 1),
+            projectId,
+        });
+
+        return {
+            totalCredits: summary.totalCredits,
+            byOperationType: Object.fromEntries(Object.entries(summary.byOperationType).filter(([, credits]) => credits > 0)),
+            byProject: summary.byProject
+                .filter((project) => context.projectIds.includes(project.projectId))
+                .map((project) => ({ project: project.projectName, totalCredits: project.totalCredits })),
+            cacheHits: summary.cache.hits,
+        };
+    }
+
+    /**
+     * The projects a call covers: the named one (by name or id) or every project in scope
+     */
+    private resolveProjects(project: unknown, context: ChatToolContext): string[] {
+        if (project === undefined || project === null || project === '') {
+            return context.projectIds;
+        }
+        if (typeof project !== 'string') {
+            throw new BadRequestException('project must be a project name or id');
+        }
+
+        const wanted = project.trim().toLowerCase();
+        const match = context.projectIds.find(
+            (id) => id.toLowerCase() === wanted || context.projectNames.get(id)?.toLowerCase() === wanted
+        );
+        if (!match) {
+            throw new BadRequestException(`Project "${project}" is not in this conversation's scope`);
+        }
+        return [match];
+    }
+
+    private enumArg<T extends string>(value: unknown, allowed: readonly T[], name: string): T | undefined {
+        if (value === undefined || value === null || value === '') return undefined;
+
+        const match = allowed.find((option) => option.toLowerCase() === String(value).toLowerCase());
+        if (!match) {
+            throw new BadRequestException(`${name} must be one of ${allowed.join(', ')}`);
+        }
+        return match;
+    }
+
+    private dateArg(value: unknown, name: string): Date | undefined {
+        if (value === undefined || value === null || value === '') return undefined;
+
+        const date = new Date(String(value));
+        if (isNaN(date.getTime())) {
+            throw new BadRequestException(`${name} must be an ISO date`);
+        }
+        return date;
+    }
+
+    /**
+     * Exclusive end of an inclusive `until`: a date-only value covers that whole (UTC) day
+     */
+    private untilArg(value: unknown): Date | undefined {
+        const until = this.dateArg(value, 'until');
+        if (!until) return undefined;
+
+        return /^\d{4}-\d{2}-\d{2}$/.test(String(value).trim())
+            ? new Date(until.getTime() + 24 * 60 * 60 * 1000)
+            : new Date(until.getTime() + 1);
+    }
+
+    private limitArg(value: unknown, fallback: number): number {
+        const limit = typeof value === 'number' ? Math.floor(value) : parseInt(String(value ?? ''), 10);
+        return Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_LIST_LIMIT) : fallback;
+    }
+
+    private async hasPermission(userId: string, organizationId: string, permission: PermissionName): Promise<boolean> {
+        try {
+            await this.authorizationService.assertOrgPermission(userId, organizationId, permission);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private serialize(result: unknown): string {
+        const json = JSON.stringify(result);
+        return json.length > TOOL_RESULT_MAX_CHARS ? `${json.slice(0, TOOL_RESULT_MAX_CHARS)}… (truncated)` : json;
+    }
+}
@@ -156,6 +156,7 @@ export class PaymentsController {
             select: {
                 creditBalance: true,
                 creditLimit: true,
+                reservedCredits: true,
             },
         });
 
@@ -163,12 +164,14 @@ export class PaymentsController {
             throw new BadRequestException('Organization not found');
         }
 
+        // Credits held for in-flight LLM operations are not available until settled or released
+        const spendable = org.creditLimit ? Decimal.min(org.creditBalance, org.creditLimit) : org.creditBalance;
+
         return {
             creditBalance: org.creditBalance.toString(),
             creditLimit: org.creditLimit?.toString() || null,
-            availableCredits: org.creditLimit
-                ? Decimal.min(org.creditBalance, org.creditLimit).toString()
-                : org.creditBalance.toString(),
+            reservedCredits: org.reservedCredits.toString(),
+            availableCredits: Decimal.max(spendable.minus(org.reservedCredits), 0).toString(),
         };
     }
 
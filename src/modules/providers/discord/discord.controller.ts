@@ -5,6 +5,9 @@ import { DiscordService } from './discord.service';
 import { AuthGuard } from 'src/modules/auth/guards/auth.guard';
 import { verifyState } from 'src/utils/oauth-state';
 import { ConfigService } from '@nestjs/config';
+import { WebhooksService } from 'src/modules/webhooks/webhooks.service';
+import { IngestionService } from 'src/modules/ingestion/ingestion.service';
+import { ExternalProvider } from 'generated/prisma/enums';
 import { BadRequestException } from '@nestjs/common';
 
 @Controller('integrations/discord')
@@ -13,6 +16,8 @@ export class DiscordController {
         private readonly databaseService: DatabaseService,
         private readonly discordService: DiscordService,
         private readonly configService: ConfigService,
+        private readonly webhooksService: WebhooksService,
+        private readonly ingestionService: IngestionService,
     ) { }
 
     @Get('callback')
@@ -38,7 +43,7 @@ export class DiscordController {
     @Post('webhook')
     @HttpCode(200)
     async webhook(@Req() req: Request, @Res() res: Response) {
-        await this.discordService.handleWebhook(req.body);
+        await this.webhooksService.receive(ExternalProvider.DISCORD, {}, req.body);
         return res.send('ok');
     }
 
@@ -66,6 +71,6 @@ export class DiscordController {
         if (!channelId) {
             throw new BadRequestException('channelId is required');
         }
-        return this.discordService.ingestChannelHistory(integrationId, channelId, projectId);
+        return this.ingestionService.createJob({ integrationId, type: 'discord_history', resourceId: channelId, projectId });
     }
 }
\ No newline at end of file
@@ -1,49 +1,137 @@
-import { Client, GatewayIntentBits } from 'discord.js';
-import { ExternalProvider, RawEventType } from 'generated/prisma/enums';
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { DatabaseService } from 'src/services/database/database.service';
-
-const configService = new ConfigService();
-const databaseService = new DatabaseService(configService);
-
-const client = new Client({
-    intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMessages,
-        GatewayIntentBits.MessageContent,
-    ],
-});
-
-client.on('messageCreate', async message => {
-    if (message.author.bot) return;
-
-    const connections = await databaseService.integrationConnection.findMany({
-        where: {
-            integration: { type: ExternalProvider.DISCORD },
-            items: { path: ['channels'], array_contains: message.channelId }
+import { Interval } from '@nestjs/schedule';
+import { Client, Events, GatewayIntentBits, Message, PartialMessage, Partials } from 'discord.js';
+import { REDIS_DISCORD_GATEWAY_HEALTH_KEY } from 'src/config/constants';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { RedisService } from 'src/services/redis/redis.service';
+import { DiscordMessagePayload, DiscordService } from './discord.service';
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * Discord gateway connection managed by Nest.
+ * Real-time messages, edits and deletes are normalized through DiscordService.
+ * Set DISCORD_GATEWAY_ENABLED=false on replicas that should not hold the gateway connection.
+ */
+@Injectable()
+export class DiscordGatewayWorker implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new LoggerService(DiscordGatewayWorker.name);
+    private client: Client | null = null;
+    private lastEventAt: Date | null = null;
+    private lastError: string | null = null;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly discordService: DiscordService,
+        private readonly redisService: RedisService,
+    ) { }
+
+    async onModuleInit() {
+        const botToken = this.configService.get<string>('DISCORD_BOT_TOKEN');
+        const enabled = this.configService.get<string>('DISCORD_GATEWAY_ENABLED') !== 'false';
+
+        if (!botToken || !enabled) {
+            this.logger.log('Discord gateway disabled', DiscordGatewayWorker.name);
+            return;
         }
-    });
-
-    for (const conn of connections) {
-        await databaseService.rawEvent.create({
-            data: {
-                sourceId: conn.id,
-                project: {
-                    connect: { id: conn.projectId }
-                },
-                integration: {
-                    connect: { id: conn.integrationId }
-                },
-                source: ExternalProvider.DISCORD,
-                eventType: RawEventType.MESSAGE,
-                content: message.content,
-                authorName: message.author.username,
-                timestamp: message.createdAt,
-                metadata: message
-            }
+
+        this.client = new Client({
+            intents: [
+                GatewayIntentBits.Guilds,
+                GatewayIntentBits.GuildMessages,
+                GatewayIntentBits.MessageContent,
+            ],
+            partials: [Partials.Message, Partials.Channel],
+        });
+
+        this.client.once(Events.ClientReady, (client) => {
+            this.logger.log(`Discord gateway connected as ${client.user.tag}`, DiscordGatewayWorker.name);
+            this.reportHealth();
         });
+
+        this.client.on(Events.MessageCreate, (message) => this.handle('create', () =>
+            this.discordService.ingestGatewayMessage(this.toPayload(message))
+        ));
+
+        this.client.on(Events.MessageUpdate, (_oldMessage, newMessage) => this.handle('update', async () => {
+            const message = newMessage.partial ? await newMessage.fetch() : newMessage;
+            await this.discordService.updateGatewayMessage(this.toPayload(message));
+        }));
+
+        this.client.on(Events.MessageDelete, (message) => this.handle('delete', () =>
+            this.discordService.deleteGatewayMessage(message.id)
+        ));
+
+        this.client.on(Events.Error, (error) => {
+            this.lastError = error.message;
+            this.logger.error(`Discord gateway error: ${error.message}`, DiscordGatewayWorker.name);
+        });
+
+        // Login in the background so a Discord outage does not block application startup
+        this.client.login(botToken).catch((error) => {
+            this.lastError = error.message;
+            this.logger.error(`Discord gateway login failed: ${error.message}`, DiscordGatewayWorker.name);
+            this.reportHealth();
+        });
+    }
+
+    async onModuleDestroy() {
+        if (this.client) {
+            await this.client.destroy();
+            this.client = null;
+        }
     }
-});
 
-const botToken = configService.get<string>('DISCORD_BOT_TOKEN') || process.env.DISCORD_BOT_TOKEN;
-client.login(botToken);
\ No newline at end of file
+    /**
+     * Publish gateway status for RedisHealthService; the key expires if this process stops reporting
+     */
+    @Interval(HEARTBEAT_INTERVAL_MS)
+    async reportHealth() {
+        if (!this.client) return;
+
+        const status = {
+            status: this.client.isReady() ? 'healthy' : 'unhealthy',
+            ping: this.client.ws.ping,
+            guilds: this.client.guilds.cache.size,
+            lastEventAt: this.lastEventAt?.toISOString() ?? null,
+            lastError: this.lastError,
+            updatedAt: new Date().toISOString(),
+        };
+
+        await this.redisService.set(REDIS_DISCORD_GATEWAY_HEALTH_KEY, JSON.stringify(status), (HEARTBEAT_INTERVAL_MS * 3) / 1000);
+    }
+
+    private async handle(kind: string, fn: () => Promise<unknown>) {
+        this.lastEventAt = new Date();
+        try {
+            await fn();
+        } catch (error) {
+            this.lastError = error.message;
+            this.logger.error(`Discord message ${kind} handling failed: ${error.message}`, DiscordGatewayWorker.name);
+        }
+    }
+
+    private toPayload(message: Message | PartialMessage): DiscordMessagePayload {
+        const channel = message.channel;
+
+        return {
+            id: message.id,
+            channel_id: message.channelId,
+            guild_id: message.guildId ?? undefined,
+            parent_channel_id: channel?.isThread() ? channel.parentId ?? undefined : undefined,
+            author: message.author
+                ? { id: message.author.id, username: message.author.username, bot: message.author.bot }
+                : undefined,
+            content: message.content ?? '',
+            timestamp: message.createdAt.toISOString(),
+            edited_timestamp: message.editedAt?.toISOString() ?? null,
+            type: message.type ?? undefined,
+            attachments: Array.from(message.attachments.values()),
+            embeds: message.embeds,
+            message_reference: message.reference
+                ? { message_id: message.reference.messageId, channel_id: message.reference.channelId }
+                : undefined,
+        };
+    }
+}
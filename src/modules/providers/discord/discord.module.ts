@@ -3,12 +3,15 @@ import { DatabaseModule } from 'src/services/database/database.module';
 import { ConfigModule } from '@nestjs/config';
 import { LlmModule } from 'src/modules/llm/llm.module';
 import { AuthModule } from 'src/modules/auth/auth.module';
+import { WebhooksModule } from 'src/modules/webhooks/webhooks.module';
+import { IngestionModule } from 'src/modules/ingestion/ingestion.module';
 import { DiscordService } from './discord.service';
 import { DiscordController } from './discord.controller';
+import { DiscordGatewayWorker } from './discord.gateway.worker';
 
 @Module({
-    imports: [DatabaseModule, ConfigModule, LlmModule, AuthModule],
-    providers: [DiscordService],
+    imports: [DatabaseModule, ConfigModule, LlmModule, AuthModule, WebhooksModule, IngestionModule],
+    providers: [DiscordService, DiscordGatewayWorker],
     controllers: [DiscordController],
     exports: [DiscordService],
 })
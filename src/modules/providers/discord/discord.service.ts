@@ -5,6 +5,29 @@ import { ExternalProvider, IntegrationAuthType, IntegrationStatus, RawEventType
 import { DatabaseService } from 'src/services/database/database.service';
 import { signState, verifyState } from 'src/utils/oauth-state';
 import { LlmService } from 'src/modules/llm/llm.service';
+import { IngestionReporter } from 'src/services/queue/ingestion.queue';
+import { LLMQueue } from 'src/services/queue/llm.queue';
+import { SyncStateService } from 'src/modules/ingestion/sync-state.service';
+
+/**
+ * Discord message in REST API shape (gateway messages are mapped to it by DiscordGatewayWorker)
+ */
+export interface DiscordMessagePayload {
+    id: string;
+    channel_id: string;
+    guild_id?: string;
+    parent_channel_id?: string; // set when channel_id is a thread
+    author?: { id: string; username?: string; bot?: boolean };
+    content: string;
+    timestamp: string;
+    edited_timestamp?: string | null;
+    type?: number;
+    attachments?: any[];
+    embeds?: any[];
+    message_reference?: { message_id?: string; channel_id?: string };
+}
+
+const DISCORD_EPOCH = 1420070400000n;
 
 @Injectable()
 export class DiscordService {
@@ -12,6 +35,8 @@ export class DiscordService {
         private readonly databaseService: DatabaseService,
         private readonly configService: ConfigService,
         private readonly llmService: LlmService,
+        private readonly llmQueue: LLMQueue,
+        private readonly syncStateService: SyncStateService,
     ) { }
 
     getInstallUrl(orgId: string, integrationId: string) {
@@ -187,7 +212,7 @@ export class DiscordService {
         return { synced: channels.length, channels };
     }
 
-    async ingestChannelHistory(integrationId: string, channelId: string, projectId?: string) {
+    async ingestChannelHistory(integrationId: string, channelId: string, projectId?: string, reporter?: IngestionReporter) {
         const integration = await this.databaseService.integration.findUnique({
             where: { id: integrationId },
             include: { organization: true },
@@ -232,19 +257,37 @@ export class DiscordService {
 
         const projectsToProcess = connections.length > 0 ? connections.map((c) => c.project) : projectId ? [await this.databaseService.project.findUnique({ where: { id: projectId } })] : [];
 
-        let before: string | undefined;
+        // A backfill walks backwards with `before`; once complete, later runs walk forwards with `after`
+        // starting from the newest ingested message. The cursor holds the message id of the next page.
+        let syncState = await this.syncStateService.start(integration.id, ExternalProvider.DISCORD, channelId, resource?.name);
+        const incremental = syncState.mode === 'incremental';
+        let cursor: string | undefined = syncState.cursor
+            || (incremental && syncState.highWaterMark ? this.snowflakeFromDate(syncState.highWaterMark) : undefined);
+
+        let newest: Date | null = null;
         let messageCount = 0;
+        let skipped = 0;
+        let pages = 0;
+        let cancelled = false;
 
         while (true) {
+            if (await reporter?.isCancelled()) {
+                cancelled = true;
+                break;
+            }
+
             const res = await axios.get(`https://discord.com/api/v10/channels/${channelId}/messages`, {
                 headers: { Authorization: `Bot ${DISCORD_BOT_TOKEN}` },
-                params: { limit: 100, before }
+                params: { limit: 100, ...(incremental ? { after: cursor } : { before: cursor }) }
             });
 
             const messages = res.data;
             if (!messages.length) break;
 
             for (const m of messages) {
+                const sentAt = new Date(m.timestamp);
+                if (!newest || sentAt > newest) newest = sentAt;
+
                 if (m.author?.bot) continue;
 
                 // Resolve author identity
@@ -257,59 +300,197 @@ export class DiscordService {
                 for (const project of projectsToProcess) {
                     if (!project) continue;
 
+                    // Already ingested by an earlier (possibly interrupted) run
+                    const existing = await this.databaseService.rawEvent.findFirst({
+                        where: { projectId: project.id, source: ExternalProvider.DISCORD, sourceId: m.id },
+                        select: { id: true },
+                    });
+                    if (existing) {
+                        skipped++;
+                        continue;
+                    }
+
                     const rawEvent = await this.databaseService.rawEvent.create({
                         data: {
                             integrationId: integration.id,
                             projectId: project.id,
-                            resourceId: resource?.providerId || channelId,
-                            source: ExternalProvider.DISCORD,
-                            sourceId: m.id,
-                            eventType: RawEventType.MESSAGE,
                             authorIdentityId: identityId,
                             authorMemberId: memberId,
-                            authorName: m.author?.username,
-                            channelId: channelId,
-                            channelName: resource?.name,
-                            timestamp: new Date(m.timestamp),
-                            content: m.content,
-                            metadata: {
-                                channel: { id: channelId, name: resource?.name },
-                                message: {
-                                    type: m.type,
-                                    edited_timestamp: m.edited_timestamp,
-                                    attachments: m.attachments?.length || 0,
-                                    embeds: m.embeds?.length || 0,
-                                },
-                            },
+                            ...this.toMessageEventData(m, channelId, resource?.name),
                         },
                     });
 
                     // Queue LLM processing
                     try {
-                        await this.llmService.processRawEvent(rawEvent.id);
+                        await this.llmQueue.enqueue({ rawEventId: rawEvent.id, mode: 'summary' });
                     } catch (error) {
-                        console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                        console.error(`Failed to queue LLM processing for RawEvent ${rawEvent.id}:`, error);
                     }
                 }
 
                 messageCount++;
             }
 
-            before = messages[messages.length - 1].id;
+            // Messages come newest first in both directions
+            cursor = incremental ? messages[0].id : messages[messages.length - 1].id;
+            syncState = await this.syncStateService.checkpoint(syncState, cursor || null, newest);
+            await reporter?.progress({ pages: ++pages, messages: messageCount, skipped });
+
+            if (messages.length < 100) break;
         }
 
-        return { ingested: messageCount };
+        if (!cancelled) {
+            await this.syncStateService.finish(syncState, newest);
+        }
+
+        return { ingested: messageCount, skipped, mode: syncState.mode };
     }
 
-    async handleWebhook(payload: any) {
-        // Discord webhook handling - Gateway Worker handles real-time events
-        // This method can handle webhook events if Discord sends them
-        await this.databaseService.webhookEvent.create({
-            data: {
+    /**
+     * Smallest message id Discord could have assigned at the given time
+     */
+    private snowflakeFromDate(date: Date) {
+        return ((BigInt(date.getTime()) - DISCORD_EPOCH) << 22n).toString();
+    }
+
+    /**
+     * Store a message received over the gateway for every project connected to its channel
+     */
+    async ingestGatewayMessage(m: DiscordMessagePayload) {
+        if (m.author?.bot) return;
+
+        const channelId = m.parent_channel_id || m.channel_id;
+        const connections = await this.findChannelConnections(channelId, m.guild_id);
+        if (connections.length === 0) return;
+
+        const resource = await this.databaseService.integrationResource.findFirst({
+            where: {
+                integrationId: connections[0].integrationId,
                 provider: ExternalProvider.DISCORD,
-                providerEventId: payload.id || Date.now().toString(),
-                payload,
+                providerId: channelId,
+            },
+        });
+
+        for (const connection of connections) {
+            const existing = await this.databaseService.rawEvent.findFirst({
+                where: { projectId: connection.projectId, source: ExternalProvider.DISCORD, sourceId: m.id },
+                select: { id: true },
+            });
+            if (existing) continue;
+
+            const { identityId, memberId } = m.author?.id
+                ? await this.resolveAuthorIdentity(connection.integration.organizationId, m.author.id, m.author.username)
+                : { identityId: null, memberId: null };
+
+            try {
+                const rawEvent = await this.databaseService.rawEvent.create({
+                    data: {
+                        integrationId: connection.integrationId,
+                        projectId: connection.projectId,
+                        authorIdentityId: identityId,
+                        authorMemberId: memberId,
+                        ...this.toMessageEventData(m, channelId, resource?.name),
+                    },
+                });
+
+                await this.llmQueue.enqueue({ rawEventId: rawEvent.id, mode: 'summary' });
+            } catch (error) {
+                console.error(`Failed to create RawEvent for Discord message ${m.id}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Apply a gateway edit to the stored events and re-run LLM processing
+     */
+    async updateGatewayMessage(m: DiscordMessagePayload) {
+        const rawEvents = await this.databaseService.rawEvent.findMany({
+            where: { source: ExternalProvider.DISCORD, sourceId: m.id, deletedAt: null },
+            select: { id: true, metadata: true },
+        });
+
+        // Edit of a message sent before the channel was connected
+        if (rawEvents.length === 0) {
+            return this.ingestGatewayMessage(m);
+        }
+
+        for (const rawEvent of rawEvents) {
+            const metadata = (rawEvent.metadata as any) || {};
+
+            await this.databaseService.rawEvent.update({
+                where: { id: rawEvent.id },
+                data: {
+                    content: m.content,
+                    processedByLLM: false,
+                    processingError: null,
+                    metadata: {
+                        ...metadata,
+                        message: { ...(metadata.message || {}), edited_timestamp: m.edited_timestamp },
+                    },
+                },
+            });
+
+            await this.llmQueue.enqueue({ rawEventId: rawEvent.id, mode: 'summary' });
+        }
+    }
+
+    /**
+     * Soft-delete events for a message removed in Discord
+     */
+    async deleteGatewayMessage(messageId: string) {
+        await this.databaseService.rawEvent.updateMany({
+            where: { source: ExternalProvider.DISCORD, sourceId: messageId, deletedAt: null },
+            data: { deletedAt: new Date() },
+        });
+    }
+
+    private findChannelConnections(channelId: string, guildId?: string) {
+        return this.databaseService.integrationConnection.findMany({
+            where: {
+                integration: {
+                    type: ExternalProvider.DISCORD,
+                    ...(guildId ? { config: { path: ['guilds'], array_contains: guildId } } : {}),
+                },
+                items: { path: ['channels'], array_contains: channelId },
             },
+            include: { integration: { select: { organizationId: true } } },
         });
     }
+
+    /**
+     * RawEvent fields shared by history ingestion and gateway events
+     */
+    private toMessageEventData(m: DiscordMessagePayload, channelId: string, channelName?: string | null) {
+        const threadId = m.parent_channel_id ? m.channel_id : undefined;
+        const parentMessageId = m.message_reference?.message_id;
+
+        return {
+            resourceId: channelId,
+            source: ExternalProvider.DISCORD,
+            sourceId: m.id,
+            eventType: RawEventType.MESSAGE,
+            authorName: m.author?.username,
+            channelId,
+            channelName,
+            threadId,
+            parentMessageId,
+            messageType: parentMessageId ? 'reply' : threadId ? 'thread_reply' : 'message',
+            timestamp: new Date(m.timestamp),
+            content: m.content,
+            metadata: {
+                channel: { id: channelId, name: channelName },
+                message: {
+                    type: m.type,
+                    edited_timestamp: m.edited_timestamp,
+                    attachments: m.attachments?.length || 0,
+                    embeds: m.embeds?.length || 0,
+                },
+            },
+        };
+    }
+
+    async handleWebhook(payload: any) {
+        // Discord webhook handling - DiscordGatewayWorker handles real-time events
+        console.warn(`Unhandled Discord webhook: ${payload?.type}`);
+    }
 }
\ No newline at end of file
@@ -3,6 +3,9 @@ import { Response, Request } from 'express';
 import { FigmaService } from './figma.service';
 import { AuthGuard } from 'src/modules/auth/guards/auth.guard';
 import { ConfigService } from '@nestjs/config';
+import { WebhooksService } from 'src/modules/webhooks/webhooks.service';
+import { IngestionService } from 'src/modules/ingestion/ingestion.service';
+import { ExternalProvider } from 'generated/prisma/enums';
 import { BadRequestException } from '@nestjs/common';
 
 @Controller('integrations/figma')
@@ -10,6 +13,8 @@ export class FigmaController {
     constructor(
         private readonly figmaService: FigmaService,
         private readonly configService: ConfigService,
+        private readonly webhooksService: WebhooksService,
+        private readonly ingestionService: IngestionService,
     ) { }
 
     @UseGuards(AuthGuard)
@@ -29,7 +34,15 @@ export class FigmaController {
     @Post('webhook')
     @HttpCode(200)
     async webhook(@Req() req: Request, @Res() res: Response) {
-        await this.figmaService.handleWebhook(req.body);
+        const { passcode, ...payload } = req.body || {};
+        this.figmaService.verifyPasscode(passcode);
+
+        // PING is sent when the webhook is registered
+        if (payload.event_type === 'PING') {
+            return res.send('ok');
+        }
+
+        await this.webhooksService.receive(ExternalProvider.FIGMA, {}, payload);
         return res.send('ok');
     }
 
@@ -52,12 +65,11 @@ export class FigmaController {
             throw new BadRequestException('fileKey is required for comments and versions');
         }
 
-        if (type === 'comments') {
-            return this.figmaService.ingestComments(integrationId, fileKey!);
-        } else if (type === 'versions') {
-            return this.figmaService.ingestVersions(integrationId, fileKey!);
-        } else {
-            return this.figmaService.ingestFiles(integrationId, fileKey);
-        }
+        return this.ingestionService.createJob({
+            integrationId,
+            type: 'figma_history',
+            resourceId: fileKey,
+            options: { figmaType: type || 'files' },
+        });
     }
 }
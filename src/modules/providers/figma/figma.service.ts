@@ -1,11 +1,14 @@
-import { Injectable, BadRequestException, NotFoundException, HttpException, HttpStatus } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException, HttpException, HttpStatus, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
+import * as crypto from 'crypto';
 import { ExternalProvider, IntegrationAuthType, IntegrationStatus, RawEventType } from 'generated/prisma/enums';
 import { DatabaseService } from 'src/services/database/database.service';
 import { decrypt, encrypt } from 'src/utils/encryption';
 import { signState, verifyState } from 'src/utils/oauth-state';
 import { LlmService } from 'src/modules/llm/llm.service';
+import { IngestionReporter } from 'src/services/queue/ingestion.queue';
+import { LLMQueue } from 'src/services/queue/llm.queue';
 
 @Injectable()
 export class FigmaService {
@@ -13,6 +16,7 @@ export class FigmaService {
         private readonly databaseService: DatabaseService,
         private readonly configService: ConfigService,
         private readonly llmService: LlmService,
+        private readonly llmQueue: LLMQueue,
     ) { }
 
     /**
@@ -278,7 +282,7 @@ export class FigmaService {
         return { synced: files.length, files };
     }
 
-    async ingestFiles(integrationId: string, fileKey?: string) {
+    async ingestFiles(integrationId: string, fileKey?: string, reporter?: IngestionReporter) {
         const integration = await this.databaseService.integration.findUnique({
             where: { id: integrationId },
             include: { organization: true },
@@ -293,7 +297,9 @@ export class FigmaService {
 
         let eventCount = 0;
 
-        for (const file of files) {
+        for (const [index, file] of files.entries()) {
+            if (await reporter?.isCancelled()) break;
+
             // Get file metadata
             const fileRes = await axios.get(`https://api.figma.com/v1/files/${file.key}`, {
                 headers: { 'X-Figma-Token': token },
@@ -359,9 +365,9 @@ export class FigmaService {
                     });
 
                     try {
-                        await this.llmService.processRawEvent(rawEvent.id);
+                        await this.llmQueue.enqueue({ rawEventId: rawEvent.id, mode: 'summary' });
                     } catch (error) {
-                        console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                        console.error(`Failed to queue LLM processing for RawEvent ${rawEvent.id}:`, error);
                     }
 
                     eventCount++;
@@ -369,12 +375,14 @@ export class FigmaService {
                     console.error(`Failed to create RawEvent for Figma file ${file.key}:`, error);
                 }
             }
+
+            await reporter?.progress({ files: index + 1, totalFiles: files.length, events: eventCount });
         }
 
         return { ingested: eventCount };
     }
 
-    async ingestComments(integrationId: string, fileKey: string) {
+    async ingestComments(integrationId: string, fileKey: string, reporter?: IngestionReporter) {
         const integration = await this.databaseService.integration.findUnique({
             where: { id: integrationId },
             include: { organization: true },
@@ -413,7 +421,9 @@ export class FigmaService {
         const projectsToProcess = connections.length > 0 ? connections.map((c) => c.project) : [];
         let eventCount = 0;
 
-        for (const comment of comments) {
+        for (const [index, comment] of comments.entries()) {
+            if (await reporter?.isCancelled()) break;
+
             const { identityId, memberId } = comment.user?.id
                 ? await this.resolveAuthorIdentity(integration.organizationId, comment.user.id, comment.user.handle)
                 : { identityId: null, memberId: null };
@@ -446,9 +456,9 @@ export class FigmaService {
                     });
 
                     try {
-                        await this.llmService.processRawEvent(rawEvent.id);
+                        await this.llmQueue.enqueue({ rawEventId: rawEvent.id, mode: 'summary' });
                     } catch (error) {
-                        console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                        console.error(`Failed to queue LLM processing for RawEvent ${rawEvent.id}:`, error);
                     }
 
                     eventCount++;
@@ -456,12 +466,14 @@ export class FigmaService {
                     console.error(`Failed to create RawEvent for Figma comment ${comment.id}:`, error);
                 }
             }
+
+            await reporter?.progress({ comments: index + 1, total: comments.length, events: eventCount });
         }
 
         return { ingested: eventCount };
     }
 
-    async ingestVersions(integrationId: string, fileKey: string) {
+    async ingestVersions(integrationId: string, fileKey: string, reporter?: IngestionReporter) {
         const integration = await this.databaseService.integration.findUnique({
             where: { id: integrationId },
             include: { organization: true },
@@ -500,7 +512,9 @@ export class FigmaService {
         const projectsToProcess = connections.length > 0 ? connections.map((c) => c.project) : [];
         let eventCount = 0;
 
-        for (const version of versions) {
+        for (const [index, version] of versions.entries()) {
+            if (await reporter?.isCancelled()) break;
+
             const { identityId, memberId } = version.user?.id
                 ? await this.resolveAuthorIdentity(integration.organizationId, version.user.id, version.user.handle)
                 : { identityId: null, memberId: null };
@@ -534,9 +548,9 @@ export class FigmaService {
                     });
 
                     try {
-                        await this.llmService.processRawEvent(rawEvent.id);
+                        await this.llmQueue.enqueue({ rawEventId: rawEvent.id, mode: 'summary' });
                     } catch (error) {
-                        console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                        console.error(`Failed to queue LLM processing for RawEvent ${rawEvent.id}:`, error);
                     }
 
                     eventCount++;
@@ -544,18 +558,141 @@ export class FigmaService {
                     console.error(`Failed to create RawEvent for Figma version ${version.id}:`, error);
                 }
             }
+
+            await reporter?.progress({ versions: index + 1, total: versions.length, events: eventCount });
         }
 
         return { ingested: eventCount };
     }
 
+    /**
+     * Figma echoes the passcode chosen when the webhook was registered in every delivery
+     */
+    verifyPasscode(passcode?: string) {
+        const expected = this.configService.get<string>('FIGMA_WEBHOOK_PASSCODE');
+        if (!expected || !passcode) throw new UnauthorizedException();
+
+        if (
+            passcode.length !== expected.length ||
+            !crypto.timingSafeEqual(Buffer.from(passcode), Buffer.from(expected))
+        ) {
+            throw new UnauthorizedException();
+        }
+    }
+
+    /**
+     * Handle FILE_COMMENT, FILE_VERSION_UPDATE and LIBRARY_PUBLISH webhooks,
+     * producing RawEvents like ingestComments / ingestVersions / ingestFiles do in bulk
+     */
     async handleWebhook(payload: any) {
-        await this.databaseService.webhookEvent.create({
-            data: {
-                provider: ExternalProvider.FIGMA,
-                providerEventId: payload.event_id || payload.file_key || Date.now().toString(),
-                payload,
+        const fileKey = payload?.file_key;
+        if (!fileKey || !['FILE_COMMENT', 'FILE_VERSION_UPDATE', 'LIBRARY_PUBLISH'].includes(payload.event_type)) return;
+
+        // Figma payloads carry no team/account id, so map through the files connected to projects
+        const connections = await this.databaseService.integrationConnection.findMany({
+            where: {
+                integration: { type: ExternalProvider.FIGMA },
+                items: {
+                    path: ['files'],
+                    array_contains: fileKey,
+                },
             },
+            include: { integration: true },
         });
+
+        const event = this.normalizeWebhookEvent(payload);
+        const author = payload.triggered_by;
+
+        for (const connection of connections) {
+            const integration = connection.integration;
+
+            const { identityId, memberId } = author?.id
+                ? await this.resolveAuthorIdentity(integration.organizationId, author.id, author.handle)
+                : { identityId: null, memberId: null };
+
+            try {
+                const rawEvent = await this.databaseService.rawEvent.create({
+                    data: {
+                        integrationId: integration.id,
+                        projectId: connection.projectId,
+                        resourceId: fileKey,
+                        source: ExternalProvider.FIGMA,
+                        sourceId: event.sourceId,
+                        eventType: event.eventType,
+                        authorIdentityId: identityId,
+                        authorMemberId: memberId,
+                        authorName: author?.handle,
+                        timestamp: new Date(payload.created_at || payload.timestamp || Date.now()),
+                        content: event.content,
+                        metadata: event.metadata,
+                    },
+                });
+
+                try {
+                    await this.llmService.processRawEvent(rawEvent.id);
+                } catch (error) {
+                    console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                }
+            } catch (error) {
+                console.error(`Failed to create RawEvent for Figma ${payload.event_type} on ${fileKey}:`, error);
+            }
+        }
+    }
+
+    private normalizeWebhookEvent(payload: any): { sourceId: string; eventType: RawEventType; content: string; metadata: any } {
+        const fileKey = payload.file_key;
+
+        switch (payload.event_type) {
+            case 'FILE_COMMENT':
+                return {
+                    sourceId: payload.comment_id,
+                    eventType: RawEventType.MESSAGE,
+                    content: (payload.comment || []).map((fragment: any) => fragment.text ?? (fragment.mention ? `@${fragment.mention}` : '')).join(''),
+                    metadata: {
+                        comment: {
+                            id: payload.comment_id,
+                            file_key: fileKey,
+                            parent_id: payload.parent_id,
+                        },
+                        file: { key: fileKey, name: payload.file_name },
+                    },
+                };
+            case 'FILE_VERSION_UPDATE':
+                return {
+                    sourceId: payload.version_id,
+                    eventType: RawEventType.OTHER,
+                    content: `Version ${payload.label || payload.version_id} created`,
+                    metadata: {
+                        version: {
+                            id: payload.version_id,
+                            label: payload.label,
+                            description: payload.description,
+                            file_key: fileKey,
+                        },
+                        file: { key: fileKey, name: payload.file_name },
+                    },
+                };
+            default:
+                return {
+                    sourceId: fileKey,
+                    eventType: RawEventType.OTHER,
+                    content: `Library published: ${payload.file_name}${payload.description ? ` - ${payload.description}` : ''}`,
+                    metadata: {
+                        file: { key: fileKey, name: payload.file_name },
+                        library: {
+                            description: payload.description,
+                            created: this.assetNames(payload, 'created'),
+                            modified: this.assetNames(payload, 'modified'),
+                            deleted: this.assetNames(payload, 'deleted'),
+                        },
+                    },
+                };
+        }
+    }
+
+    private assetNames(payload: any, change: 'created' | 'modified' | 'deleted') {
+        return ['components', 'styles', 'variables']
+            .flatMap((kind) => payload[`${change}_${kind}`] || [])
+            .map((asset: any) => asset.name);
     }
 }
@@ -4,12 +4,15 @@ import { verifyState } from 'src/utils/oauth-state';
 import { AuthGuard } from 'src/modules/auth/guards/auth.guard';
 import { ConfigService } from '@nestjs/config';
 import { GithubService } from './github.service';
+import { WebhooksService } from 'src/modules/webhooks/webhooks.service';
+import { ExternalProvider } from 'generated/prisma/enums';
 
 @Controller('integrations/github')
 export class GithubController {
     constructor(
         private readonly githubService: GithubService,
-        private readonly configService: ConfigService
+        private readonly configService: ConfigService,
+        private readonly webhooksService: WebhooksService
     ) { }
 
 
@@ -72,10 +75,14 @@ export class GithubController {
     async webhook(
         @Headers('x-hub-signature-256') signature: string,
         @Headers('x-github-event') event: string,
+        @Headers('x-github-delivery') delivery: string,
         @Body() body: any
     ) {
         this.githubService.verifySignature(body, signature);
-        await this.githubService.handleWebhook(event, body);
+        await this.webhooksService.receive(ExternalProvider.GITHUB, {
+            'x-github-event': event,
+            'x-github-delivery': delivery,
+        }, body);
 
         return 'ok';
     }
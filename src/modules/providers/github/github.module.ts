@@ -2,11 +2,12 @@ import { Module } from '@nestjs/common';
 import { DatabaseModule } from 'src/services/database/database.module';
 import { AuthModule } from 'src/modules/auth/auth.module';
 import { LlmModule } from 'src/modules/llm/llm.module';
+import { WebhooksModule } from 'src/modules/webhooks/webhooks.module';
 import { GithubService } from './github.service';
 import { GithubController } from './github.controller';
 
 @Module({
-    imports: [DatabaseModule, AuthModule, LlmModule],
+    imports: [DatabaseModule, AuthModule, LlmModule, WebhooksModule],
     providers: [GithubService],
     controllers: [GithubController],
     exports: [GithubService],
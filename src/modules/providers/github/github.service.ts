@@ -556,16 +556,6 @@ export class GithubService {
     }
 
     async handleWebhook(event: string, payload: any) {
-        await this.databaseService.webhookEvent.create({
-            data: {
-                provider: ExternalProvider.GITHUB,
-                providerEventId: payload.installation
-                    ? String(payload.installation.id)
-                    : payload.after,
-                payload,
-            },
-        });
-
         switch (event) {
             case 'installation':
                 return this.installation(payload);
@@ -1287,10 +1277,11 @@ export class GithubService {
                             description: commit.message,
                             files: normalizedFiles,
                         },
-                        sha // Use commit SHA as referenceId
+                        sha, // Use commit SHA as referenceId
+                        projectId
                     ),
-                    this.llmService.analyzeCodeQuality(organizationId, { files: normalizedFiles }, sha),
-                    this.llmService.analyzeSecurityRisk(organizationId, { files: normalizedFiles }, sha),
+                    this.llmService.analyzeCodeQuality(organizationId, { files: normalizedFiles }, sha, projectId),
+                    this.llmService.analyzeSecurityRisk(organizationId, { files: normalizedFiles }, sha, projectId),
                 ]);
 
                 aiSummary = summary;
@@ -1427,7 +1418,8 @@ export class GithubService {
                     .map((f: any) => `File: ${f.filename}\n${f.patch ?? ""}`)
                     .join("\n\n"),
             },
-            sha // Use commit SHA as referenceId
+            sha, // Use commit SHA as referenceId
+            projectId
         );
 
         return {
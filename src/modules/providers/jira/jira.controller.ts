@@ -1,8 +1,11 @@
-import { Controller, Get, Post, Query, Param, UseGuards, HttpCode, Res, Body, Req } from '@nestjs/common';
+import { Controller, Get, Post, Query, Param, UseGuards, HttpCode, Res, Req, Headers } from '@nestjs/common';
 import { Response, Request } from 'express';
 import { JiraIntegrationService } from './jira.service';
 import { AuthGuard } from 'src/modules/auth/guards/auth.guard';
 import { ConfigService } from '@nestjs/config';
+import { WebhooksService } from 'src/modules/webhooks/webhooks.service';
+import { IngestionService } from 'src/modules/ingestion/ingestion.service';
+import { ExternalProvider } from 'generated/prisma/enums';
 import { BadRequestException } from '@nestjs/common';
 
 @Controller('integrations/jira')
@@ -10,6 +13,8 @@ export class JiraController {
     constructor(
         private readonly jiraService: JiraIntegrationService,
         private readonly configService: ConfigService,
+        private readonly webhooksService: WebhooksService,
+        private readonly ingestionService: IngestionService,
     ) { }
 
     @UseGuards(AuthGuard)
@@ -28,8 +33,9 @@ export class JiraController {
 
     @Post('webhook')
     @HttpCode(200)
-    async webhook(@Req() req: Request, @Res() res: Response) {
-        await this.jiraService.handleWebhook(req.body);
+    async webhook(@Req() req: Request, @Res() res: Response, @Headers('authorization') authorization?: string) {
+        this.jiraService.verifyWebhookToken(authorization, req.query.jwt as string | undefined);
+        await this.webhooksService.receive(ExternalProvider.JIRA, {}, req.body);
         return res.send('ok');
     }
 
@@ -48,6 +54,6 @@ export class JiraController {
     @UseGuards(AuthGuard)
     @Post('ingest/:integrationId')
     async ingest(@Param('integrationId') integrationId: string, @Query('projectKey') projectKey?: string, @Query('jql') jql?: string) {
-        return this.jiraService.ingestIssues(integrationId, projectKey, jql);
+        return this.ingestionService.createJob({ integrationId, type: 'jira_history', resourceId: projectKey, options: { jql } });
     }
 }
@@ -3,11 +3,13 @@ import { DatabaseModule } from 'src/services/database/database.module';
 import { ConfigModule } from '@nestjs/config';
 import { LlmModule } from 'src/modules/llm/llm.module';
 import { AuthModule } from 'src/modules/auth/auth.module';
+import { WebhooksModule } from 'src/modules/webhooks/webhooks.module';
+import { IngestionModule } from 'src/modules/ingestion/ingestion.module';
 import { JiraIntegrationService } from './jira.service';
 import { JiraController } from './jira.controller';
 
 @Module({
-    imports: [DatabaseModule, ConfigModule, LlmModule, AuthModule],
+    imports: [DatabaseModule, ConfigModule, LlmModule, AuthModule, WebhooksModule, IngestionModule],
     providers: [JiraIntegrationService],
     controllers: [JiraController],
     exports: [JiraIntegrationService],
@@ -0,0 +1,30 @@
+import { UnauthorizedException } from '@nestjs/common';
+import * as jwt from 'jsonwebtoken';
+import { JiraIntegrationService } from './jira.service';
+
+describe('JiraIntegrationService', () => {
+    describe('verifyWebhookToken', () => {
+        const configService = { get: jest.fn((key: string) => (key === 'JIRA_CLIENT_SECRET' ? 'client-secret' : undefined)) };
+        const service = new JiraIntegrationService({} as any, configService as any, {} as any, {} as any, {} as any);
+
+        it('accepts the Bearer token of an OAuth 2.0 dynamic webhook', () => {
+            const token = jwt.sign({ iss: 'jira', context: 'webhook' }, 'client-secret', { algorithm: 'HS256' });
+
+            expect(() => service.verifyWebhookToken(`Bearer ${token}`)).not.toThrow();
+        });
+
+        it('accepts the JWT scheme and the jwt query parameter', () => {
+            const token = jwt.sign({ iss: 'jira' }, 'client-secret', { algorithm: 'HS256' });
+
+            expect(() => service.verifyWebhookToken(`JWT ${token}`)).not.toThrow();
+            expect(() => service.verifyWebhookToken(undefined, token)).not.toThrow();
+        });
+
+        it('rejects tokens signed with another secret or missing', () => {
+            const token = jwt.sign({ iss: 'jira' }, 'other-secret', { algorithm: 'HS256' });
+
+            expect(() => service.verifyWebhookToken(`Bearer ${token}`)).toThrow(UnauthorizedException);
+            expect(() => service.verifyWebhookToken()).toThrow(UnauthorizedException);
+        });
+    });
+});
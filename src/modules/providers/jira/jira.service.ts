@@ -1,11 +1,15 @@
-import { Injectable, HttpException, HttpStatus, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Injectable, HttpException, HttpStatus, BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
-import { ExternalProvider, IntegrationAuthType, IntegrationStatus, RawEventType } from 'generated/prisma/enums';
+import * as jwt from 'jsonwebtoken';
+import { ExternalProvider, IntegrationAuthType, IntegrationStatus, RawEventType, TaskStatus } from 'generated/prisma/enums';
 import { DatabaseService } from 'src/services/database/database.service';
 import { decrypt, encrypt } from 'src/utils/encryption';
 import { signState, verifyState } from 'src/utils/oauth-state';
 import { LlmService } from 'src/modules/llm/llm.service';
+import { IngestionReporter } from 'src/services/queue/ingestion.queue';
+import { LLMQueue } from 'src/services/queue/llm.queue';
+import { ResourceSyncState, SyncStateService } from 'src/modules/ingestion/sync-state.service';
 
 @Injectable()
 export class JiraIntegrationService {
@@ -13,6 +17,8 @@ export class JiraIntegrationService {
         private readonly databaseService: DatabaseService,
         private readonly configService: ConfigService,
         private readonly llmService: LlmService,
+        private readonly llmQueue: LLMQueue,
+        private readonly syncStateService: SyncStateService,
     ) { }
 
     /**
@@ -309,7 +315,7 @@ export class JiraIntegrationService {
         return { synced: projects.length, projects };
     }
 
-    async ingestIssues(integrationId: string, projectKey?: string, jql?: string) {
+    async ingestIssues(integrationId: string, projectKey?: string, jql?: string, reporter?: IngestionReporter) {
         const integration = await this.databaseService.integration.findUnique({
             where: { id: integrationId },
             include: { organization: true },
@@ -327,16 +333,37 @@ export class JiraIntegrationService {
             throw new BadRequestException('Cloud ID not found');
         }
 
-        const baseJQL = jql || (projectKey ? `project = ${projectKey}` : '');
-        let startAt = 0;
+        // Sync state is only tracked for whole-project imports; a custom JQL query is always a one-off full scan
+        let syncState: ResourceSyncState | null = projectKey && !jql
+            ? await this.syncStateService.start(integration.id, ExternalProvider.JIRA, projectKey)
+            : null;
+
+        let searchJQL = jql || (projectKey ? `project = ${projectKey}` : '');
+        if (syncState) {
+            if (syncState.mode === 'incremental' && syncState.highWaterMark) {
+                searchJQL += ` AND updated >= "${this.formatJqlDate(syncState.highWaterMark)}"`;
+            }
+            // A stable order keeps startAt meaningful when a run resumes
+            searchJQL += ` ORDER BY ${syncState.mode === 'incremental' ? 'updated' : 'created'} ASC`;
+        }
+
+        let startAt = syncState?.cursor ? parseInt(syncState.cursor) || 0 : 0;
         const maxResults = 100;
         let issueCount = 0;
+        let skipped = 0;
+        let newest: Date | null = null;
+        let cancelled = false;
 
         while (true) {
+            if (await reporter?.isCancelled()) {
+                cancelled = true;
+                break;
+            }
+
             const res = await axios.get(`https://api.atlassian.com/ex/jira/${cloudId}/rest/api/3/search`, {
                 headers: { Authorization: `Bearer ${token}` },
                 params: {
-                    jql: baseJQL,
+                    jql: searchJQL,
                     startAt,
                     maxResults,
                     fields: 'summary,description,status,assignee,reporter,created,updated,comment',
@@ -365,6 +392,9 @@ export class JiraIntegrationService {
             const projectsToProcess = connections.length > 0 ? connections.map((c) => c.project) : [];
 
             for (const issue of issues) {
+                const updatedAt = issue.fields.updated ? new Date(issue.fields.updated) : null;
+                if (updatedAt && (!newest || updatedAt > newest)) newest = updatedAt;
+
                 const reporterId = issue.fields.reporter?.accountId;
                 const { identityId, memberId } = reporterId
                     ? await this.resolveAuthorIdentity(integration.organizationId, reporterId, issue.fields.reporter?.displayName, issue.fields.reporter?.emailAddress)
@@ -373,6 +403,36 @@ export class JiraIntegrationService {
                 for (const project of projectsToProcess) {
                     if (!project) continue;
 
+                    // Issues already imported are refreshed in place; only a changed summary is sent to the LLM again
+                    const existing = await this.databaseService.rawEvent.findFirst({
+                        where: { projectId: project.id, source: ExternalProvider.JIRA, sourceId: issue.key, eventType: RawEventType.TASK_UPDATE },
+                        orderBy: { timestamp: 'asc' },
+                        select: { id: true, content: true, metadata: true },
+                    });
+                    if (existing) {
+                        skipped++;
+                        if (existing.content !== issue.fields.summary) {
+                            await this.databaseService.rawEvent.update({
+                                where: { id: existing.id },
+                                data: {
+                                    content: issue.fields.summary,
+                                    metadata: {
+                                        ...((existing.metadata as Record<string, any>) || {}),
+                                        issue: {
+                                            key: issue.key,
+                                            summary: issue.fields.summary,
+                                            status: issue.fields.status?.name,
+                                            assignee: issue.fields.assignee?.displayName,
+                                            description: issue.fields.description,
+                                        },
+                                    },
+                                },
+                            });
+                            await this.llmQueue.enqueue({ rawEventId: existing.id, mode: 'summary' });
+                        }
+                        continue;
+                    }
+
                     try {
                         const rawEvent = await this.databaseService.rawEvent.create({
                             data: {
@@ -401,9 +461,9 @@ export class JiraIntegrationService {
                         });
 
                         try {
-                            await this.llmService.processRawEvent(rawEvent.id);
+                            await this.llmQueue.enqueue({ rawEventId: rawEvent.id, mode: 'summary' });
                         } catch (error) {
-                            console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                            console.error(`Failed to queue LLM processing for RawEvent ${rawEvent.id}:`, error);
                         }
                     } catch (error) {
                         console.error(`Failed to create RawEvent for Jira issue ${issue.key}:`, error);
@@ -413,21 +473,254 @@ export class JiraIntegrationService {
                 issueCount++;
             }
 
+            startAt += issues.length;
+            if (syncState) {
+                syncState = await this.syncStateService.checkpoint(syncState, String(startAt), newest);
+            }
+            await reporter?.progress({ pages: Math.ceil(startAt / maxResults), issues: issueCount, skipped });
+
             if (issues.length < maxResults) break;
-            startAt += maxResults;
         }
 
-        return { ingested: issueCount };
+        if (syncState && !cancelled) {
+            await this.syncStateService.finish(syncState, newest);
+        }
+
+        return { ingested: issueCount, skipped, mode: syncState?.mode ?? 'backfill' };
     }
 
+    /**
+     * JQL date literal ("yyyy/MM/dd HH:mm"). Jira reads it in the API user's timezone, so it is pulled back a day;
+     * issues in the overlap are already imported and only refreshed.
+     */
+    private formatJqlDate(highWaterMark: Date) {
+        const date = new Date(highWaterMark.getTime() - 24 * 60 * 60 * 1000);
+        const pad = (n: number) => String(n).padStart(2, '0');
+        return `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+    }
+
+    /**
+     * Verify the JWT Jira attaches to webhook deliveries: `Authorization: Bearer <token>` for the dynamic webhooks
+     * of OAuth 2.0 (3LO) apps, `Authorization: JWT <token>` or `?jwt=` for Connect-style ones.
+     * Tokens are HS256-signed with the app secret.
+     */
+    verifyWebhookToken(authorization?: string, queryToken?: string) {
+        const secret = this.configService.get<string>('JIRA_WEBHOOK_SECRET') || this.configService.get<string>('JIRA_CLIENT_SECRET');
+        const token = authorization?.match(/^(?:Bearer|JWT)\s+(\S+)$/i)?.[1] ?? queryToken;
+
+        if (!secret || !token) throw new UnauthorizedException();
+
+        try {
+            jwt.verify(token, secret, { algorithms: ['HS256'] });
+        } catch {
+            throw new UnauthorizedException();
+        }
+    }
+
+    /**
+     * Handle Jira issue/comment webhooks: record a TASK_UPDATE RawEvent per connected project
+     * and keep the matching Task (provider=JIRA, providerId=issue key) in sync
+     */
     async handleWebhook(payload: any) {
-        // Jira webhook signature verification (JWT-based)
-        await this.databaseService.webhookEvent.create({
-            data: {
-                provider: ExternalProvider.JIRA,
-                providerEventId: payload.issue?.key || payload.webhookEvent || Date.now().toString(),
-                payload,
+        const webhookEvent: string = payload?.webhookEvent;
+        const issue = payload?.issue;
+
+        if (!issue?.key || !['jira:issue_created', 'jira:issue_updated', 'comment_created', 'jira:issue_deleted'].includes(webhookEvent)) {
+            return;
+        }
+
+        const integrations = await this.findIntegrationsForPayload(payload);
+        if (integrations.length === 0) return;
+
+        const projectKey = issue.fields?.project?.key;
+        const changelog = (payload.changelog?.items || []).map((item: any) => ({
+            field: item.field,
+            from: item.fromString ?? item.from ?? null,
+            to: item.toString ?? item.to ?? null,
+        }));
+        const statusItem = changelog.find((item: any) => item.field === 'status');
+        const statusChange = statusItem ? { from: statusItem.from, to: statusItem.to } : null;
+
+        const actor = webhookEvent === 'comment_created' ? payload.comment?.author || payload.user : payload.user;
+        const timestamp = new Date(payload.timestamp || Date.now());
+
+        for (const integration of integrations) {
+            const { identityId, memberId } = actor?.accountId
+                ? await this.resolveAuthorIdentity(integration.organizationId, actor.accountId, actor.displayName, actor.emailAddress)
+                : { identityId: null, memberId: null };
+
+            const connections = await this.databaseService.integrationConnection.findMany({
+                where: {
+                    integrationId: integration.id,
+                    items: {
+                        path: ['projects'],
+                        array_contains: projectKey,
+                    },
+                },
+                include: { project: true },
+            });
+
+            for (const connection of connections) {
+                try {
+                    const rawEvent = await this.databaseService.rawEvent.create({
+                        data: {
+                            integrationId: integration.id,
+                            projectId: connection.projectId,
+                            resourceId: projectKey,
+                            source: ExternalProvider.JIRA,
+                            sourceId: issue.key,
+                            eventType: RawEventType.TASK_UPDATE,
+                            authorIdentityId: identityId,
+                            authorMemberId: memberId,
+                            authorName: actor?.displayName,
+                            authorEmail: actor?.emailAddress,
+                            timestamp,
+                            content: this.describeWebhookEvent(webhookEvent, issue, statusChange, payload.comment),
+                            metadata: {
+                                webhookEvent,
+                                issue: {
+                                    key: issue.key,
+                                    summary: issue.fields?.summary,
+                                    status: issue.fields?.status?.name,
+                                    assignee: issue.fields?.assignee?.displayName,
+                                    priority: issue.fields?.priority?.name,
+                                },
+                                statusChange,
+                                changelog,
+                                comment: payload.comment
+                                    ? { id: payload.comment.id, body: this.extractText(payload.comment.body) }
+                                    : null,
+                            },
+                        },
+                    });
+
+                    await this.syncTaskFromIssue(connection.projectId, webhookEvent, issue, rawEvent.id);
+
+                    try {
+                        await this.llmService.processRawEvent(rawEvent.id);
+                    } catch (error) {
+                        console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                    }
+                } catch (error) {
+                    console.error(`Failed to create RawEvent for Jira issue ${issue.key}:`, error);
+                }
+            }
+        }
+    }
+
+    /**
+     * Integrations whose Jira site matches the site the webhook came from
+     */
+    private async findIntegrationsForPayload(payload: any) {
+        const self = payload.issue?.self || payload.user?.self;
+        if (!self) return [];
+
+        let cloudUrl: string;
+        try {
+            cloudUrl = new URL(self).origin;
+        } catch {
+            return [];
+        }
+
+        return this.databaseService.integration.findMany({
+            where: {
+                type: ExternalProvider.JIRA,
+                config: { path: ['cloudUrl'], equals: cloudUrl },
             },
+            select: { id: true, organizationId: true },
+        });
+    }
+
+    private async syncTaskFromIssue(projectId: string, webhookEvent: string, issue: any, rawEventId: string) {
+        const task = await this.databaseService.task.findFirst({
+            where: { projectId, provider: ExternalProvider.JIRA, providerId: issue.key },
+            select: { id: true, status: true, metadata: true },
         });
+
+        if (!task) return;
+
+        const metadata = (task.metadata as any) || {};
+
+        if (webhookEvent === 'jira:issue_deleted') {
+            // Keep the task (it may carry local assignments); just flag that the issue is gone
+            await this.databaseService.task.update({
+                where: { id: task.id },
+                data: { metadata: { ...metadata, jira: { ...(metadata.jira || {}), deleted: true, deletedAt: new Date().toISOString() } } },
+            });
+        } else if (webhookEvent !== 'comment_created') {
+            const status = this.mapJiraStatus(issue.fields?.status);
+            const description = this.extractText(issue.fields?.description);
+
+            await this.databaseService.task.update({
+                where: { id: task.id },
+                data: {
+                    title: issue.fields?.summary || undefined,
+                    description: description || undefined,
+                    status: status || undefined,
+                    completedAt:
+                        status === TaskStatus.DONE && task.status !== TaskStatus.DONE
+                            ? new Date()
+                            : status && status !== TaskStatus.DONE && task.status === TaskStatus.DONE
+                                ? null
+                                : undefined,
+                    metadata: { ...metadata, jira: { ...(metadata.jira || {}), status: issue.fields?.status?.name, syncedAt: new Date().toISOString() } },
+                },
+            });
+        }
+
+        await this.databaseService.taskRawEvent.upsert({
+            where: { taskId_rawEventId: { taskId: task.id, rawEventId } },
+            update: {},
+            create: { taskId: task.id, rawEventId, relationship: 'PROGRESS' },
+        });
+    }
+
+    private mapJiraStatus(status: any): TaskStatus | null {
+        if (!status) return null;
+
+        const name = String(status.name || '').toLowerCase();
+        if (name.includes('block')) return TaskStatus.BLOCKED;
+        if (name.includes('review')) return TaskStatus.REVIEW;
+
+        switch (status.statusCategory?.key) {
+            case 'new':
+                return TaskStatus.TODO;
+            case 'indeterminate':
+                return TaskStatus.IN_PROGRESS;
+            case 'done':
+                return TaskStatus.DONE;
+            default:
+                return null;
+        }
+    }
+
+    private describeWebhookEvent(webhookEvent: string, issue: any, statusChange: { from: string; to: string } | null, comment?: any) {
+        const title = `${issue.key}: ${issue.fields?.summary || ''}`.trim();
+
+        switch (webhookEvent) {
+            case 'jira:issue_created':
+                return `Created issue ${title}`;
+            case 'jira:issue_deleted':
+                return `Deleted issue ${title}`;
+            case 'comment_created':
+                return `Commented on ${title}: ${this.extractText(comment?.body)}`;
+            default:
+                return statusChange
+                    ? `Moved ${title} from ${statusChange.from} to ${statusChange.to}`
+                    : `Updated issue ${title}`;
+        }
+    }
+
+    /**
+     * Flatten plain strings or Atlassian Document Format bodies into text
+     */
+    private extractText(body: any): string {
+        if (!body) return '';
+        if (typeof body === 'string') return body;
+        if (body.type === 'text') return body.text || '';
+        if (Array.isArray(body.content)) {
+            return body.content.map((node: any) => this.extractText(node)).join(body.type === 'doc' ? '\n' : '');
+        }
+        return '';
     }
 }
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { IsString } from 'class-validator';
+
+export class ConfirmWebhookVerificationDto {
+    // pendingFingerprint from GET webhook-verification/:integrationId, so the confirmed token is the one reviewed
+    @IsString()
+    fingerprint: string;
+}
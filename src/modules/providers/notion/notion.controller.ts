@@ -1,15 +1,24 @@
-import { Controller, Get, Post, Query, Param, UseGuards, HttpCode, Res, Body, Req } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Query, Param, Body, UseGuards, HttpCode, Res, Req, Headers } from '@nestjs/common';
 import { Response, Request } from 'express';
 import { NotionIntegrationService } from './notion.service';
-import { AuthGuard } from 'src/modules/auth/guards/auth.guard';
+import { AuthGuard, getUser } from 'src/modules/auth/guards/auth.guard';
 import { ConfigService } from '@nestjs/config';
+import { WebhooksService } from 'src/modules/webhooks/webhooks.service';
+import { IngestionService } from 'src/modules/ingestion/ingestion.service';
+import { ExternalProvider } from 'generated/prisma/enums';
 import { BadRequestException } from '@nestjs/common';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { ConfirmWebhookVerificationDto } from './dto/confirm-webhook-verification.dto';
 
 @Controller('integrations/notion')
 export class NotionController {
+    private readonly logger = new LoggerService(NotionController.name);
+
     constructor(
         private readonly notionService: NotionIntegrationService,
         private readonly configService: ConfigService,
+        private readonly webhooksService: WebhooksService,
+        private readonly ingestionService: IngestionService,
     ) { }
 
     @UseGuards(AuthGuard)
@@ -26,13 +35,59 @@ export class NotionController {
         return res.redirect(`${FRONTEND_URL}/integrations?status=connected`);
     }
 
-    @Post('webhook')
+    /**
+     * Subscriptions pointed at webhook/:integrationId are verified with that integration's confirmed token;
+     * the shared webhook URL uses NOTION_WEBHOOK_VERIFICATION_TOKEN.
+     */
+    @Post(['webhook', 'webhook/:integrationId'])
     @HttpCode(200)
-    async webhook(@Req() req: Request, @Res() res: Response) {
-        await this.notionService.handleWebhook(req.body);
+    async webhook(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Param('integrationId') integrationId?: string,
+        @Headers('x-notion-signature') signature?: string,
+    ) {
+        // One-time subscription handshake: Notion posts the token that signs every later delivery. It is stored
+        // as pending on the integration (never replacing one already pending) and only used once an admin confirms it
+        // by its fingerprint (see webhook-verification)
+        if (typeof req.body?.verification_token === 'string') {
+            if (integrationId) {
+                await this.notionService.storePendingVerificationToken(integrationId, req.body.verification_token);
+            } else {
+                this.logger.warn('Notion webhook verification request on the shared URL ignored; subscribe with webhook/<integrationId>', NotionController.name);
+            }
+            return res.send('ok');
+        }
+
+        const rawBody = (req as any).rawBody?.toString() ?? JSON.stringify(req.body);
+        await this.notionService.verifySignature(rawBody, signature, integrationId);
+
+        await this.webhooksService.receive(ExternalProvider.NOTION, {}, req.body);
         return res.send('ok');
     }
 
+    @UseGuards(AuthGuard)
+    @Get('webhook-verification/:integrationId')
+    async getWebhookVerification(@Param('integrationId') integrationId: string, @getUser('id') userId: string) {
+        return this.notionService.getWebhookVerification(integrationId, userId);
+    }
+
+    @UseGuards(AuthGuard)
+    @Post('webhook-verification/:integrationId/confirm')
+    async confirmWebhookVerification(
+        @Param('integrationId') integrationId: string,
+        @getUser('id') userId: string,
+        @Body() dto: ConfirmWebhookVerificationDto,
+    ) {
+        return this.notionService.confirmWebhookVerification(integrationId, userId, dto.fingerprint);
+    }
+
+    @UseGuards(AuthGuard)
+    @Delete('webhook-verification/:integrationId/pending')
+    async discardWebhookVerification(@Param('integrationId') integrationId: string, @getUser('id') userId: string) {
+        return this.notionService.discardWebhookVerification(integrationId, userId);
+    }
+
     @UseGuards(AuthGuard)
     @Get('databases/:integrationId')
     async getDatabases(@Param('integrationId') integrationId: string) {
@@ -48,6 +103,6 @@ export class NotionController {
     @UseGuards(AuthGuard)
     @Post('ingest/:integrationId')
     async ingest(@Param('integrationId') integrationId: string, @Query('databaseId') databaseId?: string) {
-        return this.notionService.ingestPages(integrationId, databaseId);
+        return this.ingestionService.createJob({ integrationId, type: 'notion_history', resourceId: databaseId });
     }
 }
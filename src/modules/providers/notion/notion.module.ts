@@ -3,11 +3,13 @@ import { DatabaseModule } from 'src/services/database/database.module';
 import { ConfigModule } from '@nestjs/config';
 import { LlmModule } from 'src/modules/llm/llm.module';
 import { AuthModule } from 'src/modules/auth/auth.module';
+import { WebhooksModule } from 'src/modules/webhooks/webhooks.module';
+import { IngestionModule } from 'src/modules/ingestion/ingestion.module';
 import { NotionIntegrationService } from './notion.service';
 import { NotionController } from './notion.controller';
 
 @Module({
-    imports: [DatabaseModule, ConfigModule, LlmModule, AuthModule],
+    imports: [DatabaseModule, ConfigModule, LlmModule, AuthModule, WebhooksModule, IngestionModule],
     providers: [NotionIntegrationService],
     controllers: [NotionController],
     exports: [NotionIntegrationService],
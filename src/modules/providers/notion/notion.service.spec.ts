@@ -0,0 +1,131 @@
+import { BadRequestException } from '@nestjs/common';
+import axios from 'axios';
+import { NotionIntegrationService } from './notion.service';
+
+jest.mock('axios');
+
+describe('NotionIntegrationService', () => {
+    describe('webhook verification', () => {
+        const ENCRYPTION_KEY = 'a'.repeat(64);
+
+        function createService() {
+            const integration = { id: 'integration-1', type: 'NOTION', organizationId: 'org-1', config: {} as Record<string, any> };
+            const databaseService = {
+                integration: {
+                    findUnique: jest.fn(async () => integration),
+                    update: jest.fn(async ({ data }) => Object.assign(integration, data)),
+                },
+            };
+            const configService = { get: jest.fn((key: string) => (key === 'INTEGRATION_TOKEN_ENCRYPTION_KEY' ? ENCRYPTION_KEY : undefined)) };
+            const authorizationService = { assertOrgPermission: jest.fn().mockResolvedValue(true) };
+
+            const service = new NotionIntegrationService(
+                databaseService as any,
+                configService as any,
+                {} as any,
+                {} as any,
+                {} as any,
+                authorizationService as any,
+            );
+            return { service, integration };
+        }
+
+        it('keeps the first pending token and counts later handshakes', async () => {
+            const { service } = createService();
+
+            await service.storePendingVerificationToken('integration-1', 'secret_from_notion');
+            await service.storePendingVerificationToken('integration-1', 'secret_from_attacker');
+
+            const verification = await service.getWebhookVerification('integration-1', 'user-1');
+            expect(verification).toMatchObject({ pendingToken: 'secret_from_notion', ignoredRequests: 1, verified: false });
+            expect(verification.pendingFingerprint).toMatch(/^[0-9a-f]{16}$/);
+        });
+
+        it('confirms only the token whose fingerprint the admin reviewed', async () => {
+            const { service, integration } = createService();
+            await service.storePendingVerificationToken('integration-1', 'secret_from_notion');
+            const { pendingFingerprint } = await service.getWebhookVerification('integration-1', 'user-1');
+
+            await expect(service.confirmWebhookVerification('integration-1', 'user-1', 'deadbeefdeadbeef')).rejects.toBeInstanceOf(
+                BadRequestException
+            );
+            await expect(service.confirmWebhookVerification('integration-1', 'user-1', pendingFingerprint)).resolves.toMatchObject({
+                verified: true,
+                fingerprint: pendingFingerprint,
+            });
+            expect(integration.config.pendingWebhookVerificationToken).toBeUndefined();
+            expect(integration.config.webhookVerificationToken).toBeDefined();
+        });
+    });
+
+    describe('ingestPages', () => {
+        const page = {
+            id: 'page-1',
+            object: 'page',
+            url: 'https://notion.so/page-1',
+            created_time: '2026-10-01T09:00:00.000Z',
+            last_edited_time: '2026-10-18T15:00:00.000Z',
+            properties: { Name: { type: 'title', title: [{ plain_text: 'Launch plan v2' }] } },
+        };
+
+        function createService(existingMetadata: Record<string, any>) {
+            const databaseService = {
+                integration: { findUnique: jest.fn().mockResolvedValue({ id: 'integration-1', organizationId: 'org-1' }) },
+                integrationConnection: { findMany: jest.fn().mockResolvedValue([{ project: { id: 'project-1' } }]) },
+                rawEvent: {
+                    findFirst: jest.fn().mockResolvedValue({ id: 'event-1', metadata: existingMetadata }),
+                    update: jest.fn().mockResolvedValue({}),
+                    create: jest.fn(),
+                },
+            };
+            const llmQueue = { enqueue: jest.fn().mockResolvedValue(undefined) };
+            const syncState = { mode: 'incremental', highWaterMark: new Date('2026-10-15T00:00:00Z'), cursor: null };
+            const syncStateService = {
+                start: jest.fn().mockResolvedValue(syncState),
+                checkpoint: jest.fn().mockResolvedValue(syncState),
+                finish: jest.fn(),
+            };
+
+            const service = new NotionIntegrationService(
+                databaseService as any,
+                {} as any,
+                {} as any,
+                llmQueue as any,
+                syncStateService as any,
+                {} as any,
+            );
+            jest.spyOn(service as any, 'getValidToken').mockResolvedValue('token');
+            jest.spyOn(service as any, 'resolveAuthorIdentity').mockResolvedValue({ identityId: null, memberId: null });
+            (axios.post as jest.Mock).mockResolvedValue({ data: { results: [page], has_more: false } });
+
+            return { service, databaseService, llmQueue };
+        }
+
+        it('refreshes and re-summarizes pages edited since they were ingested', async () => {
+            const { service, databaseService, llmQueue } = createService({
+                page: { id: 'page-1', last_edited_time: '2026-10-02T10:00:00.000Z' },
+            });
+
+            await service.ingestPages('integration-1', 'database-1');
+
+            expect(databaseService.rawEvent.create).not.toHaveBeenCalled();
+            expect(databaseService.rawEvent.update).toHaveBeenCalledWith({
+                where: { id: 'event-1' },
+                data: {
+                    content: 'Launch plan v2',
+                    metadata: { page: { id: 'page-1', url: page.url, object: 'page', last_edited_time: page.last_edited_time } },
+                },
+            });
+            expect(llmQueue.enqueue).toHaveBeenCalledWith({ rawEventId: 'event-1', mode: 'summary' });
+        });
+
+        it('leaves pages alone when they have not changed', async () => {
+            const { service, databaseService, llmQueue } = createService({ page: { id: 'page-1', last_edited_time: page.last_edited_time } });
+
+            await service.ingestPages('integration-1', 'database-1');
+
+            expect(databaseService.rawEvent.update).not.toHaveBeenCalled();
+            expect(llmQueue.enqueue).not.toHaveBeenCalled();
+        });
+    });
+});
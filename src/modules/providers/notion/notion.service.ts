@@ -1,18 +1,29 @@
-import { Injectable, HttpException, HttpStatus, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Injectable, HttpException, HttpStatus, BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
-import { ExternalProvider, IntegrationAuthType, IntegrationStatus, RawEventType } from 'generated/prisma/enums';
+import * as crypto from 'crypto';
+import { ExternalProvider, IntegrationAuthType, IntegrationStatus, PermissionName, RawEventType } from 'generated/prisma/enums';
 import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { AuthorizationService } from 'src/modules/auth/authorization.service';
 import { decrypt, encrypt } from 'src/utils/encryption';
 import { signState, verifyState } from 'src/utils/oauth-state';
 import { LlmService } from 'src/modules/llm/llm.service';
+import { IngestionReporter } from 'src/services/queue/ingestion.queue';
+import { LLMQueue } from 'src/services/queue/llm.queue';
+import { ResourceSyncState, SyncStateService } from 'src/modules/ingestion/sync-state.service';
 
 @Injectable()
 export class NotionIntegrationService {
+    private readonly logger = new LoggerService(NotionIntegrationService.name);
+
     constructor(
         private readonly databaseService: DatabaseService,
         private readonly configService: ConfigService,
         private readonly llmService: LlmService,
+        private readonly llmQueue: LLMQueue,
+        private readonly syncStateService: SyncStateService,
+        private readonly authorizationService: AuthorizationService,
     ) { }
 
     /**
@@ -232,7 +243,7 @@ export class NotionIntegrationService {
         return { synced: databases.length, databases };
     }
 
-    async ingestPages(integrationId: string, databaseId?: string) {
+    async ingestPages(integrationId: string, databaseId?: string, reporter?: IngestionReporter) {
         const integration = await this.databaseService.integration.findUnique({
             where: { id: integrationId },
             include: { organization: true },
@@ -243,12 +254,30 @@ export class NotionIntegrationService {
         }
 
         const token = await this.getValidToken(integrationId);
-        let startCursor: string | undefined;
+
+        // Results are newest-edited first, so an incremental run stops at the first page older than the high-water mark
+        let syncState: ResourceSyncState | null = databaseId
+            ? await this.syncStateService.start(integration.id, ExternalProvider.NOTION, databaseId)
+            : null;
+        const since = syncState?.mode === 'incremental' ? syncState.highWaterMark : null;
+
+        let startCursor: string | undefined = syncState?.cursor || undefined;
+        let newest: Date | null = null;
         let pageCount = 0;
+        let skipped = 0;
+        let batches = 0;
+        let cancelled = false;
+        let reachedHighWater = false;
 
         while (true) {
+            if (await reporter?.isCancelled()) {
+                cancelled = true;
+                break;
+            }
+
             const query: any = {
                 page_size: 100,
+                sort: { direction: 'descending', timestamp: 'last_edited_time' },
             };
             if (startCursor) query.start_cursor = startCursor;
             if (databaseId) query.database_id = databaseId;
@@ -282,6 +311,13 @@ export class NotionIntegrationService {
             const projectsToProcess = connections.length > 0 ? connections.map((c) => c.project) : [];
 
             for (const page of pages) {
+                const editedAt = new Date((page as any).last_edited_time || (page as any).created_time || Date.now());
+                if (since && editedAt < since) {
+                    reachedHighWater = true;
+                    break;
+                }
+                if (!newest || editedAt > newest) newest = editedAt;
+
                 const createdById = (page as any).created_by?.id;
                 const { identityId, memberId } = createdById
                     ? await this.resolveAuthorIdentity(integration.organizationId, createdById)
@@ -290,6 +326,28 @@ export class NotionIntegrationService {
                 for (const project of projectsToProcess) {
                     if (!project) continue;
 
+                    // Already ingested by an earlier run; pages edited since are refreshed and summarized again
+                    const existing = await this.databaseService.rawEvent.findFirst({
+                        where: { projectId: project.id, source: ExternalProvider.NOTION, sourceId: page.id },
+                        orderBy: { timestamp: 'asc' },
+                        select: { id: true, metadata: true },
+                    });
+                    if (existing) {
+                        skipped++;
+                        const metadata = (existing.metadata as Record<string, any>) || {};
+                        if (metadata.page?.last_edited_time !== (page as any).last_edited_time) {
+                            await this.databaseService.rawEvent.update({
+                                where: { id: existing.id },
+                                data: {
+                                    content: this.pageTitle(page),
+                                    metadata: { ...metadata, page: this.pageMetadata(page) },
+                                },
+                            });
+                            await this.llmQueue.enqueue({ rawEventId: existing.id, mode: 'summary' });
+                        }
+                        continue;
+                    }
+
                     try {
                         const rawEvent = await this.databaseService.rawEvent.create({
                             data: {
@@ -302,21 +360,15 @@ export class NotionIntegrationService {
                                 authorIdentityId: identityId,
                                 authorMemberId: memberId,
                                 timestamp: new Date((page as any).created_time || Date.now()),
-                                content: (page as any).properties?.title || 'Untitled',
-                                metadata: {
-                                    page: {
-                                        id: page.id,
-                                        url: (page as any).url,
-                                        object: page.object,
-                                    },
-                                },
+                                content: this.pageTitle(page),
+                                metadata: { page: this.pageMetadata(page) },
                             },
                         });
 
                         try {
-                            await this.llmService.processRawEvent(rawEvent.id);
+                            await this.llmQueue.enqueue({ rawEventId: rawEvent.id, mode: 'summary' });
                         } catch (error) {
-                            console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                            console.error(`Failed to queue LLM processing for RawEvent ${rawEvent.id}:`, error);
                         }
                     } catch (error) {
                         console.error(`Failed to create RawEvent for Notion page ${page.id}:`, error);
@@ -326,20 +378,334 @@ export class NotionIntegrationService {
                 pageCount++;
             }
 
-            if (!res.data.has_more) break;
-            startCursor = res.data.next_cursor;
+            startCursor = res.data.has_more && !reachedHighWater ? res.data.next_cursor : undefined;
+            if (syncState) {
+                syncState = await this.syncStateService.checkpoint(syncState, startCursor || null, newest);
+            }
+            await reporter?.progress({ batches: ++batches, pages: pageCount, skipped });
+
+            if (!startCursor) break;
         }
 
-        return { ingested: pageCount };
+        if (syncState && !cancelled) {
+            await this.syncStateService.finish(syncState, newest);
+        }
+
+        return { ingested: pageCount, skipped, mode: syncState?.mode ?? 'backfill' };
+    }
+
+    private pageTitle(page: any): string {
+        const titleProperty = (Object.values(page.properties || {}) as any[]).find((p) => p.type === 'title')?.title;
+        return (titleProperty || []).map((t: any) => t.plain_text).join('') || 'Untitled';
     }
 
+    private pageMetadata(page: any) {
+        return { id: page.id, url: page.url, object: page.object, last_edited_time: page.last_edited_time };
+    }
+
+    /**
+     * Verify X-Notion-Signature (HMAC-SHA256 of the raw body keyed with the subscription's verification token).
+     * Deliveries to an integration's own webhook URL use its confirmed token, others NOTION_WEBHOOK_VERIFICATION_TOKEN.
+     */
+    async verifySignature(rawBody: string, signature?: string, integrationId?: string) {
+        const secret = integrationId
+            ? await this.getWebhookVerificationToken(integrationId)
+            : this.configService.get<string>('NOTION_WEBHOOK_VERIFICATION_TOKEN');
+        if (!secret || !signature) throw new UnauthorizedException();
+
+        const expected = 'sha256=' + crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+        if (
+            signature.length !== expected.length ||
+            !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+        ) {
+            throw new UnauthorizedException();
+        }
+    }
+
+    /**
+     * Handle Notion page/database change events, producing RawEvents like ingestPages does in bulk
+     */
     async handleWebhook(payload: any) {
-        await this.databaseService.webhookEvent.create({
+        const type: string = payload?.type || '';
+        const entity = payload?.entity;
+
+        if (!entity?.id || !(type.startsWith('page.') || type.startsWith('database.'))) return;
+
+        const integrations = await this.databaseService.integration.findMany({
+            where: {
+                type: ExternalProvider.NOTION,
+                config: { path: ['workspaceId'], equals: payload.workspace_id },
+            },
+        });
+
+        const isDatabase = entity.type === 'database';
+        const parent = payload.data?.parent;
+        const databaseId = isDatabase ? entity.id : parent?.type === 'database' ? parent.id : undefined;
+        const authorId = payload.authors?.find((a: any) => a.type === 'person')?.id || payload.authors?.[0]?.id;
+
+        for (const integration of integrations) {
+            // Same project mapping as ingestPages: by database when known, otherwise every connection
+            const connections = await this.databaseService.integrationConnection.findMany({
+                where: {
+                    integrationId: integration.id,
+                    ...(databaseId
+                        ? {
+                              items: {
+                                  path: ['databases'],
+                                  array_contains: databaseId,
+                              },
+                          }
+                        : {}),
+                },
+                include: { project: true },
+            });
+
+            if (connections.length === 0) continue;
+
+            const details = type.endsWith('.deleted') ? null : await this.fetchEntityDetails(integration.id, entity.id, isDatabase);
+            const title = details?.title || 'Untitled';
+
+            const { identityId, memberId } = authorId
+                ? await this.resolveAuthorIdentity(integration.organizationId, authorId)
+                : { identityId: null, memberId: null };
+
+            for (const connection of connections) {
+                try {
+                    const rawEvent = await this.databaseService.rawEvent.create({
+                        data: {
+                            integrationId: integration.id,
+                            projectId: connection.projectId,
+                            resourceId: databaseId,
+                            source: ExternalProvider.NOTION,
+                            sourceId: entity.id,
+                            eventType: RawEventType.OTHER,
+                            authorIdentityId: identityId,
+                            authorMemberId: memberId,
+                            timestamp: new Date(payload.timestamp || Date.now()),
+                            content: `${isDatabase ? 'Database' : 'Page'} "${title}" ${this.describeChange(type)}`,
+                            metadata: {
+                                [isDatabase ? 'database' : 'page']: {
+                                    id: entity.id,
+                                    url: details?.url,
+                                    object: entity.type,
+                                    title,
+                                },
+                                change: {
+                                    type,
+                                    eventId: payload.id,
+                                    updatedProperties: payload.data?.updated_properties,
+                                    updatedBlocks: payload.data?.updated_blocks?.length || 0,
+                                },
+                            },
+                        },
+                    });
+
+                    try {
+                        await this.llmService.processRawEvent(rawEvent.id);
+                    } catch (error) {
+                        console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                    }
+                } catch (error) {
+                    console.error(`Failed to create RawEvent for Notion ${entity.type} ${entity.id}:`, error);
+                }
+            }
+        }
+    }
+
+    /**
+     * Best-effort title/url lookup; webhook payloads only carry ids
+     */
+    private async fetchEntityDetails(integrationId: string, entityId: string, isDatabase: boolean): Promise<{ title: string; url?: string } | null> {
+        try {
+            const token = await this.getValidToken(integrationId);
+            const res = await axios.get(`https://api.notion.com/v1/${isDatabase ? 'databases' : 'pages'}/${entityId}`, {
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    'Notion-Version': '2022-06-28',
+                },
+            });
+
+            const titleProperty = isDatabase
+                ? res.data.title
+                : (Object.values(res.data.properties || {}) as any[]).find((p) => p.type === 'title')?.title;
+
+            return {
+                title: (titleProperty || []).map((t: any) => t.plain_text).join('') || 'Untitled',
+                url: res.data.url,
+            };
+        } catch (error) {
+            console.warn(`Failed to fetch Notion ${isDatabase ? 'database' : 'page'} ${entityId}:`, error.message);
+            return null;
+        }
+    }
+
+    private describeChange(type: string) {
+        const action = type.split('.')[1] || 'updated';
+        return action.replace(/_/g, ' ');
+    }
+
+    /**
+     * Subscription handshake: Notion posts the token that will sign every later delivery. The webhook endpoint
+     * is unauthenticated, so the token is only kept (encrypted) as pending until an admin confirms it. The first
+     * pending token stays: later handshakes are counted and logged but cannot replace it until an admin discards it.
+     */
+    async storePendingVerificationToken(integrationId: string, token: string) {
+        const integration = await this.databaseService.integration.findUnique({ where: { id: integrationId } });
+        const INTEGRATION_TOKEN_ENCRYPTION_KEY = this.configService.get<string>('INTEGRATION_TOKEN_ENCRYPTION_KEY');
+
+        if (!integration || integration.type !== ExternalProvider.NOTION || !INTEGRATION_TOKEN_ENCRYPTION_KEY) {
+            this.logger.warn(`Ignoring Notion webhook verification request for unknown integration ${integrationId}`, NotionIntegrationService.name);
+            return;
+        }
+
+        const config = (integration.config as any) || {};
+        if (config.pendingWebhookVerificationToken) {
+            const ignored = (config.ignoredWebhookVerificationRequests ?? 0) + 1;
+            await this.databaseService.integration.update({
+                where: { id: integrationId },
+                data: { config: { ...config, ignoredWebhookVerificationRequests: ignored } },
+            });
+
+            this.logger.warn(
+                `Ignored Notion webhook verification token ${this.fingerprint(token)} for integration ${integrationId}: ` +
+                    `token ${config.pendingWebhookVerificationFingerprint} is already pending (${ignored} ignored so far)`,
+                NotionIntegrationService.name
+            );
+            return;
+        }
+
+        await this.databaseService.integration.update({
+            where: { id: integrationId },
+            data: {
+                config: {
+                    ...config,
+                    pendingWebhookVerificationToken: encrypt(INTEGRATION_TOKEN_ENCRYPTION_KEY, token),
+                    pendingWebhookVerificationFingerprint: this.fingerprint(token),
+                    pendingWebhookVerificationAt: new Date().toISOString(),
+                    ignoredWebhookVerificationRequests: 0,
+                },
+            },
+        });
+
+        this.logger.log(
+            `Notion webhook verification token ${this.fingerprint(token)} received for integration ${integrationId}; awaiting admin confirmation`,
+            NotionIntegrationService.name
+        );
+    }
+
+    /**
+     * Pending handshake token (to paste into Notion), with its fingerprint and when it arrived, and whether a
+     * confirmed token signs deliveries. ignoredRequests counts handshakes that arrived while one was pending.
+     */
+    async getWebhookVerification(integrationId: string, userId: string) {
+        const { config } = await this.getManagedIntegration(integrationId, userId);
+        const INTEGRATION_TOKEN_ENCRYPTION_KEY = this.configService.get<string>('INTEGRATION_TOKEN_ENCRYPTION_KEY');
+
+        return {
+            pendingToken: config.pendingWebhookVerificationToken && INTEGRATION_TOKEN_ENCRYPTION_KEY
+                ? decrypt(INTEGRATION_TOKEN_ENCRYPTION_KEY, config.pendingWebhookVerificationToken)
+                : null,
+            pendingFingerprint: config.pendingWebhookVerificationFingerprint ?? null,
+            pendingReceivedAt: config.pendingWebhookVerificationAt ?? null,
+            ignoredRequests: config.ignoredWebhookVerificationRequests ?? 0,
+            verified: Boolean(config.webhookVerificationToken),
+            verifiedAt: config.webhookVerifiedAt ?? null,
+        };
+    }
+
+    /**
+     * Make the pending handshake token the one deliveries are verified with. The admin passes the fingerprint
+     * they reviewed, so a token that differs from it is never activated.
+     */
+    async confirmWebhookVerification(integrationId: string, userId: string, fingerprint: string) {
+        const { config } = await this.getManagedIntegration(integrationId, userId);
+        if (!config.pendingWebhookVerificationToken) {
+            throw new BadRequestException('No pending Notion webhook verification token');
+        }
+        if (fingerprint !== config.pendingWebhookVerificationFingerprint) {
+            throw new BadRequestException('Fingerprint does not match the pending Notion webhook verification token');
+        }
+
+        const {
+            pendingWebhookVerificationToken,
+            pendingWebhookVerificationFingerprint,
+            pendingWebhookVerificationAt,
+            ignoredWebhookVerificationRequests,
+        } = config;
+        await this.databaseService.integration.update({
+            where: { id: integrationId },
             data: {
-                provider: ExternalProvider.NOTION,
-                providerEventId: payload.id || Date.now().toString(),
-                payload,
+                config: {
+                    ...this.withoutPendingVerification(config),
+                    webhookVerificationToken: pendingWebhookVerificationToken,
+                    webhookVerifiedAt: new Date().toISOString(),
+                },
             },
         });
+
+        this.logger.log(
+            `Notion webhook verification token ${pendingWebhookVerificationFingerprint} confirmed for integration ${integrationId} ` +
+                `(received ${pendingWebhookVerificationAt}, ${ignoredWebhookVerificationRequests ?? 0} later requests ignored)`,
+            NotionIntegrationService.name
+        );
+        return { verified: true, fingerprint: pendingWebhookVerificationFingerprint, receivedAt: pendingWebhookVerificationAt };
+    }
+
+    /**
+     * Drop a pending handshake token that is not the subscription's, so the next handshake is stored
+     */
+    async discardWebhookVerification(integrationId: string, userId: string) {
+        const { config } = await this.getManagedIntegration(integrationId, userId);
+        if (!config.pendingWebhookVerificationToken) {
+            throw new BadRequestException('No pending Notion webhook verification token');
+        }
+
+        await this.databaseService.integration.update({
+            where: { id: integrationId },
+            data: { config: this.withoutPendingVerification(config) },
+        });
+
+        this.logger.warn(
+            `Pending Notion webhook verification token ${config.pendingWebhookVerificationFingerprint} (received ${config.pendingWebhookVerificationAt}) ` +
+                `discarded for integration ${integrationId}`,
+            NotionIntegrationService.name
+        );
+        return { discarded: true };
+    }
+
+    private withoutPendingVerification(config: Record<string, any>) {
+        const rest = { ...config };
+        delete rest.pendingWebhookVerificationToken;
+        delete rest.pendingWebhookVerificationFingerprint;
+        delete rest.pendingWebhookVerificationAt;
+        delete rest.ignoredWebhookVerificationRequests;
+        return rest;
+    }
+
+    // Short, non-reversible id for a verification token, safe to log and show
+    private fingerprint(token: string) {
+        return crypto.createHash('sha256').update(token).digest('hex').slice(0, 16);
+    }
+
+    private async getWebhookVerificationToken(integrationId: string): Promise<string | undefined> {
+        const integration = await this.databaseService.integration.findUnique({
+            where: { id: integrationId },
+            select: { type: true, config: true },
+        });
+        const encrypted = (integration?.config as any)?.webhookVerificationToken;
+        const INTEGRATION_TOKEN_ENCRYPTION_KEY = this.configService.get<string>('INTEGRATION_TOKEN_ENCRYPTION_KEY');
+
+        if (integration?.type !== ExternalProvider.NOTION || !encrypted || !INTEGRATION_TOKEN_ENCRYPTION_KEY) return undefined;
+        return decrypt(INTEGRATION_TOKEN_ENCRYPTION_KEY, encrypted);
+    }
+
+    private async getManagedIntegration(integrationId: string, userId: string) {
+        const integration = await this.databaseService.integration.findUnique({ where: { id: integrationId } });
+        if (!integration || integration.type !== ExternalProvider.NOTION) {
+            throw new NotFoundException(`Integration ${integrationId} not found`);
+        }
+
+        await this.authorizationService.assertOrgPermission(userId, integration.organizationId, PermissionName.MANAGE_INTEGRATIONS);
+        return { integration, config: (integration.config as any) || {} };
     }
-}
\ No newline at end of file
+}
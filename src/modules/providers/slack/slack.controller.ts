@@ -5,6 +5,9 @@ import { DatabaseService } from "src/services/database/database.service";
 import { SlackService } from "./slack.service";
 import { AuthGuard } from 'src/modules/auth/guards/auth.guard';
 import { ConfigService } from '@nestjs/config';
+import { WebhooksService } from 'src/modules/webhooks/webhooks.service';
+import { IngestionService } from 'src/modules/ingestion/ingestion.service';
+import { ExternalProvider } from 'generated/prisma/enums';
 
 @Controller('integrations/slack')
 export class SlackController {
@@ -12,6 +15,8 @@ export class SlackController {
         private readonly databaseService: DatabaseService,
         private readonly slackService: SlackService,
         private readonly configService: ConfigService,
+        private readonly webhooksService: WebhooksService,
+        private readonly ingestionService: IngestionService,
     ) { }
 
     @Get('install/:orgId/:integrationId')
@@ -46,7 +51,10 @@ export class SlackController {
             return res.json({ challenge: req.body.challenge });
         }
 
-        await this.slackService.handleWebhook(req.body);
+        await this.webhooksService.receive(ExternalProvider.SLACK, {
+            'x-slack-request-timestamp': ts,
+            'x-slack-retry-num': req.headers['x-slack-retry-num'],
+        }, req.body);
 
         return res.send('ok');
     }
@@ -69,6 +77,6 @@ export class SlackController {
         if (!channelId) {
             throw new BadRequestException('channelId is required');
         }
-        return this.slackService.ingestSlackHistory(integrationId, channelId, projectId);
+        return this.ingestionService.createJob({ integrationId, type: 'slack_history', resourceId: channelId, projectId });
     }
 }
\ No newline at end of file
@@ -6,6 +6,9 @@ import { DatabaseService } from 'src/services/database/database.service';
 import { decrypt, encrypt } from 'src/utils/encryption';
 import { signState, verifyState } from 'src/utils/oauth-state';
 import { LlmService } from 'src/modules/llm/llm.service';
+import { IngestionReporter } from 'src/services/queue/ingestion.queue';
+import { LLMQueue } from 'src/services/queue/llm.queue';
+import { SyncStateService } from 'src/modules/ingestion/sync-state.service';
 
 @Injectable()
 export class SlackService {
@@ -13,6 +16,8 @@ export class SlackService {
         private readonly databaseService: DatabaseService,
         private readonly configService: ConfigService,
         private readonly llmService: LlmService,
+        private readonly llmQueue: LLMQueue,
+        private readonly syncStateService: SyncStateService,
     ) { }
 
     /**
@@ -199,7 +204,7 @@ export class SlackService {
         return { synced: channels.length, channels };
     }
 
-    async ingestSlackHistory(integrationId: string, channelId: string, projectId?: string) {
+    async ingestSlackHistory(integrationId: string, channelId: string, projectId?: string, reporter?: IngestionReporter) {
         const integration = await this.databaseService.integration.findUnique({
             where: { id: integrationId },
             include: { organization: true },
@@ -251,18 +256,34 @@ export class SlackService {
 
         const projectsToProcess = connections.length > 0 ? connections.map((c) => c.project) : projectId ? [await this.databaseService.project.findUnique({ where: { id: projectId } })] : [];
 
-        let cursor: string | undefined;
+        // Resume an interrupted run from its saved cursor; once backfilled, only fetch messages after the high-water mark
+        let syncState = await this.syncStateService.start(integration.id, ExternalProvider.SLACK, channelId, resource?.name);
+        const oldest = syncState.mode === 'incremental' && syncState.highWaterMark ? String(syncState.highWaterMark.getTime() / 1000) : undefined;
+
+        let cursor: string | undefined = syncState.cursor || undefined;
+        let newest: Date | null = null;
         let messageCount = 0;
+        let skipped = 0;
+        let pages = 0;
+        let cancelled = false;
 
         do {
+            if (await reporter?.isCancelled()) {
+                cancelled = true;
+                break;
+            }
+
             const res = await axios.get('https://slack.com/api/conversations.history', {
                 headers: { Authorization: `Bearer ${token}` },
-                params: { channel: channelId, limit: 200, cursor }
+                params: { channel: channelId, limit: 200, cursor, oldest }
             });
 
             if (!res.data.ok) throw new Error(res.data.error);
 
             for (const msg of res.data.messages) {
+                const sentAt = new Date(parseFloat(msg.ts) * 1000);
+                if (!newest || sentAt > newest) newest = sentAt;
+
                 if (msg.subtype || msg.bot_id) continue;
 
                 // Resolve author identity
@@ -275,6 +296,16 @@ export class SlackService {
                 for (const project of projectsToProcess) {
                     if (!project) continue;
 
+                    // Already ingested by an earlier (possibly interrupted) run
+                    const existing = await this.databaseService.rawEvent.findFirst({
+                        where: { projectId: project.id, source: ExternalProvider.SLACK, sourceId: msg.ts },
+                        select: { id: true },
+                    });
+                    if (existing) {
+                        skipped++;
+                        continue;
+                    }
+
                     try {
                         const rawEvent = await this.databaseService.rawEvent.create({
                             data: {
@@ -289,7 +320,8 @@ export class SlackService {
                                 authorName: msg.username,
                                 channelId: channelId,
                                 channelName: resource?.name,
-                                timestamp: new Date(parseFloat(msg.ts) * 1000),
+                                threadId: msg.thread_ts || undefined,
+                                timestamp: sentAt,
                                 content: msg.text,
                                 metadata: {
                                     channel: { id: channelId, name: resource?.name },
@@ -304,9 +336,9 @@ export class SlackService {
 
                         // Queue LLM processing
                         try {
-                            await this.llmService.processRawEvent(rawEvent.id);
+                            await this.llmQueue.enqueue({ rawEventId: rawEvent.id, mode: 'summary' });
                         } catch (error) {
-                            console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                            console.error(`Failed to queue LLM processing for RawEvent ${rawEvent.id}:`, error);
                         }
                     } catch (error) {
                         console.error(`Failed to create RawEvent for Slack message ${msg.ts}:`, error);
@@ -317,18 +349,174 @@ export class SlackService {
             }
 
             cursor = res.data.response_metadata?.next_cursor || undefined;
+            syncState = await this.syncStateService.checkpoint(syncState, cursor || null, newest);
+            await reporter?.progress({ pages: ++pages, messages: messageCount, skipped });
         } while (cursor);
 
-        return { ingested: messageCount };
+        if (!cancelled) {
+            await this.syncStateService.finish(syncState, newest);
+        }
+
+        return { ingested: messageCount, skipped, mode: syncState.mode };
     }
 
+    /**
+     * Handle Slack Events API callbacks (message, message_changed, message_deleted, thread replies)
+     */
     async handleWebhook(payload: any) {
-        await this.databaseService.webhookEvent.create({
-            data: {
+        if (payload?.type !== 'event_callback' || payload.event?.type !== 'message') return;
+
+        const event = payload.event;
+
+        // A workspace can be connected by several organizations
+        const integrations = await this.databaseService.integration.findMany({
+            where: {
+                type: ExternalProvider.SLACK,
+                config: { path: ['teamId'], equals: payload.team_id },
+            },
+        });
+
+        for (const integration of integrations) {
+            switch (event.subtype) {
+                case undefined:
+                case 'thread_broadcast':
+                    await this.handleMessage(integration, event.channel, event);
+                    break;
+                case 'message_changed':
+                    await this.handleMessageChanged(integration, event.channel, event.message);
+                    break;
+                case 'message_deleted':
+                    await this.handleMessageDeleted(integration, event.channel, event.deleted_ts);
+                    break;
+            }
+        }
+    }
+
+    private async handleMessage(integration: { id: string; organizationId: string }, channelId: string, msg: any) {
+        if (!msg || msg.bot_id || !msg.ts) return;
+
+        const connections = await this.databaseService.integrationConnection.findMany({
+            where: {
+                integrationId: integration.id,
+                items: {
+                    path: ['channels'],
+                    array_contains: channelId,
+                },
+            },
+            include: { project: true },
+        });
+
+        if (connections.length === 0) return;
+
+        const resource = await this.databaseService.integrationResource.findFirst({
+            where: {
+                integrationId: integration.id,
                 provider: ExternalProvider.SLACK,
-                providerEventId: payload.event?.event_ts || Date.now().toString(),
-                payload,
+                providerId: channelId,
             },
         });
+
+        const { identityId, memberId } = msg.user
+            ? await this.resolveAuthorIdentity(integration.organizationId, msg.user, msg.username)
+            : { identityId: null, memberId: null };
+
+        const isThreadReply = !!msg.thread_ts && msg.thread_ts !== msg.ts;
+
+        for (const connection of connections) {
+            const existing = await this.databaseService.rawEvent.findFirst({
+                where: { projectId: connection.projectId, source: ExternalProvider.SLACK, sourceId: msg.ts, channelId },
+                select: { id: true },
+            });
+            if (existing) continue;
+
+            try {
+                const rawEvent = await this.databaseService.rawEvent.create({
+                    data: {
+                        integrationId: integration.id,
+                        projectId: connection.projectId,
+                        resourceId: channelId,
+                        source: ExternalProvider.SLACK,
+                        sourceId: msg.ts,
+                        eventType: RawEventType.MESSAGE,
+                        authorIdentityId: identityId,
+                        authorMemberId: memberId,
+                        authorName: msg.username,
+                        channelId,
+                        channelName: resource?.name,
+                        threadId: msg.thread_ts || undefined,
+                        parentMessageId: isThreadReply ? msg.thread_ts : undefined,
+                        messageType: isThreadReply ? 'thread_reply' : 'message',
+                        timestamp: new Date(parseFloat(msg.ts) * 1000),
+                        content: msg.text,
+                        metadata: {
+                            channel: { id: channelId, name: resource?.name },
+                            message: {
+                                type: msg.type,
+                                subtype: msg.subtype || null,
+                                edited: null,
+                                files: msg.files?.length || 0,
+                            },
+                        },
+                    },
+                });
+
+                try {
+                    await this.llmService.processRawEvent(rawEvent.id);
+                } catch (error) {
+                    console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+                }
+            } catch (error) {
+                console.error(`Failed to create RawEvent for Slack message ${msg.ts}:`, error);
+            }
+        }
+    }
+
+    private async handleMessageChanged(integration: { id: string; organizationId: string }, channelId: string, msg: any) {
+        if (!msg?.ts) return;
+
+        const rawEvents = await this.databaseService.rawEvent.findMany({
+            where: { integrationId: integration.id, source: ExternalProvider.SLACK, sourceId: msg.ts, channelId, deletedAt: null },
+            select: { id: true, metadata: true },
+        });
+
+        // Edit of a message we never saw (e.g. sent before the channel was connected)
+        if (rawEvents.length === 0) {
+            return this.handleMessage(integration, channelId, msg);
+        }
+
+        for (const rawEvent of rawEvents) {
+            const metadata = (rawEvent.metadata as any) || {};
+
+            await this.databaseService.rawEvent.update({
+                where: { id: rawEvent.id },
+                data: {
+                    content: msg.text,
+                    processedByLLM: false,
+                    processingError: null,
+                    metadata: {
+                        ...metadata,
+                        message: {
+                            ...(metadata.message || {}),
+                            edited: msg.edited ? { ts: msg.edited.ts, user: msg.edited.user } : null,
+                        },
+                    },
+                },
+            });
+
+            try {
+                await this.llmService.processRawEvent(rawEvent.id);
+            } catch (error) {
+                console.error(`Failed to process RawEvent ${rawEvent.id}:`, error);
+            }
+        }
+    }
+
+    private async handleMessageDeleted(integration: { id: string }, channelId: string, deletedTs: string) {
+        if (!deletedTs) return;
+
+        await this.databaseService.rawEvent.updateMany({
+            where: { integrationId: integration.id, source: ExternalProvider.SLACK, sourceId: deletedTs, channelId, deletedAt: null },
+            data: { deletedAt: new Date() },
+        });
     }
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Injectable, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { DatabaseService } from 'src/services/database/database.service';
 import { TaskStatus, ExternalProvider } from 'generated/prisma/enums';
+import { Prisma } from 'generated/prisma/client';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
 
@@ -419,7 +420,7 @@ export class TasksService {
         }
 
         const rawEvent = await this.databaseService.rawEvent.findUnique({
-            where: { id: rawEventId },
+            where: { id: rawEventId, deletedAt: null },
         });
 
         if (!rawEvent) {
@@ -460,26 +461,13 @@ export class TasksService {
             status?: TaskStatus;
             assigneeId?: string;
             priority?: number;
+            overdue?: boolean;
             limit?: number;
             offset?: number;
         },
     ) {
         const tasks = await this.databaseService.task.findMany({
-            where: {
-                projectId,
-                ...(filters.status ? { status: filters.status } : {}),
-                ...(filters.assigneeId
-                    ? {
-                          assignedTo: {
-                              some: {
-                                  assigneeId: filters.assigneeId,
-                                  isActive: true,
-                              },
-                          },
-                      }
-                    : {}),
-                ...(filters.priority ? { priority: filters.priority } : {}),
-            },
+            where: this.buildTaskFilter(projectId, filters),
             orderBy: { createdAt: 'desc' },
             take: filters.limit || 50,
             skip: filters.offset || 0,
@@ -502,6 +490,58 @@ export class TasksService {
         return tasks;
     }
 
+    /**
+     * Count tasks matching the same filters as getTasks
+     */
+    async countTasks(
+        projectId: string,
+        filters: { status?: TaskStatus; assigneeId?: string; priority?: number; overdue?: boolean },
+    ) {
+        return this.databaseService.task.count({
+            where: this.buildTaskFilter(projectId, filters),
+        });
+    }
+
+    /**
+     * Overdue is evaluated at query time (the stored isOverdue flag is only refreshed when a task changes):
+     * not DONE and past its completion deadline, or past its due date when it has no deadline
+     */
+    private buildTaskFilter(
+        projectId: string,
+        filters: { status?: TaskStatus; assigneeId?: string; priority?: number; overdue?: boolean },
+    ): Prisma.TaskWhereInput {
+        const now = new Date();
+
+        return {
+            projectId,
+            ...(filters.status ? { status: filters.status } : {}),
+            ...(filters.assigneeId
+                ? {
+                      assignedTo: {
+                          some: {
+                              assigneeId: filters.assigneeId,
+                              isActive: true,
+                          },
+                      },
+                  }
+                : {}),
+            ...(filters.priority ? { priority: filters.priority } : {}),
+            ...(filters.overdue
+                ? {
+                      AND: [
+                          { status: { not: TaskStatus.DONE } },
+                          {
+                              OR: [
+                                  { completionDeadline: { lt: now } },
+                                  { completionDeadline: null, dueDate: { lt: now } },
+                              ],
+                          },
+                      ],
+                  }
+                : {}),
+        };
+    }
+
     /**
      * Get task details
      */
@@ -522,6 +562,7 @@ export class TasksService {
                     },
                 },
                 rawEvents: {
+                    where: { rawEvent: { deletedAt: null } },
                     include: { rawEvent: true },
                     orderBy: { createdAt: 'desc' },
                 },
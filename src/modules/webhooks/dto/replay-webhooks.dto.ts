@@ -0,0 +1,18 @@
+import { IsBoolean, IsDateString, IsEnum, IsOptional } from 'class-validator';
+import { ExternalProvider } from 'generated/prisma/enums';
+
+export class ReplayWebhooksDto {
+    @IsDateString()
+    from: string;
+
+    @IsDateString()
+    to: string;
+
+    @IsEnum(ExternalProvider)
+    @IsOptional()
+    provider?: ExternalProvider;
+
+    @IsBoolean()
+    @IsOptional()
+    includeProcessed?: boolean;
+}
@@ -0,0 +1,54 @@
+import { Body, Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { RequirePermission } from '../auth/decorator/permission.decorator';
+import { ExternalProvider, PermissionName } from 'generated/prisma/enums';
+import { WebhooksService } from './webhooks.service';
+import { ReplayWebhooksDto } from './dto/replay-webhooks.dto';
+
+@Controller('orgs/:orgId/webhooks')
+@UseGuards(AuthGuard, PermissionGuard)
+export class WebhooksController {
+    constructor(private readonly webhooksService: WebhooksService) { }
+
+    @Get()
+    @RequirePermission(PermissionName.MANAGE_WEBHOOKS)
+    async listEvents(
+        @Param('orgId') orgId: string,
+        @Query('provider') provider?: ExternalProvider,
+        @Query('processed') processed?: string,
+        @Query('deadLettered') deadLettered?: string,
+        @Query('from') from?: string,
+        @Query('to') to?: string,
+        @Query('page') page?: string,
+        @Query('limit') limit?: string,
+    ) {
+        return this.webhooksService.listEvents(orgId, {
+            provider,
+            processed: processed !== undefined ? processed === 'true' : undefined,
+            deadLettered: deadLettered !== undefined ? deadLettered === 'true' : undefined,
+            from,
+            to,
+            page: page ? parseInt(page) : undefined,
+            limit: limit ? parseInt(limit) : undefined,
+        });
+    }
+
+    @Post('replay')
+    @RequirePermission(PermissionName.MANAGE_WEBHOOKS)
+    async replayRange(@Param('orgId') orgId: string, @Body() dto: ReplayWebhooksDto) {
+        return this.webhooksService.replayRange(orgId, dto);
+    }
+
+    @Get(':id')
+    @RequirePermission(PermissionName.MANAGE_WEBHOOKS)
+    async getEvent(@Param('orgId') orgId: string, @Param('id') id: string) {
+        return this.webhooksService.getEvent(orgId, id);
+    }
+
+    @Post(':id/replay')
+    @RequirePermission(PermissionName.MANAGE_WEBHOOKS)
+    async replayEvent(@Param('orgId') orgId: string, @Param('id') id: string) {
+        return this.webhooksService.replayEvent(orgId, id);
+    }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from 'src/services/database/database.module';
+import { LoggerModule } from 'src/services/logger/logger.module';
+import { AuthModule } from 'src/modules/auth/auth.module';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+
+@Module({
+    imports: [DatabaseModule, LoggerModule, AuthModule],
+    providers: [WebhooksService],
+    controllers: [WebhooksController],
+    exports: [WebhooksService],
+})
+export class WebhooksModule { }
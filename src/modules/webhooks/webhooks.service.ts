@@ -0,0 +1,336 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { ExternalProvider } from 'generated/prisma/enums';
+import { Prisma } from 'generated/prisma/client';
+import { DatabaseService } from 'src/services/database/database.service';
+import { LoggerService } from 'src/services/logger/logger.service';
+import { WebhookQueue } from 'src/services/queue/webhook.queue';
+import { ReplayWebhooksDto } from './dto/replay-webhooks.dto';
+
+const MAX_REPLAY_BATCH = 500;
+
+export interface WebhookEventFilters {
+    provider?: ExternalProvider;
+    processed?: boolean;
+    deadLettered?: boolean;
+    from?: string;
+    to?: string;
+    page?: number;
+    limit?: number;
+}
+
+@Injectable()
+export class WebhooksService {
+    private readonly logger = new LoggerService(WebhooksService.name);
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly webhookQueue: WebhookQueue,
+    ) { }
+
+    /**
+     * Persist an already verified webhook delivery and hand it to the webhook queue.
+     * Provider handlers run in WebhookProcessor, so controllers can acknowledge immediately.
+     * Redeliveries of a known provider event id are acknowledged without being queued again, unless the
+     * stored delivery never made it onto the queue (the enqueue failed), in which case it is queued now.
+     */
+    async receive(provider: ExternalProvider, headers: Record<string, any>, payload: any) {
+        const providerEventId = this.extractProviderEventId(provider, headers, payload);
+
+        if (providerEventId) {
+            const existing = await this.findDelivery(provider, providerEventId);
+            if (existing?.processed || existing?.queuedAt) {
+                this.logger.log(`Skipping duplicate ${provider} delivery ${providerEventId}`, WebhooksService.name);
+                return existing;
+            }
+            if (existing) {
+                this.logger.log(`Queueing ${provider} delivery ${providerEventId} stored by an earlier failed attempt`, WebhooksService.name);
+                return this.enqueueDelivery(existing);
+            }
+        }
+
+        const integration = await this.resolveIntegration(provider, payload);
+
+        let webhookEvent;
+        try {
+            webhookEvent = await this.databaseService.webhookEvent.create({
+                data: {
+                    provider,
+                    providerEventId,
+                    organizationId: integration?.organizationId,
+                    integrationId: integration?.id,
+                    headers,
+                    payload,
+                },
+            });
+        } catch (error) {
+            // Concurrent redelivery won the race on idx_webhook_provider_event
+            if (providerEventId && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                this.logger.log(`Skipping duplicate ${provider} delivery ${providerEventId}`, WebhooksService.name);
+                return this.findDelivery(provider, providerEventId);
+            }
+            throw error;
+        }
+
+        return this.enqueueDelivery(webhookEvent);
+    }
+
+    /**
+     * List webhook events for an organization (payload omitted)
+     */
+    async listEvents(organizationId: string, filters: WebhookEventFilters) {
+        const limit = Math.min(filters.limit || 20, 100);
+        const page = filters.page || 1;
+
+        const where: Prisma.WebhookEventWhereInput = {
+            organizationId,
+            ...(filters.provider && { provider: filters.provider }),
+            ...(filters.processed !== undefined && { processed: filters.processed }),
+            ...(filters.deadLettered !== undefined && {
+                deadLetteredAt: filters.deadLettered ? { not: null } : null,
+            }),
+            ...((filters.from || filters.to) && {
+                receivedAt: {
+                    ...(filters.from && { gte: this.parseDate(filters.from, 'from') }),
+                    ...(filters.to && { lte: this.parseDate(filters.to, 'to') }),
+                },
+            }),
+        };
+
+        const [events, totalCount] = await Promise.all([
+            this.databaseService.webhookEvent.findMany({
+                where,
+                select: {
+                    id: true,
+                    provider: true,
+                    providerEventId: true,
+                    integrationId: true,
+                    receivedAt: true,
+                    processed: true,
+                    processedAt: true,
+                    attempts: true,
+                    lastError: true,
+                    deadLetteredAt: true,
+                },
+                orderBy: { receivedAt: 'desc' },
+                take: limit,
+                skip: (page - 1) * limit,
+            }),
+            this.databaseService.webhookEvent.count({ where }),
+        ]);
+
+        return {
+            success: true,
+            count: events.length,
+            totalCount,
+            totalPages: Math.ceil(totalCount / limit),
+            data: events,
+        };
+    }
+
+    /**
+     * Get a single webhook event including its payload
+     */
+    async getEvent(organizationId: string, webhookEventId: string) {
+        const webhookEvent = await this.databaseService.webhookEvent.findFirst({
+            where: { id: webhookEventId, organizationId },
+        });
+
+        if (!webhookEvent) {
+            throw new NotFoundException(`Webhook event ${webhookEventId} not found`);
+        }
+
+        return webhookEvent;
+    }
+
+    /**
+     * Re-run a single webhook event through its provider handler
+     */
+    async replayEvent(organizationId: string, webhookEventId: string) {
+        const webhookEvent = await this.getEvent(organizationId, webhookEventId);
+        await this.requeue([webhookEvent]);
+
+        return { message: 'Webhook event queued for replay', webhookEventId };
+    }
+
+    /**
+     * Re-run every webhook event received in a time range.
+     * Already processed events are skipped unless includeProcessed is set.
+     */
+    async replayRange(organizationId: string, dto: ReplayWebhooksDto) {
+        const from = this.parseDate(dto.from, 'from');
+        const to = this.parseDate(dto.to, 'to');
+
+        if (from > to) {
+            throw new BadRequestException('from must be before to');
+        }
+
+        const where: Prisma.WebhookEventWhereInput = {
+            organizationId,
+            receivedAt: { gte: from, lte: to },
+            ...(dto.provider && { provider: dto.provider }),
+            ...(!dto.includeProcessed && { processed: false }),
+        };
+
+        const total = await this.databaseService.webhookEvent.count({ where });
+        if (total > MAX_REPLAY_BATCH) {
+            throw new BadRequestException(`Range matches ${total} events; narrow it to at most ${MAX_REPLAY_BATCH}`);
+        }
+
+        const webhookEvents = await this.databaseService.webhookEvent.findMany({
+            where,
+            orderBy: { receivedAt: 'asc' },
+        });
+
+        await this.requeue(webhookEvents);
+
+        return { message: 'Webhook events queued for replay', count: webhookEvents.length };
+    }
+
+    /**
+     * Queue a stored delivery and mark it queued. The row id doubles as the job id, so concurrent
+     * redeliveries of a delivery whose first enqueue failed cannot queue it twice.
+     */
+    private async enqueueDelivery(webhookEvent: { id: string; provider: ExternalProvider; headers: Prisma.JsonValue; payload: Prisma.JsonValue }) {
+        await this.webhookQueue.enqueue(
+            {
+                webhookEventId: webhookEvent.id,
+                provider: webhookEvent.provider,
+                headers: webhookEvent.headers || {},
+                payload: webhookEvent.payload,
+            },
+            { jobId: webhookEvent.id },
+        );
+
+        const queued = await this.databaseService.webhookEvent.update({
+            where: { id: webhookEvent.id },
+            data: { queuedAt: new Date() },
+        });
+
+        this.logger.log(`Queued ${webhookEvent.provider} webhook event ${webhookEvent.id}`, WebhooksService.name);
+
+        return queued;
+    }
+
+    private async requeue(webhookEvents: { id: string; provider: ExternalProvider; headers: Prisma.JsonValue; payload: Prisma.JsonValue }[]) {
+        if (webhookEvents.length === 0) return;
+
+        // Reset processing state so the processor runs the handler again
+        await this.databaseService.webhookEvent.updateMany({
+            where: { id: { in: webhookEvents.map((e) => e.id) } },
+            data: { processed: false, processedAt: null, attempts: 0, deadLetteredAt: null, queuedAt: null },
+        });
+
+        for (const webhookEvent of webhookEvents) {
+            await this.webhookQueue.enqueue({
+                webhookEventId: webhookEvent.id,
+                provider: webhookEvent.provider,
+                headers: webhookEvent.headers || {},
+                payload: webhookEvent.payload,
+            });
+        }
+
+        await this.databaseService.webhookEvent.updateMany({
+            where: { id: { in: webhookEvents.map((e) => e.id) } },
+            data: { queuedAt: new Date() },
+        });
+
+        this.logger.log(`Replaying ${webhookEvents.length} webhook event(s)`, WebhooksService.name);
+    }
+
+    private parseDate(value: string, field: string) {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+            throw new BadRequestException(`Invalid ${field} date`);
+        }
+        return date;
+    }
+
+    private findDelivery(provider: ExternalProvider, providerEventId: string) {
+        return this.databaseService.webhookEvent.findUnique({
+            where: { idx_webhook_provider_event: { provider, providerEventId } },
+        });
+    }
+
+    /**
+     * Best-effort lookup of the integration a delivery belongs to, so events can be
+     * listed per organization. Returns null when the payload carries no usable account (or Figma file) id.
+     */
+    private async resolveIntegration(provider: ExternalProvider, payload: any) {
+        let accountFilter: Prisma.IntegrationWhereInput | null = null;
+
+        switch (provider) {
+            case ExternalProvider.GITHUB:
+                if (payload?.installation?.id) {
+                    accountFilter = { externalAccountId: String(payload.installation.id) };
+                }
+                break;
+            case ExternalProvider.SLACK:
+                if (payload?.team_id) {
+                    accountFilter = { config: { path: ['teamId'], equals: payload.team_id } };
+                }
+                break;
+            case ExternalProvider.NOTION:
+                if (payload?.workspace_id) {
+                    accountFilter = { config: { path: ['workspaceId'], equals: payload.workspace_id } };
+                }
+                break;
+            case ExternalProvider.JIRA: {
+                const self = payload?.issue?.self || payload?.user?.self;
+                if (self) {
+                    try {
+                        accountFilter = { config: { path: ['cloudUrl'], equals: new URL(self).origin } };
+                    } catch {
+                        accountFilter = null;
+                    }
+                }
+                break;
+            }
+            case ExternalProvider.FIGMA:
+                // Figma payloads carry no team/account id; map the file to the integration that synced or connected it
+                if (payload?.file_key) {
+                    accountFilter = {
+                        OR: [
+                            { resources: { some: { provider: ExternalProvider.FIGMA, providerId: payload.file_key } } },
+                            { connections: { some: { items: { path: ['files'], array_contains: payload.file_key } } } },
+                        ],
+                    };
+                }
+                break;
+        }
+
+        if (!accountFilter) return null;
+
+        return this.databaseService.integration.findFirst({
+            where: { type: provider, ...accountFilter },
+            select: { id: true, organizationId: true },
+        });
+    }
+
+    /**
+     * Stable per-delivery identifier used for dedupe. Returns undefined when the provider
+     * gives us nothing reliable, in which case the delivery is always processed.
+     */
+    private extractProviderEventId(provider: ExternalProvider, headers: Record<string, any>, payload: any): string | undefined {
+        switch (provider) {
+            case ExternalProvider.GITHUB:
+                return headers['x-github-delivery'] || undefined;
+            case ExternalProvider.SLACK:
+                return payload?.event_id || undefined;
+            case ExternalProvider.JIRA:
+                if (!payload?.webhookEvent || !payload?.timestamp) return undefined;
+                return [payload.webhookEvent, payload.issue?.id, payload.comment?.id, payload.timestamp]
+                    .filter(Boolean)
+                    .join(':');
+            case ExternalProvider.FIGMA:
+                if (!payload?.webhook_id || !payload?.timestamp) return undefined;
+                return [payload.webhook_id, payload.event_type, payload.file_key, payload.comment_id, payload.version_id, payload.timestamp]
+                    .filter(Boolean)
+                    .join(':');
+            case ExternalProvider.NOTION:
+            case ExternalProvider.DISCORD:
+                return payload?.id ? String(payload.id) : undefined;
+            default:
+                return undefined;
+        }
+    }
+}
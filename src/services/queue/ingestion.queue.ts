@@ -3,20 +3,33 @@ import { Injectable } from '@nestjs/common';
 import { Queue } from 'bullmq';
 import { INJESTION_QUEUE } from 'src/config/constants';
 
+export type IngestionJobType = 'github_history' | 'slack_history' | 'discord_history' | 'notion_history' | 'jira_history' | 'figma_history';
+
 export interface IngestionJobPayload {
+    ingestionJobId: string; // IngestionJob row tracking status/progress
     integrationId: string;
-    projectId: string;
-    resourceId: string;
-    type: 'github_history' | 'slack_history' | 'discord_history' | 'notion_history' | 'jira_history' | 'figma_history';
+    projectId?: string;
+    resourceId?: string; // channel id, Jira project key, Notion database id, Figma file key
+    type: IngestionJobType;
     options?: {
         jql?: string; // For Jira
         databaseId?: string; // For Notion
         fileKey?: string; // For Figma
         teamId?: string; // For Figma
+        figmaType?: 'files' | 'comments' | 'versions'; // For Figma
         guildId?: string; // For Discord
     };
 }
 
+/**
+ * Passed by IngestionProcessor to provider ingest methods so they can report
+ * progress counters and stop early when the job is cancelled
+ */
+export interface IngestionReporter {
+    progress(counters: Record<string, number>): Promise<void>;
+    isCancelled(): Promise<boolean>;
+}
+
 @Injectable()
 export class IngestionQueue {
     constructor(
@@ -25,7 +38,24 @@ export class IngestionQueue {
 
     async enqueue(job: IngestionJobPayload) {
         return this.queue.add('ingest', job, {
+            jobId: job.ingestionJobId,
             priority: 2,
+            attempts: 3,
+            backoff: {
+                type: 'exponential',
+                delay: 10000, // 10s, 20s
+            },
         });
     }
-}
\ No newline at end of file
+
+    /**
+     * Remove a job that has not started yet. Returns false if it is already running or gone.
+     */
+    async remove(ingestionJobId: string) {
+        const job = await this.queue.getJob(ingestionJobId);
+        if (!job || (await job.isActive())) return false;
+
+        await job.remove();
+        return true;
+    }
+}
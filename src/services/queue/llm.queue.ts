@@ -13,6 +13,7 @@ export interface LLMJobPayload {
     organizationId?: string; // For chat and reports
     jobId?: string; // Link to Job model for tracking
     userMessageId?: string; // For chat - the user message that triggered this
+    useTools?: boolean; // For chat - let the model call read-only data tools
     periodStart?: string; // For reports
     periodEnd?: string; // For reports
     reportType?: 'DAILY' | 'WEEKLY' | 'MONTHLY'; // For reports
@@ -1,9 +1,18 @@
 import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { UnrecoverableError } from 'bullmq';
 import { INJESTION_QUEUE } from 'src/config/constants';
-import { IngestionJobPayload } from '../ingestion.queue';
+import { IngestionJobPayload, IngestionReporter } from '../ingestion.queue';
 import { Injectable } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
 import { DatabaseService } from 'src/services/database/database.service';
 import { LoggerService } from 'src/services/logger/logger.service';
+import { IngestionStatus } from 'generated/prisma/enums';
+import { SlackService } from 'src/modules/providers/slack/slack.service';
+import { JiraIntegrationService } from 'src/modules/providers/jira/jira.service';
+import { NotionIntegrationService } from 'src/modules/providers/notion/notion.service';
+import { FigmaService } from 'src/modules/providers/figma/figma.service';
+import { DiscordService } from 'src/modules/providers/discord/discord.service';
+import { SyncStateService } from 'src/modules/ingestion/sync-state.service';
 
 @Injectable()
 @Processor(INJESTION_QUEUE)
@@ -11,7 +20,8 @@ export class IngestionProcessor extends WorkerHost {
     private readonly logger = new LoggerService(IngestionProcessor.name);
 
     constructor(
-        private databaseService: DatabaseService,
+        private readonly databaseService: DatabaseService,
+        private readonly moduleRef: ModuleRef,
     ) {
         super();
     }
@@ -19,15 +29,144 @@ export class IngestionProcessor extends WorkerHost {
     async process(job) {
         const data = job.data as IngestionJobPayload;
 
-        this.logger.log(`Starting ingestion for ${data.type} on resource ${data.resourceId}`, IngestionProcessor.name);
+        this.logger.log(`Starting ${data.type} ingestion job ${data.ingestionJobId} on resource ${data.resourceId} (attempt ${job.attemptsMade + 1})`, IngestionProcessor.name);
 
-        // Note: Ingestion is handled directly via provider service endpoints
-        // This processor can be used for async ingestion jobs if needed
-        // For now, ingestion endpoints call provider services directly
-        
-        this.logger.warn(`IngestionProcessor: Direct ingestion endpoints should be used instead of queue`, IngestionProcessor.name);
-        
-        return true;
+        const ingestionJob = await this.databaseService.ingestionJob.findUnique({
+            where: { id: data.ingestionJobId },
+            select: { id: true, status: true, progress: true },
+        });
+
+        if (!ingestionJob) {
+            this.logger.warn(`Ingestion job ${data.ingestionJobId} not found, skipping`, IngestionProcessor.name);
+            return false;
+        }
+
+        if (ingestionJob.status === IngestionStatus.CANCELLED || ingestionJob.status === IngestionStatus.COMPLETED) {
+            return false;
+        }
+
+        await this.databaseService.ingestionJob.update({
+            where: { id: ingestionJob.id },
+            data: { status: IngestionStatus.RUNNING, startedAt: new Date(), error: null },
+        });
+
+        const reporter = this.createReporter(ingestionJob.id, (ingestionJob.progress as Record<string, any>) || {});
+
+        try {
+            const result = await this.dispatch(data, reporter);
+
+            // A cancelled job keeps its CANCELLED status even though the provider returned normally
+            await this.databaseService.ingestionJob.updateMany({
+                where: { id: ingestionJob.id, status: IngestionStatus.RUNNING },
+                data: {
+                    status: IngestionStatus.COMPLETED,
+                    finishedAt: new Date(),
+                    progress: { ...reporter.counters, result: result ?? null, updatedAt: new Date().toISOString() },
+                },
+            });
+
+            return true;
+        } catch (error) {
+            this.logger.error(`Ingestion job ${ingestionJob.id} failed: ${error.message}`, IngestionProcessor.name);
+
+            // Retrying a rate-limited job seconds later only hits the limit again: fail it and let the
+            // scheduler pick the resource up once its backoff expires
+            const rateLimit = this.getRateLimit(error);
+            if (rateLimit.limited && data.resourceId) {
+                await this.moduleRef.get(SyncStateService, { strict: false })
+                    .backoff(data.integrationId, data.resourceId, rateLimit.retryAfterSeconds);
+            }
+
+            const isFinalAttempt = rateLimit.limited || job.attemptsMade + 1 >= (job.opts?.attempts ?? 1);
+
+            await this.databaseService.ingestionJob.updateMany({
+                where: { id: ingestionJob.id, status: IngestionStatus.RUNNING },
+                data: {
+                    status: isFinalAttempt ? IngestionStatus.FAILED : IngestionStatus.PENDING,
+                    error: String(error?.message || error).slice(0, 2000),
+                    ...(isFinalAttempt && { finishedAt: new Date() }),
+                },
+            });
+
+            if (rateLimit.limited) {
+                throw new UnrecoverableError(error.message);
+            }
+            throw error; // let BullMQ retry with backoff
+        }
+    }
+
+    /**
+     * Providers signal rate limits with HTTP 429 (Slack also with `ratelimited` in an ok:false body)
+     */
+    private getRateLimit(error: any): { limited: boolean; retryAfterSeconds?: number } {
+        const limited = error?.response?.status === 429 || error?.message === 'ratelimited';
+        const retryAfter = parseInt(error?.response?.headers?.['retry-after']);
+
+        return { limited, retryAfterSeconds: Number.isFinite(retryAfter) ? retryAfter : undefined };
+    }
+
+    /**
+     * Reporter handed to provider ingest methods. Counters are merged into IngestionJob.progress
+     * and cancellation is read back from the job row so a cancel request stops the next page.
+     */
+    private createReporter(ingestionJobId: string, initial: Record<string, any>): IngestionReporter & { counters: Record<string, any> } {
+        const databaseService = this.databaseService;
+        const counters: Record<string, any> = { ...initial };
+
+        return {
+            counters,
+            async progress(update: Record<string, number>) {
+                Object.assign(counters, update);
+                await databaseService.ingestionJob.update({
+                    where: { id: ingestionJobId },
+                    data: { progress: { ...counters, updatedAt: new Date().toISOString() } },
+                });
+            },
+            async isCancelled() {
+                const current = await databaseService.ingestionJob.findUnique({
+                    where: { id: ingestionJobId },
+                    select: { status: true },
+                });
+                return !current || current.status === IngestionStatus.CANCELLED;
+            },
+        };
+    }
+
+    /**
+     * Route an ingestion job to its provider's ingest method.
+     * Provider services are resolved lazily because their modules depend on QueueModule.
+     */
+    private async dispatch(data: IngestionJobPayload, reporter: IngestionReporter) {
+        const options = data.options || {};
+
+        switch (data.type) {
+            case 'slack_history':
+                return this.moduleRef.get(SlackService, { strict: false })
+                    .ingestSlackHistory(data.integrationId, data.resourceId!, data.projectId, reporter);
+            case 'discord_history':
+                return this.moduleRef.get(DiscordService, { strict: false })
+                    .ingestChannelHistory(data.integrationId, data.resourceId!, data.projectId, reporter);
+            case 'jira_history':
+                return this.moduleRef.get(JiraIntegrationService, { strict: false })
+                    .ingestIssues(data.integrationId, data.resourceId, options.jql, reporter);
+            case 'notion_history':
+                return this.moduleRef.get(NotionIntegrationService, { strict: false })
+                    .ingestPages(data.integrationId, data.resourceId || options.databaseId, reporter);
+            case 'figma_history': {
+                const figmaService = this.moduleRef.get(FigmaService, { strict: false });
+                const fileKey = data.resourceId || options.fileKey;
+
+                if (options.figmaType === 'comments') {
+                    return figmaService.ingestComments(data.integrationId, fileKey!, reporter);
+                }
+                if (options.figmaType === 'versions') {
+                    return figmaService.ingestVersions(data.integrationId, fileKey!, reporter);
+                }
+                return figmaService.ingestFiles(data.integrationId, fileKey, reporter);
+            }
+            default:
+                throw new Error(`Ingestion type ${data.type} is not supported`);
+        }
     }
 
     @OnWorkerEvent('completed')
@@ -39,4 +178,4 @@ export class IngestionProcessor extends WorkerHost {
     onFailed(job, err) {
         this.logger.error(`Ingestion job failed: ${job.id} - ${err}`, IngestionProcessor.name);
     }
-}
\ No newline at end of file
+}
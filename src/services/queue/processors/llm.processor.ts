@@ -47,7 +47,8 @@ export class LLMProcessor extends WorkerHost {
                     data.projectId,
                     data.userId,
                     data.jobId,
-                    data.userMessageId
+                    data.userMessageId,
+                    data.useTools
                 );
             } else if (data.mode === 'project_report') {
                 result = await this.processProjectReport(
@@ -136,7 +137,8 @@ export class LLMProcessor extends WorkerHost {
         projectId: string | undefined,
         userId: string,
         jobId?: string,
-        userMessageId?: string
+        userMessageId?: string,
+        useTools?: boolean
     ) {
         // Get conversation to determine project/org
         const conversation = await this.databaseService.conversation.findUnique({
@@ -171,15 +173,36 @@ export class LLMProcessor extends WorkerHost {
             });
         }
 
-        // Use LlmService chat method
-        const result = await this.llmService.chat({
-            conversationId,
-            question,
-            userId,
-            projectId: actualProjectId,
-            organizationId,
-            userMessageId,
-        });
+        // Stream the answer to the conversation room as it is generated; clients can cancel by jobId
+        const roomName = this.chatGateway.getConversationRoom(conversationId);
+        const signal = jobId ? this.chatGateway.startGeneration(jobId) : undefined;
+        let deltaIndex = 0;
+
+        let result: Awaited<ReturnType<LlmService['chat']>>;
+        try {
+            result = await this.llmService.chat({
+                conversationId,
+                question,
+                userId,
+                projectId: actualProjectId,
+                organizationId,
+                userMessageId,
+                useTools,
+                signal,
+                onDelta: (delta) =>
+                    this.chatGateway.emitToRoom(roomName, 'assistantDelta', {
+                        conversationId,
+                        userMessageId,
+                        jobId,
+                        index: deltaIndex++,
+                        delta,
+                    }),
+            });
+        } finally {
+            if (jobId) {
+                this.chatGateway.finishGeneration(jobId);
+            }
+        }
 
         // Fetch the assistant message with full relations
         if (result.chatMessageId) {
@@ -218,10 +241,12 @@ export class LLMProcessor extends WorkerHost {
                         },
                     },
                     sources: {
+                        where: { OR: [{ rawEventId: null }, { rawEvent: { deletedAt: null } }] },
                         include: {
                             rawEvent: true,
                             llmOutput: true,
                         },
+                        orderBy: { citationIndex: 'asc' },
                     },
                 },
             });
@@ -230,6 +255,7 @@ export class LLMProcessor extends WorkerHost {
             if (assistantMessage) {
                 await this.chatGateway.emitToConversation(conversationId, 'newMessage', {
                     message: assistantMessage,
+                    citations: result.citations,
                     conversationId,
                     jobId,
                 });
@@ -239,12 +265,19 @@ export class LLMProcessor extends WorkerHost {
                     conversationId,
                     userMessageId,
                     jobId,
-                    status: 'completed',
+                    status: result.cancelled ? 'cancelled' : 'completed',
                     assistantMessageId: assistantMessage.id,
                 });
             }
         }
 
+        // Keep the rolling summary of long conversations current; the answer is already delivered
+        try {
+            await this.llmService.refreshConversationSummary(conversationId);
+        } catch (error) {
+            this.logger.warn(`Conversation summary refresh failed for ${conversationId}: ${error.message}`, LLMProcessor.name);
+        }
+
         return result;
     }
 
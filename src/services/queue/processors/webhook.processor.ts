@@ -2,9 +2,16 @@ import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
 import { WEBHOOK_QUEUE } from 'src/config/constants';
 import { WebhookJobPayload } from '../webhook.queue';
 import { Injectable } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
 import { DatabaseService } from 'src/services/database/database.service';
 import { LoggerService } from 'src/services/logger/logger.service';
 import { ExternalProvider } from 'generated/prisma/enums';
+import { GithubService } from 'src/modules/providers/github/github.service';
+import { SlackService } from 'src/modules/providers/slack/slack.service';
+import { JiraIntegrationService } from 'src/modules/providers/jira/jira.service';
+import { NotionIntegrationService } from 'src/modules/providers/notion/notion.service';
+import { FigmaService } from 'src/modules/providers/figma/figma.service';
+import { DiscordService } from 'src/modules/providers/discord/discord.service';
 
 @Injectable()
 @Processor(WEBHOOK_QUEUE)
@@ -12,7 +19,8 @@ export class WebhookProcessor extends WorkerHost {
     private readonly logger = new LoggerService(WebhookProcessor.name);
 
     constructor(
-        private databaseService: DatabaseService,
+        private readonly databaseService: DatabaseService,
+        private readonly moduleRef: ModuleRef,
     ) {
         super();
     }
@@ -20,26 +28,71 @@ export class WebhookProcessor extends WorkerHost {
     async process(job) {
         const data = job.data as WebhookJobPayload;
 
-        this.logger.log(`Processing ${data.provider} webhook event`, WebhookProcessor.name);
+        this.logger.log(`Processing ${data.provider} webhook event ${data.webhookEventId} (attempt ${job.attemptsMade + 1})`, WebhookProcessor.name);
+
+        const webhookEvent = await this.databaseService.webhookEvent.findUnique({
+            where: { id: data.webhookEventId },
+            select: { id: true, processed: true },
+        });
+
+        if (!webhookEvent) {
+            this.logger.warn(`Webhook event ${data.webhookEventId} not found, skipping`, WebhookProcessor.name);
+            return false;
+        }
+
+        if (webhookEvent.processed) {
+            return true;
+        }
 
         try {
-            // Store webhook event for logging
-            // Note: Provider-specific webhook handlers are called directly from controllers
-            // This processor is a fallback for queued webhook events
-            await this.databaseService.webhookEvent.create({
-                data: {
-                    provider: data.provider,
-                    providerEventId: data.headers?.['x-github-event'] || data.payload?.id || Date.now().toString(),
-                    payload: data.payload,
-                },
+            await this.dispatch(data.provider, data.headers || {}, data.payload);
+
+            // Only mark as processed once the provider handler succeeded
+            await this.databaseService.webhookEvent.update({
+                where: { id: webhookEvent.id },
+                data: { processed: true, processedAt: new Date(), deadLetteredAt: null },
             });
 
-            // For now, webhook processing is handled directly in controllers
-            // This processor logs the event for auditing
             return true;
         } catch (error) {
-            this.logger.error(`Webhook processing failed for ${data.provider}: ${error.message}`, WebhookProcessor.name);
-            throw error;
+            this.logger.error(`Webhook processing failed for ${data.provider} event ${data.webhookEventId}: ${error.message}`, WebhookProcessor.name);
+
+            // Retries exhausted: park the event in the dead-letter state until it is replayed
+            const isFinalAttempt = job.attemptsMade + 1 >= (job.opts?.attempts ?? 1);
+
+            await this.databaseService.webhookEvent.update({
+                where: { id: webhookEvent.id },
+                data: {
+                    attempts: { increment: 1 },
+                    lastError: String(error?.message || error).slice(0, 2000),
+                    ...(isFinalAttempt && { deadLetteredAt: new Date() }),
+                },
+            });
+
+            throw error; // let BullMQ retry with backoff
+        }
+    }
+
+    /**
+     * Route a webhook payload to its provider handler.
+     * Provider services are resolved lazily because their modules depend on QueueModule.
+     */
+    private async dispatch(provider: ExternalProvider, headers: Record<string, any>, payload: any) {
+        switch (provider) {
+            case ExternalProvider.GITHUB:
+                return this.moduleRef.get(GithubService, { strict: false }).handleWebhook(headers['x-github-event'], payload);
+            case ExternalProvider.SLACK:
+                return this.moduleRef.get(SlackService, { strict: false }).handleWebhook(payload);
+            case ExternalProvider.JIRA:
+                return this.moduleRef.get(JiraIntegrationService, { strict: false }).handleWebhook(payload);
+            case ExternalProvider.NOTION:
+                return this.moduleRef.get(NotionIntegrationService, { strict: false }).handleWebhook(payload);
+            case ExternalProvider.FIGMA:
+                return this.moduleRef.get(FigmaService, { strict: false }).handleWebhook(payload);
+            case ExternalProvider.DISCORD:
+                return this.moduleRef.get(DiscordService, { strict: false }).handleWebhook(payload);
+            default:
+                throw new Error(`No webhook handler registered for provider ${provider}`);
         }
     }
 
@@ -47,4 +100,4 @@ export class WebhookProcessor extends WorkerHost {
     onFailed(job, error) {
         this.logger.error(`Webhook job failed: ${job.id} - ${error}`, WebhookProcessor.name);
     }
-}
\ No newline at end of file
+}
@@ -5,6 +5,7 @@ import { ExternalProvider } from 'generated/prisma/enums';
 import { WEBHOOK_QUEUE } from 'src/config/constants';
 
 export interface WebhookJobPayload {
+    webhookEventId: string; // Persisted WebhookEvent row this job processes
     provider: ExternalProvider;
     headers: any;
     payload: any;
@@ -16,9 +17,20 @@ export class WebhookQueue {
         @InjectQueue(WEBHOOK_QUEUE) private readonly queue: Queue,
     ) { }
 
-    async enqueue(job: WebhookJobPayload) {
+    /**
+     * `jobId` makes the add idempotent: BullMQ ignores a second add while a job with that id exists
+     */
+    async enqueue(job: WebhookJobPayload, options: { jobId?: string } = {}) {
         return this.queue.add('webhook_event', job, {
+            jobId: options.jobId,
             priority: 1, // real-time processing, high priority
+            attempts: 5,
+            backoff: {
+                type: 'exponential',
+                delay: 5000, // 5s, 10s, 20s, 40s
+            },
+            removeOnComplete: 100,
+            removeOnFail: 200,
         });
     }
-}
\ No newline at end of file
+}
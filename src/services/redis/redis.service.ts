@@ -41,6 +41,22 @@ export class RedisService {
         }
     }
 
+    /**
+     * Increment a counter, setting its expiry when the key is new. Returns null if Redis is unavailable.
+     */
+    async incr(key: string, ttl?: number): Promise<number | null> {
+        try {
+            const value = await this.client.incr(key);
+            if (ttl && value === 1) {
+                await this.client.expire(key, ttl);
+            }
+            return value;
+        } catch (error) {
+            console.error(`Redis INCR error for key ${key}:`, error);
+            return null;
+        }
+    }
+
     async keys(pattern: string): Promise<string[]> {
         try {
             return await this.client.keys(pattern);
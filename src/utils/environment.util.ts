@@ -19,8 +19,9 @@ export function shouldMockPayments(): boolean {
 }
 
 /**
- * In dev, we can skip/relax credit checks
+ * In dev, we can skip/relax credit checks. ENFORCE_CREDIT_CHECKS=true keeps them on
+ * (e.g. CI runs against the fake LLM provider that still want credits deducted).
  */
 export function shouldSkipCreditChecks(): boolean {
-    return isDevelopment();
+    return isDevelopment() && process.env.ENFORCE_CREDIT_CHECKS !== 'true';
 }